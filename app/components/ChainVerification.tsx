@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { Translations } from '../translations';
+import { TranscriptEntry } from '../hooks/useLedger';
+import { verifyChain, ChainVerificationResult, EntryChainStatus } from '../utils/hashChain';
+
+interface ChainVerificationProps {
+  t: Translations;
+  entries: TranscriptEntry[];
+  formatTime: (timestamp: string) => string;
+  onClose: () => void;
+}
+
+/**
+ * Ledger integrity view
+ * Re-computes the hash chain of the open session and flags every entry
+ * that was altered, removed/reordered or never sealed. A chain whose only
+ * problem is unsealed entries is reported as not verifiable rather than
+ * broken, but never as intact
+ */
+export default function ChainVerification({ t, entries, formatTime, onClose }: ChainVerificationProps) {
+  const [result, setResult] = useState<ChainVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    verifyChain(entries)
+      .then(verification => {
+        if (!cancelled) setResult(verification);
+      })
+      .catch(err => {
+        console.error("Error verifying ledger:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : t.unknownError);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entries, t.unknownError]);
+
+  const statusLabels: Record<EntryChainStatus, string> = {
+    'valid': t.chainEntryValid,
+    'altered': t.chainEntryAltered,
+    'broken-link': t.chainEntryBrokenLink,
+    'unsealed': t.chainEntryUnsealed,
+  };
+
+  const flagged = result
+    ? entries
+        .map((entry, index) => ({ entry, status: result.statuses[index] }))
+        .filter(({ status }) => status !== 'valid')
+    : [];
+  const sealedCount = result ? result.statuses.filter(status => status !== 'unsealed').length : 0;
+  const isUnverifiable = result !== null && !result.valid && flagged.every(({ status }) => status === 'unsealed');
+  const summaryColor = result?.valid ? "#4CAF50" : isUnverifiable ? "#FF9800" : "#f44336";
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.8)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 3000,
+        padding: "2rem",
+      }}
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="chain-verification-title"
+        style={{
+          backgroundColor: "var(--background, #1a1a1a)",
+          borderRadius: "16px",
+          padding: "2rem",
+          maxWidth: "600px",
+          width: "100%",
+          maxHeight: "80vh",
+          overflowY: "auto",
+          border: "1px solid rgba(255, 255, 255, 0.1)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          id="chain-verification-title"
+          style={{
+            margin: "0 0 1rem 0",
+            color: "var(--foreground)",
+            fontSize: "1.5rem"
+          }}
+        >
+          🔐 {t.ledgerIntegrity}
+        </h2>
+
+        {error && (
+          <p role="alert" style={{ color: "#f44336", fontSize: "0.9rem" }}>
+            ❌ {error}
+          </p>
+        )}
+
+        {!result && !error && (
+          <p style={{ color: "rgba(128, 128, 128, 0.8)", fontSize: "0.9rem" }}>
+            {t.verifyingLedger}
+          </p>
+        )}
+
+        {result && (
+          <>
+            <div
+              role="status"
+              style={{
+                padding: "1rem",
+                borderRadius: "8px",
+                marginBottom: "1rem",
+                backgroundColor: result.valid ? "rgba(76, 175, 80, 0.15)" : isUnverifiable ? "rgba(255, 152, 0, 0.15)" : "rgba(244, 67, 54, 0.15)",
+                border: `2px solid ${summaryColor}`,
+                color: summaryColor,
+                fontWeight: "600",
+              }}
+            >
+              {result.valid ? `✅ ${t.chainValid}` : isUnverifiable ? `⚠️ ${t.chainUnverifiable}` : `⚠️ ${t.chainBroken}`}
+            </div>
+
+            <p style={{ color: "var(--foreground)", fontSize: "0.9rem", margin: "0 0 0.5rem 0" }}>
+              {t.sealedEntries}: <strong>{sealedCount}</strong> / {entries.length}
+            </p>
+            <div style={{ color: "var(--foreground)", fontSize: "0.9rem", marginBottom: "1rem" }}>
+              {t.chainHead}:
+              <code style={{
+                display: "block",
+                marginTop: "0.25rem",
+                padding: "0.5rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                borderRadius: "6px",
+                fontSize: "0.8rem",
+                wordBreak: "break-all",
+              }}>
+                {result.head ?? '—'}
+              </code>
+            </div>
+
+            {flagged.length > 0 && (
+              <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+                {flagged.map(({ entry, status }) => (
+                  <li
+                    key={entry.id}
+                    style={{
+                      padding: "0.75rem",
+                      borderRadius: "6px",
+                      backgroundColor: "rgba(0, 0, 0, 0.2)",
+                      borderLeft: `4px solid ${status === 'unsealed' ? "#FF9800" : "#f44336"}`,
+                    }}
+                  >
+                    <div style={{
+                      fontSize: "0.8rem",
+                      fontWeight: "600",
+                      color: status === 'unsealed' ? "#FF9800" : "#f44336",
+                      marginBottom: "0.25rem",
+                    }}>
+                      🕒 {formatTime(entry.timestamp)} · {statusLabels[status]}
+                    </div>
+                    <div style={{
+                      fontSize: "0.9rem",
+                      color: "var(--foreground)",
+                      whiteSpace: "nowrap",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                    }}>
+                      {entry.text}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        <div style={{
+          display: "flex",
+          justifyContent: "flex-end",
+          marginTop: "1.5rem",
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "0.75rem 1.5rem",
+              fontSize: "1rem",
+              cursor: "pointer",
+              backgroundColor: "rgba(255, 255, 255, 0.1)",
+              color: "var(--foreground)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "8px",
+            }}
+          >
+            {t.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,38 @@
 import { Translations } from '../translations';
+import { HighlightProfile } from '../hooks/useSettings';
+import HighlightProfileSwitcher from './HighlightProfileSwitcher';
 
 interface HeaderProps {
   t: Translations;
   isConnected: boolean;
+  isReconnecting: boolean;
   onToggle: () => void;
   onSettingsClick: () => void;
+  onLibraryClick: () => void;
+  highlightProfiles: HighlightProfile[];
+  activeHighlightProfileIds: string[];
+  onToggleHighlightProfile: (id: string) => void;
 }
 
 /**
- * Fixed header component with recording toggle and settings button
+ * Fixed header component with recording toggle, highlight profile switcher,
+ * session library and settings buttons
  * Responsive design hides title text on mobile devices
+ * While reconnecting the toggle stays a stop button, which cancels reconnecting
  */
-export default function Header({ t, isConnected, onToggle, onSettingsClick }: HeaderProps) {
+export default function Header({
+  t,
+  isConnected,
+  isReconnecting,
+  onToggle,
+  onSettingsClick,
+  onLibraryClick,
+  highlightProfiles,
+  activeHighlightProfileIds,
+  onToggleHighlightProfile,
+}: HeaderProps) {
+  const isActive = isConnected || isReconnecting;
+
   return (
     <header 
       role="banner"
@@ -71,20 +92,20 @@ export default function Header({ t, isConnected, onToggle, onSettingsClick }: He
         <button 
           onClick={onToggle}
           className="start-stop-btn"
-          aria-label={isConnected ? t.stop : t.start}
-          aria-pressed={isConnected}
+          aria-label={isReconnecting ? `${t.reconnecting} – ${t.stop}` : isActive ? t.stop : t.start}
+          aria-pressed={isActive}
           style={{
             padding: "0.75rem 1.5rem",
             fontSize: "1rem",
             fontWeight: "600",
             cursor: "pointer",
-            backgroundColor: isConnected ? "#f44336" : "transparent",
-            color: isConnected ? "white" : "var(--foreground)",
-            border: isConnected ? "none" : "2px solid rgba(255, 255, 255, 0.3)",
+            backgroundColor: isReconnecting ? "#FF9800" : isActive ? "#f44336" : "transparent",
+            color: isActive ? "white" : "var(--foreground)",
+            border: isActive ? "none" : "2px solid rgba(255, 255, 255, 0.3)",
             borderRadius: "8px",
             transition: "all 0.3s ease",
             whiteSpace: "nowrap",
-            animation: isConnected ? "pulse 2s infinite" : "none",
+            animation: isActive ? "pulse 2s infinite" : "none",
             display: "flex",
             alignItems: "center",
             gap: "0.5rem",
@@ -92,7 +113,7 @@ export default function Header({ t, isConnected, onToggle, onSettingsClick }: He
           }}
         >
           <span className="btn-text" style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
-            {isConnected ? (
+            {isActive ? (
               <>
                 <span 
                   className="stop-square"
@@ -123,7 +144,7 @@ export default function Header({ t, isConnected, onToggle, onSettingsClick }: He
             )}
           </span>
           <span className="btn-icon" style={{ display: "none", alignItems: "center", justifyContent: "center" }}>
-            {isConnected ? (
+            {isActive ? (
               <span 
                 className="stop-square"
                 style={{
@@ -149,6 +170,39 @@ export default function Header({ t, isConnected, onToggle, onSettingsClick }: He
           </span>
         </button>
         
+        {/* Highlight Profile Switcher */}
+        <HighlightProfileSwitcher
+          t={t}
+          highlightProfiles={highlightProfiles}
+          activeHighlightProfileIds={activeHighlightProfileIds}
+          onToggleProfile={onToggleHighlightProfile}
+        />
+
+        {/* Session Library Button */}
+        <button 
+          onClick={onLibraryClick}
+          aria-label={t.sessionLibrary}
+          style={{
+            padding: "0.75rem",
+            fontSize: "1.2rem",
+            cursor: "pointer",
+            backgroundColor: "rgba(40, 40, 40, 0.95)",
+            color: "var(--foreground)",
+            border: "1px solid rgba(255, 255, 255, 0.2)",
+            borderRadius: "8px",
+            transition: "all 0.3s ease",
+            width: "45px",
+            height: "45px",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            flexShrink: 0,
+          }}
+          title={t.sessionLibrary}
+        >
+          📚
+        </button>
+
         {/* Settings Button */}
         <button 
           onClick={onSettingsClick}
@@ -0,0 +1,129 @@
+import { useState, useEffect, useRef } from 'react';
+import { Translations } from '../translations';
+import { HighlightProfile, getHighlightProfileName } from '../hooks/useSettings';
+
+interface HighlightProfileSwitcherProps {
+  t: Translations;
+  highlightProfiles: HighlightProfile[];
+  activeHighlightProfileIds: string[];
+  onToggleProfile: (id: string) => void;
+}
+
+/**
+ * Header button for switching highlight profiles on and off
+ * Opens a dropdown of all profiles in priority order; the button's tooltip
+ * names the active ones
+ *
+ * @component
+ */
+export default function HighlightProfileSwitcher({
+  t,
+  highlightProfiles,
+  activeHighlightProfileIds,
+  onToggleProfile,
+}: HighlightProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => {
+        document.removeEventListener('mousedown', handleClickOutside);
+      };
+    }
+  }, [isOpen]);
+
+  const activeNames = highlightProfiles
+    .filter(profile => activeHighlightProfileIds.indexOf(profile.id) !== -1)
+    .map(profile => getHighlightProfileName(profile, t.defaultHighlightProfile));
+  const title = activeNames.length > 0
+    ? `${t.activeHighlightProfiles}: ${activeNames.join(', ')}`
+    : t.noActiveHighlightProfiles;
+
+  return (
+    <div ref={containerRef} style={{ position: "relative" }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={title}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        title={title}
+        style={{
+          padding: "0.75rem",
+          fontSize: "1.2rem",
+          cursor: "pointer",
+          backgroundColor: "rgba(40, 40, 40, 0.95)",
+          color: "var(--foreground)",
+          border: "1px solid rgba(255, 255, 255, 0.2)",
+          borderRadius: "8px",
+          transition: "all 0.3s ease",
+          width: "45px",
+          height: "45px",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          flexShrink: 0,
+          opacity: activeNames.length > 0 ? 1 : 0.6,
+        }}
+      >
+        🎨
+      </button>
+
+      {isOpen && (
+        <div
+          role="group"
+          aria-label={t.highlightProfiles}
+          style={{
+            position: "absolute",
+            top: "100%",
+            right: 0,
+            marginTop: "0.25rem",
+            minWidth: "200px",
+            padding: "0.5rem",
+            backgroundColor: "#1a1a1a",
+            border: "1px solid rgba(255, 255, 255, 0.3)",
+            borderRadius: "6px",
+            boxShadow: "0 4px 12px rgba(0, 0, 0, 0.5)",
+            zIndex: 1001,
+          }}
+        >
+          <div style={{ fontSize: "0.8rem", color: "rgba(128, 128, 128, 0.9)", marginBottom: "0.25rem" }}>
+            {t.highlightProfiles}
+          </div>
+          {highlightProfiles.map(profile => (
+            <label
+              key={profile.id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.5rem",
+                padding: "0.4rem 0.25rem",
+                fontSize: "0.9rem",
+                color: "var(--foreground)",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={activeHighlightProfileIds.indexOf(profile.id) !== -1}
+                onChange={() => onToggleProfile(profile.id)}
+              />
+              {getHighlightProfileName(profile, t.defaultHighlightProfile)}
+              <span style={{ marginLeft: "auto", fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {profile.rules.length}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
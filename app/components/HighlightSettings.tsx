@@ -1,15 +1,26 @@
 import { useState, useEffect, useRef } from 'react';
 import { Translations, Language } from '../translations';
-import { HighlightRule } from '../hooks/useSettings';
-import { HIGHLIGHT_COLORS } from '../utils/highlightUtils';
+import { HighlightProfile, HighlightMatchType, PartialMatchMode, HighlightAlert, getHighlightProfileName } from '../hooks/useSettings';
+import { DEFAULT_ALERT_COOLDOWN_SECONDS } from '../hooks/useKeywordAlerts';
+import { HIGHLIGHT_COLORS, validateRegexPattern } from '../utils/highlightUtils';
+import { MAX_FUZZY_TOLERANCE } from '../utils/fuzzyMatch';
+import { RuleSetImportMode } from '../utils/highlightRuleSets';
 
 interface HighlightSettingsProps {
   t: Translations;
   language: Language;
-  highlightRules: HighlightRule[];
+  highlightProfiles: HighlightProfile[];
+  activeHighlightProfileIds: string[];
   partialMatchHighlight: boolean;
-  onAddHighlight: (word: string, color: string) => void;
+  onAddHighlight: (profileId: string, word: string, color: string, matchType: HighlightMatchType, partialMatchMode: PartialMatchMode, fuzzyTolerance: number, alert?: HighlightAlert) => void;
   onRemoveHighlight: (id: string) => void;
+  onAddProfile: (name: string) => string;
+  onRenameProfile: (id: string, name: string) => void;
+  onRemoveProfile: (id: string) => void;
+  onMoveProfile: (id: string, offset: -1 | 1) => void;
+  onToggleProfile: (id: string) => void;
+  onImportRules: (file: File, mode: RuleSetImportMode) => void;
+  onExportRules: (format: 'json' | 'csv') => void;
   onTogglePartialMatch: () => void;
 }
 
@@ -17,7 +28,16 @@ interface HighlightSettingsProps {
  * Highlight Settings Component
  * 
  * Provides UI for managing word highlighting rules with the following features:
+ * - Named rule profiles: add, rename, remove, activate (several at once) and
+ *   reorder by priority; rules are added to and listed for one profile at a time
+ * - Import and export of rule sets (JSON or CSV) to share keyword lists,
+ *   merged into or replacing the profiles of the same name
  * - Add/remove highlight rules with word-color pairs
+ * - Rules match a word, a phrase or a regular expression; regexes are
+ *   validated before they can be saved
+ * - Word and phrase rules find inflected forms by substring or by Finnish
+ *   or English stem (new rules default to the stemmer of the UI language)
+ * - Word and phrase rules can also match near-misses within a set number of edits
  * - Visual color picker with bilingual color names
  * - Partial word matching toggle
  * - Click-outside detection for dropdown
@@ -27,13 +47,35 @@ interface HighlightSettingsProps {
 export default function HighlightSettings({
   t,
   language,
-  highlightRules,
+  highlightProfiles,
+  activeHighlightProfileIds,
   partialMatchHighlight,
   onAddHighlight,
   onRemoveHighlight,
+  onAddProfile,
+  onRenameProfile,
+  onRemoveProfile,
+  onMoveProfile,
+  onToggleProfile,
+  onImportRules,
+  onExportRules,
   onTogglePartialMatch,
 }: HighlightSettingsProps) {
+  const [importMode, setImportMode] = useState<RuleSetImportMode>('merge');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingProfileId, setEditingProfileId] = useState(highlightProfiles[0].id);
+  const [newProfileName, setNewProfileName] = useState('');
   const [newWord, setNewWord] = useState('');
+  const [matchType, setMatchType] = useState<HighlightMatchType>('word');
+  const [partialMatchMode, setPartialMatchMode] = useState<PartialMatchMode>(language === 'fi' ? 'finnish' : 'english');
+  const [fuzzyTolerance, setFuzzyTolerance] = useState(0);
+  const [alert, setAlert] = useState<HighlightAlert>({
+    sound: false,
+    notification: false,
+    flash: false,
+    onPartial: false,
+    cooldownSeconds: DEFAULT_ALERT_COOLDOWN_SECONDS,
+  });
   const [selectedColor, setSelectedColor] = useState(HIGHLIGHT_COLORS[0].value);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const colorPickerRef = useRef<HTMLDivElement>(null);
@@ -54,10 +96,44 @@ export default function HighlightSettings({
     }
   }, [showColorPicker]);
 
+  const editingProfile = highlightProfiles.find(profile => profile.id === editingProfileId) ?? highlightProfiles[0];
+  const highlightRules = editingProfile.rules;
+
+  const handleAddProfile = () => {
+    const name = newProfileName.trim();
+    if (name) {
+      setEditingProfileId(onAddProfile(name));
+      setNewProfileName('');
+    }
+  };
+
+  const regexError = matchType === 'regex' && newWord.trim() ? validateRegexPattern(newWord) : null;
+  const canAdd = newWord.trim() !== '' && regexError === null;
+
+  const matchTypeLabels: { [type in HighlightMatchType]: string } = {
+    word: t.matchTypeWord,
+    phrase: t.matchTypePhrase,
+    regex: t.matchTypeRegex,
+  };
+
+  const partialMatchModeLabels: { [mode in PartialMatchMode]: string } = {
+    substring: t.partialMatchSubstring,
+    finnish: t.partialMatchFinnish,
+    english: t.partialMatchEnglish,
+  };
+
+  const hasAlert = alert.sound || alert.notification || alert.flash;
+
+  const alertOptions: { key: 'sound' | 'notification' | 'flash' | 'onPartial'; label: string; title: string }[] = [
+    { key: 'sound', label: `🔊 ${t.alertSound}`, title: t.alertSoundDesc },
+    { key: 'notification', label: `🔔 ${t.alertNotification}`, title: t.alertNotificationDesc },
+    { key: 'flash', label: `⚡ ${t.alertFlash}`, title: t.alertFlashDesc },
+    { key: 'onPartial', label: t.alertOnPartial, title: t.alertOnPartialDesc },
+  ];
+
   const handleAdd = () => {
-    const word = newWord.trim();
-    if (word) {
-      onAddHighlight(word, selectedColor);
+    if (canAdd) {
+      onAddHighlight(editingProfile.id, matchType === 'regex' ? newWord : newWord.trim(), selectedColor, matchType, partialMatchMode, fuzzyTolerance, hasAlert ? alert : undefined);
       setNewWord('');
     }
   };
@@ -129,6 +205,217 @@ export default function HighlightSettings({
         </button>
       </div>
 
+      {/* Highlight profiles */}
+      <div style={{
+        marginBottom: "1rem",
+        padding: "0.75rem",
+        backgroundColor: "rgba(0, 0, 0, 0.2)",
+        borderRadius: "6px"
+      }}>
+        <div style={{ color: "var(--foreground)", fontWeight: "500" }}>
+          {t.highlightProfiles}
+        </div>
+        <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)", marginBottom: "0.5rem" }}>
+          {t.highlightProfilesDesc}
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem", marginBottom: "0.5rem" }}>
+          {highlightProfiles.map((profile, index) => {
+            const name = getHighlightProfileName(profile, t.defaultHighlightProfile);
+            const isEditing = profile.id === editingProfile.id;
+            return (
+              <div
+                key={profile.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.5rem",
+                  padding: "0.25rem 0.5rem",
+                  borderRadius: "4px",
+                  border: isEditing ? "1px solid #FFC107" : "1px solid transparent",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={activeHighlightProfileIds.indexOf(profile.id) !== -1}
+                  onChange={() => onToggleProfile(profile.id)}
+                  aria-label={`${t.profileActive}: ${name}`}
+                />
+                <button
+                  onClick={() => setEditingProfileId(profile.id)}
+                  aria-pressed={isEditing}
+                  title={t.editProfileRules}
+                  style={{
+                    flex: 1,
+                    padding: "0.25rem",
+                    fontSize: "0.9rem",
+                    cursor: "pointer",
+                    backgroundColor: "transparent",
+                    color: "var(--foreground)",
+                    border: "none",
+                    textAlign: "left",
+                    fontWeight: isEditing ? "600" : "400",
+                  }}
+                >
+                  {name} <span style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>({profile.rules.length})</span>
+                </button>
+                <button
+                  onClick={() => onMoveProfile(profile.id, -1)}
+                  disabled={index === 0}
+                  aria-label={`${t.raiseProfilePriority}: ${name}`}
+                  title={t.raiseProfilePriority}
+                  style={{ padding: "0.1rem 0.4rem", fontSize: "0.75rem", cursor: index === 0 ? "not-allowed" : "pointer", backgroundColor: "transparent", color: "var(--foreground)", border: "1px solid rgba(255, 255, 255, 0.2)", borderRadius: "4px", opacity: index === 0 ? 0.4 : 1 }}
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => onMoveProfile(profile.id, 1)}
+                  disabled={index === highlightProfiles.length - 1}
+                  aria-label={`${t.lowerProfilePriority}: ${name}`}
+                  title={t.lowerProfilePriority}
+                  style={{ padding: "0.1rem 0.4rem", fontSize: "0.75rem", cursor: index === highlightProfiles.length - 1 ? "not-allowed" : "pointer", backgroundColor: "transparent", color: "var(--foreground)", border: "1px solid rgba(255, 255, 255, 0.2)", borderRadius: "4px", opacity: index === highlightProfiles.length - 1 ? 0.4 : 1 }}
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={() => onRemoveProfile(profile.id)}
+                  disabled={highlightProfiles.length <= 1}
+                  aria-label={`${t.removeHighlightProfile}: ${name}`}
+                  title={t.removeHighlightProfile}
+                  style={{ padding: "0.1rem 0.4rem", fontSize: "0.75rem", cursor: highlightProfiles.length <= 1 ? "not-allowed" : "pointer", backgroundColor: "rgba(244, 67, 54, 0.2)", color: "#f44336", border: "1px solid #f44336", borderRadius: "4px", opacity: highlightProfiles.length <= 1 ? 0.4 : 1 }}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+          <input
+            key={editingProfile.id}
+            type="text"
+            defaultValue={editingProfile.name}
+            onBlur={(e) => e.target.value.trim() !== editingProfile.name && onRenameProfile(editingProfile.id, e.target.value)}
+            placeholder={t.defaultHighlightProfile}
+            aria-label={t.profileName}
+            title={t.profileName}
+            style={{
+              flex: "1 1 150px",
+              padding: "0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+            }}
+          />
+          <input
+            type="text"
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddProfile()}
+            placeholder={t.newProfilePlaceholder}
+            aria-label={t.newHighlightProfile}
+            style={{
+              flex: "1 1 150px",
+              padding: "0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+            }}
+          />
+          <button
+            onClick={handleAddProfile}
+            disabled={!newProfileName.trim()}
+            style={{
+              padding: "0.5rem 1rem",
+              fontSize: "0.9rem",
+              cursor: newProfileName.trim() ? "pointer" : "not-allowed",
+              backgroundColor: newProfileName.trim() ? "#FFC107" : "rgba(128, 128, 128, 0.2)",
+              color: newProfileName.trim() ? "#000" : "rgba(128, 128, 128, 0.5)",
+              border: "none",
+              borderRadius: "6px",
+              fontWeight: "600",
+              opacity: newProfileName.trim() ? 1 : 0.5,
+            }}
+          >
+            ➕ {t.newHighlightProfile}
+          </button>
+        </div>
+
+        {/* Rule set import and export */}
+        <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", alignItems: "center", marginTop: "0.75rem" }}>
+          <select
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value as RuleSetImportMode)}
+            aria-label={t.importMode}
+            title={importMode === 'merge' ? t.importMergeDesc : t.importReplaceDesc}
+            style={{
+              padding: "0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+            }}
+          >
+            <option value="merge">{t.importMerge}</option>
+            <option value="replace">{t.importReplace}</option>
+          </select>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            title={importMode === 'merge' ? t.importMergeDesc : t.importReplaceDesc}
+            style={{
+              padding: "0.5rem 1rem",
+              fontSize: "0.9rem",
+              cursor: "pointer",
+              backgroundColor: "#FFC107",
+              color: "#000",
+              border: "none",
+              borderRadius: "6px",
+              fontWeight: "600",
+            }}
+          >
+            📂 {t.importHighlightRules}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json,text/csv,.csv"
+            aria-hidden="true"
+            tabIndex={-1}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file && (importMode === 'merge' || window.confirm(t.importReplaceConfirm))) {
+                onImportRules(file, importMode);
+              }
+              e.target.value = '';
+            }}
+            style={{ display: "none" }}
+          />
+          {(['json', 'csv'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => onExportRules(format)}
+              style={{
+                padding: "0.5rem 1rem",
+                fontSize: "0.9rem",
+                cursor: "pointer",
+                backgroundColor: "rgba(128, 128, 128, 0.2)",
+                color: "var(--foreground)",
+                border: "1px solid rgba(128, 128, 128, 0.4)",
+                borderRadius: "6px",
+              }}
+            >
+              ⬇️ {t.exportHighlightRules} ({format.toUpperCase()})
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Add new highlight */}
       <div style={{ 
         marginBottom: "1rem",
@@ -136,6 +423,9 @@ export default function HighlightSettings({
         backgroundColor: "rgba(0, 0, 0, 0.2)",
         borderRadius: "6px"
       }}>
+        <div style={{ fontSize: "0.8rem", color: "rgba(128, 128, 128, 0.7)", marginBottom: "0.5rem" }}>
+          {t.profileRules}: <strong style={{ color: "var(--foreground)" }}>{getHighlightProfileName(editingProfile, t.defaultHighlightProfile)}</strong>
+        </div>
         <div style={{ display: "flex", gap: "0.5rem", marginBottom: "0.5rem", flexWrap: "wrap" }}>
           <input
             type="text"
@@ -153,7 +443,72 @@ export default function HighlightSettings({
               color: "var(--foreground)",
             }}
             aria-label={t.word}
+            aria-invalid={regexError !== null}
           />
+
+          <select
+            value={matchType}
+            onChange={(e) => setMatchType(e.target.value as HighlightMatchType)}
+            aria-label={t.matchType}
+            style={{
+              flex: "0 1 110px",
+              padding: "0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+            }}
+          >
+            {(['word', 'phrase', 'regex'] as HighlightMatchType[]).map(type => (
+              <option key={type} value={type}>{matchTypeLabels[type]}</option>
+            ))}
+          </select>
+
+          {matchType !== 'regex' && (
+            <select
+              value={partialMatchMode}
+              onChange={(e) => setPartialMatchMode(e.target.value as PartialMatchMode)}
+              aria-label={t.partialMatchMode}
+              title={t.partialMatchMode}
+              style={{
+                flex: "0 1 150px",
+                padding: "0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+              }}
+            >
+              {(['finnish', 'english', 'substring'] as PartialMatchMode[]).map(mode => (
+                <option key={mode} value={mode}>{partialMatchModeLabels[mode]}</option>
+              ))}
+            </select>
+          )}
+
+          {matchType !== 'regex' && (
+            <select
+              value={fuzzyTolerance}
+              onChange={(e) => setFuzzyTolerance(parseInt(e.target.value, 10))}
+              aria-label={t.fuzzyTolerance}
+              title={t.fuzzyToleranceDesc}
+              style={{
+                flex: "0 1 150px",
+                padding: "0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+              }}
+            >
+              <option value={0}>{t.fuzzyOff}</option>
+              {Array.from({ length: MAX_FUZZY_TOLERANCE }, (_, i) => i + 1).map(edits => (
+                <option key={edits} value={edits}>≈ {t.fuzzyTolerance}: {edits}</option>
+              ))}
+            </select>
+          )}
           
           {/* Color Picker Button */}
           <div ref={colorPickerRef} style={{ position: "relative", flex: "1 1 120px" }}>
@@ -262,22 +617,83 @@ export default function HighlightSettings({
 
           <button
             onClick={handleAdd}
-            disabled={!newWord.trim()}
+            disabled={!canAdd}
             style={{
               padding: "0.5rem 1rem",
               fontSize: "0.9rem",
-              cursor: newWord.trim() ? "pointer" : "not-allowed",
-              backgroundColor: newWord.trim() ? "#FFC107" : "rgba(128, 128, 128, 0.2)",
-              color: newWord.trim() ? "#000" : "rgba(128, 128, 128, 0.5)",
+              cursor: canAdd ? "pointer" : "not-allowed",
+              backgroundColor: canAdd ? "#FFC107" : "rgba(128, 128, 128, 0.2)",
+              color: canAdd ? "#000" : "rgba(128, 128, 128, 0.5)",
               border: "none",
               borderRadius: "6px",
               fontWeight: "600",
-              opacity: newWord.trim() ? 1 : 0.5,
+              opacity: canAdd ? 1 : 0.5,
             }}
           >
             ➕ {t.addHighlight}
           </button>
         </div>
+
+        {/* Alert raised when the rule matches */}
+        <div
+          role="group"
+          aria-label={t.keywordAlert}
+          style={{ display: "flex", gap: "0.75rem", alignItems: "center", flexWrap: "wrap", marginBottom: "0.5rem", fontSize: "0.85rem" }}
+        >
+          <span style={{ color: "rgba(128, 128, 128, 0.9)" }}>🚨 {t.keywordAlert}:</span>
+          {alertOptions.map(option => (
+            <label
+              key={option.key}
+              title={option.title}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "0.3rem",
+                cursor: option.key === 'onPartial' && !hasAlert ? "not-allowed" : "pointer",
+                color: "var(--foreground)",
+                opacity: option.key === 'onPartial' && !hasAlert ? 0.5 : 1,
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={alert[option.key]}
+                disabled={option.key === 'onPartial' && !hasAlert}
+                onChange={(e) => setAlert({ ...alert, [option.key]: e.target.checked })}
+              />
+              {option.label}
+            </label>
+          ))}
+          <label
+            title={t.alertCooldownDesc}
+            style={{ display: "flex", alignItems: "center", gap: "0.3rem", color: "var(--foreground)", opacity: hasAlert ? 1 : 0.5 }}
+          >
+            {t.alertCooldown}:
+            <input
+              type="number"
+              min={0}
+              max={3600}
+              value={alert.cooldownSeconds}
+              disabled={!hasAlert}
+              onChange={(e) => setAlert({ ...alert, cooldownSeconds: Math.max(0, Math.min(3600, parseInt(e.target.value, 10) || 0)) })}
+              style={{
+                width: "70px",
+                padding: "0.3rem",
+                fontSize: "0.85rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+              }}
+            />
+            s
+          </label>
+        </div>
+
+        {regexError && (
+          <div role="alert" style={{ fontSize: "0.8rem", color: "#f44336" }}>
+            ⚠️ {regexError === 'invalid' ? t.invalidRegex : t.regexMatchesEmpty}
+          </div>
+        )}
       </div>
 
       {/* List of existing highlights */}
@@ -314,6 +730,60 @@ export default function HighlightSettings({
                   >
                     {rule.word}
                   </span>
+                  {rule.matchType && rule.matchType !== 'word' && (
+                    <span style={{
+                      fontSize: "0.75rem",
+                      padding: "2px 6px",
+                      borderRadius: "4px",
+                      backgroundColor: "rgba(255, 255, 255, 0.1)",
+                      color: "var(--foreground)",
+                      fontFamily: rule.matchType === 'regex' ? "monospace" : undefined,
+                    }}>
+                      {matchTypeLabels[rule.matchType]}
+                    </span>
+                  )}
+                  {rule.partialMatchMode && rule.partialMatchMode !== 'substring' && (
+                    <span
+                      title={t.partialMatchMode}
+                      style={{
+                        fontSize: "0.75rem",
+                        padding: "2px 6px",
+                        borderRadius: "4px",
+                        backgroundColor: "rgba(255, 255, 255, 0.1)",
+                        color: "var(--foreground)",
+                      }}
+                    >
+                      {partialMatchModeLabels[rule.partialMatchMode]}
+                    </span>
+                  )}
+                  {rule.fuzzyTolerance ? (
+                    <span
+                      title={t.fuzzyToleranceDesc}
+                      style={{
+                        fontSize: "0.75rem",
+                        padding: "2px 6px",
+                        borderRadius: "4px",
+                        backgroundColor: "rgba(255, 255, 255, 0.1)",
+                        color: "var(--foreground)",
+                      }}
+                    >
+                      ≈ {t.fuzzyTolerance}: {rule.fuzzyTolerance}
+                    </span>
+                  ) : null}
+                  {rule.alert && (
+                    <span
+                      title={`${t.keywordAlert}, ${t.alertCooldown}: ${rule.alert.cooldownSeconds} s${rule.alert.onPartial ? `, ${t.alertOnPartial}` : ''}`}
+                      style={{
+                        fontSize: "0.75rem",
+                        padding: "2px 6px",
+                        borderRadius: "4px",
+                        backgroundColor: "rgba(255, 255, 255, 0.1)",
+                        color: "var(--foreground)",
+                      }}
+                    >
+                      🚨 {rule.alert.sound && '🔊'}{rule.alert.notification && '🔔'}{rule.alert.flash && '⚡'}
+                    </span>
+                  )}
                   <span style={{ 
                     fontSize: "0.8rem", 
                     color: "rgba(128, 128, 128, 0.7)",
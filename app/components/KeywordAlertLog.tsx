@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Translations } from '../translations';
+import { KeywordAlert } from '../hooks/useKeywordAlerts';
+import { HIGHLIGHT_COLORS } from '../utils/highlightUtils';
+
+interface KeywordAlertLogProps {
+  t: Translations;
+  alerts: KeywordAlert[];
+  formatTime: (timestamp: string) => string;
+  onClear: () => void;
+}
+
+/**
+ * Log of triggered keyword alerts, newest first
+ * Collapsible, so the operator can keep it out of the way until needed;
+ * the newest alert is announced to screen readers
+ *
+ * @component
+ */
+export default function KeywordAlertLog({ t, alerts, formatTime, onClear }: KeywordAlertLogProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <div
+      style={{
+        padding: "1rem",
+        backgroundColor: "rgba(244, 67, 54, 0.1)",
+        border: "1px solid rgba(244, 67, 54, 0.4)",
+        borderRadius: "12px",
+        marginBottom: "2rem",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          style={{
+            flex: 1,
+            padding: 0,
+            fontSize: "1rem",
+            fontWeight: "600",
+            textAlign: "left",
+            cursor: "pointer",
+            backgroundColor: "transparent",
+            color: "var(--foreground)",
+            border: "none",
+          }}
+        >
+          {isOpen ? '▼' : '▶'} 🚨 {t.keywordAlertLog} ({alerts.length})
+        </button>
+        <button
+          onClick={onClear}
+          style={{
+            padding: "0.3rem 0.75rem",
+            fontSize: "0.85rem",
+            cursor: "pointer",
+            backgroundColor: "rgba(128, 128, 128, 0.2)",
+            color: "var(--foreground)",
+            border: "1px solid rgba(128, 128, 128, 0.4)",
+            borderRadius: "6px",
+          }}
+        >
+          {t.clearAlertLog}
+        </button>
+      </div>
+
+      {/* Newest alert for screen readers */}
+      <div role="status" aria-live="assertive" style={{ position: "absolute", width: "1px", height: "1px", overflow: "hidden" }}>
+        {alerts.length > 0 && `${t.keywordAlert}: ${alerts[0].ruleWord}`}
+      </div>
+
+      {isOpen && (
+        <ul style={{ listStyle: "none", margin: "0.75rem 0 0", padding: 0, display: "flex", flexDirection: "column", gap: "0.4rem", maxHeight: "200px", overflowY: "auto" }}>
+          {alerts.map(alert => {
+            const colorConfig = HIGHLIGHT_COLORS.find(c => c.value === alert.color);
+            return (
+              <li key={alert.id} style={{ display: "flex", alignItems: "baseline", gap: "0.5rem", fontSize: "0.9rem" }}>
+                <span style={{ color: "rgba(128, 128, 128, 0.9)", fontFamily: "monospace", flexShrink: 0 }}>
+                  {formatTime(alert.triggeredAt)}
+                </span>
+                <span
+                  style={{
+                    backgroundColor: alert.color,
+                    color: colorConfig?.textColor || '#000000',
+                    padding: "1px 6px",
+                    borderRadius: "4px",
+                    fontWeight: "600",
+                    flexShrink: 0,
+                  }}
+                >
+                  {alert.matchedText}
+                </span>
+                {alert.source === 'partial' && (
+                  <span title={t.alertOnPartialDesc} style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.9)", flexShrink: 0 }}>
+                    ({t.alertPartialSource})
+                  </span>
+                )}
+                <span style={{ color: "var(--foreground)", opacity: 0.8, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {alert.text}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Translations } from '../translations';
+
+interface ManualEntryComposerProps {
+  t: Translations;
+  onAddEntry: (text: string, timestamp?: string) => void;
+}
+
+/**
+ * Composer for entries that were never spoken on the microphone
+ * (phone calls, written messages, decisions)
+ * Entries can be back-dated to a chosen date and time
+ */
+export default function ManualEntryComposer({ t, onAddEntry }: ManualEntryComposerProps) {
+  const [text, setText] = useState('');
+  const [backdate, setBackdate] = useState(false);
+  const [time, setTime] = useState('');
+
+  // datetime-local values are in local time; store the instant as ISO 8601
+  const chosenTime = time ? new Date(time) : null;
+  const chosenTimestamp = chosenTime && !isNaN(chosenTime.getTime()) ? chosenTime.toISOString() : '';
+  const canAdd = text.trim() !== '' && (!backdate || chosenTimestamp !== '');
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAddEntry(text, backdate ? chosenTimestamp : undefined);
+    setText('');
+    setBackdate(false);
+    setTime('');
+  };
+
+  return (
+    <section
+      aria-label={t.manualEntry}
+      style={{
+        padding: "1rem",
+        backgroundColor: "rgba(0, 150, 136, 0.08)",
+        borderRadius: "12px",
+        marginBottom: "2rem",
+        border: "1px solid rgba(0, 150, 136, 0.3)",
+      }}
+    >
+      <label
+        htmlFor="manual-entry-text"
+        style={{
+          display: "block",
+          fontSize: "0.9rem",
+          fontWeight: "600",
+          color: "#009688",
+          marginBottom: "0.75rem",
+          textTransform: "uppercase",
+          letterSpacing: "0.5px"
+        }}
+      >
+        ✍️ {t.manualEntry}
+      </label>
+      <textarea
+        id="manual-entry-text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        rows={2}
+        placeholder={t.manualEntryPlaceholder}
+        style={{
+          width: "100%",
+          padding: "0.5rem",
+          fontSize: "1rem",
+          lineHeight: "1.5",
+          backgroundColor: "rgba(0, 0, 0, 0.3)",
+          border: "1px solid rgba(255, 255, 255, 0.2)",
+          borderRadius: "6px",
+          color: "var(--foreground)",
+          fontFamily: "inherit",
+          resize: "vertical",
+        }}
+      />
+      <div style={{
+        display: "flex",
+        gap: "0.75rem",
+        alignItems: "center",
+        flexWrap: "wrap",
+        marginTop: "0.5rem"
+      }}>
+        <label style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.4rem",
+          fontSize: "0.9rem",
+          color: "var(--foreground)",
+          cursor: "pointer"
+        }}>
+          <input
+            type="checkbox"
+            checked={backdate}
+            onChange={(e) => setBackdate(e.target.checked)}
+          />
+          {t.backdateEntry}
+        </label>
+        {backdate && (
+          <input
+            type="datetime-local"
+            step={1}
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            aria-label={t.entryTime}
+            style={{
+              padding: "0.3rem 0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+            }}
+          />
+        )}
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          style={{
+            marginLeft: "auto",
+            padding: "0.5rem 1rem",
+            fontSize: "0.9rem",
+            cursor: canAdd ? "pointer" : "not-allowed",
+            backgroundColor: canAdd ? "#009688" : "rgba(128, 128, 128, 0.2)",
+            color: canAdd ? "white" : "rgba(128, 128, 128, 0.5)",
+            border: "none",
+            borderRadius: "6px",
+            fontWeight: "500",
+          }}
+        >
+          ➕ {t.addManualEntry}
+        </button>
+      </div>
+    </section>
+  );
+}
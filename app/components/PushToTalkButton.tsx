@@ -0,0 +1,64 @@
+import { Translations } from '../translations';
+import { formatKeyCode } from '../hooks/usePushToTalk';
+
+interface PushToTalkButtonProps {
+  t: Translations;
+  isTalking: boolean;
+  pushToTalkKey: string;
+  onPress: () => void;
+  onRelease: () => void;
+}
+
+/**
+ * On-screen push-to-talk button
+ * Audio is transcribed only while the button (or the configured key) is held
+ */
+export default function PushToTalkButton({ t, isTalking, pushToTalkKey, onPress, onRelease }: PushToTalkButtonProps) {
+  return (
+    <div style={{ marginBottom: "2rem", textAlign: "center" }}>
+      <button
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onPress();
+        }}
+        onPointerUp={onRelease}
+        onPointerCancel={onRelease}
+        onLostPointerCapture={onRelease}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && !e.repeat) {
+            e.preventDefault();
+            onPress();
+          }
+        }}
+        onKeyUp={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onRelease();
+          }
+        }}
+        onContextMenu={(e) => e.preventDefault()}
+        aria-pressed={isTalking}
+        aria-label={t.holdToTalk}
+        style={{
+          width: "100%",
+          padding: "1.25rem",
+          fontSize: "1.1rem",
+          fontWeight: "600",
+          cursor: "pointer",
+          backgroundColor: isTalking ? "#f44336" : "rgba(33, 150, 243, 0.2)",
+          color: isTalking ? "white" : "var(--foreground)",
+          border: `2px solid ${isTalking ? "#f44336" : "#2196F3"}`,
+          borderRadius: "12px",
+          userSelect: "none",
+          touchAction: "none",
+          transition: "all 0.15s ease",
+        }}
+      >
+        🎙️ {isTalking ? t.talking : t.holdToTalk}
+      </button>
+      <div style={{ fontSize: "0.8rem", color: "rgba(128, 128, 128, 0.8)", marginTop: "0.5rem" }}>
+        {t.pushToTalkKey}: <kbd>{formatKeyCode(pushToTalkKey)}</kbd>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { Translations } from '../translations';
+import { RecoverableLedger } from '../hooks/useLedger';
+
+interface RecoveryPromptProps {
+  t: Translations;
+  recoverable: RecoverableLedger;
+  formatTime: (timestamp: string) => string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Modal shown on load when a session left open is found in IndexedDB
+ * Lets the user reopen the session or close it into the library
+ */
+export default function RecoveryPrompt({
+  t,
+  recoverable,
+  formatTime,
+  onRestore,
+  onDiscard,
+}: RecoveryPromptProps) {
+  const { session, entries, pendingPartial } = recoverable;
+  const lastEntry = entries[entries.length - 1];
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="recovery-prompt-title"
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.8)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 3000,
+        padding: "2rem",
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: "var(--background, #1a1a1a)",
+          borderRadius: "16px",
+          padding: "2rem",
+          maxWidth: "500px",
+          width: "100%",
+          border: "1px solid rgba(255, 255, 255, 0.1)",
+        }}
+      >
+        <h2
+          id="recovery-prompt-title"
+          style={{
+            margin: "0 0 1rem 0",
+            color: "var(--foreground)",
+            fontSize: "1.5rem"
+          }}
+        >
+          💾 {t.recoverSessionTitle}
+        </h2>
+        <p style={{
+          color: "rgba(128, 128, 128, 0.8)",
+          fontSize: "0.9rem",
+          marginBottom: "1rem"
+        }}>
+          {t.recoverSessionDesc}
+        </p>
+        <p style={{
+          color: "var(--foreground)",
+          fontSize: "0.9rem",
+          marginBottom: "1.5rem"
+        }}>
+          📂 <strong>{session.name}</strong>
+          {session.operator && ` · 👤 ${session.operator}`}
+          <br />
+          <strong>{entries.length}</strong> {entries.length === 1 ? 'transcript' : 'transcripts'}
+          {lastEntry && ` · 🕒 ${formatTime(lastEntry.timestamp)}`}
+          {pendingPartial && (
+            <>
+              <br />
+              ⚡ {t.recoverPendingPartial}
+            </>
+          )}
+        </p>
+        <div style={{
+          display: "flex",
+          gap: "1rem",
+          justifyContent: "flex-end"
+        }}>
+          <button
+            onClick={onDiscard}
+            style={{
+              padding: "0.75rem 1.5rem",
+              fontSize: "1rem",
+              cursor: "pointer",
+              backgroundColor: "rgba(244, 67, 54, 0.2)",
+              color: "#f44336",
+              border: "1px solid #f44336",
+              borderRadius: "8px",
+            }}
+          >
+            {t.discardSession}
+          </button>
+          <button
+            onClick={onRestore}
+            autoFocus
+            style={{
+              padding: "0.75rem 1.5rem",
+              fontSize: "1rem",
+              cursor: "pointer",
+              backgroundColor: "#2196F3",
+              color: "white",
+              border: "none",
+              borderRadius: "8px",
+            }}
+          >
+            {t.recoverSession}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Translations } from '../translations';
+import { LedgerSession } from '../hooks/useLedger';
+
+interface SessionLibraryProps {
+  t: Translations;
+  sessions: LedgerSession[];
+  activeSessionId: string | null;
+  onOpenSession: (id: string) => void;
+  onNewSession: () => void;
+  onUpdateSession: (id: string, changes: Partial<Omit<LedgerSession, 'id'>>) => void;
+  onDuplicateSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+/**
+ * Format an ISO timestamp for the library list
+ */
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+const inputStyle = {
+  width: "100%",
+  padding: "0.5rem",
+  fontSize: "0.9rem",
+  backgroundColor: "rgba(0, 0, 0, 0.3)",
+  border: "1px solid rgba(255, 255, 255, 0.2)",
+  borderRadius: "6px",
+  color: "var(--foreground)",
+  fontFamily: "inherit",
+};
+
+const actionButtonStyle = {
+  padding: "0.25rem 0.6rem",
+  fontSize: "0.8rem",
+  cursor: "pointer",
+  backgroundColor: "rgba(255, 255, 255, 0.1)",
+  color: "var(--foreground)",
+  border: "1px solid rgba(255, 255, 255, 0.2)",
+  borderRadius: "4px",
+};
+
+/**
+ * Session Library Component
+ *
+ * Lists the named ledger sessions stored in this browser with the following features:
+ * - Open a past session in the transcript view (and exports)
+ * - Rename, duplicate, archive and delete sessions
+ * - Edit operator and notes of the open session
+ * - Archived sessions hidden unless requested
+ *
+ * @component
+ */
+export default function SessionLibrary({
+  t,
+  sessions,
+  activeSessionId,
+  onOpenSession,
+  onNewSession,
+  onUpdateSession,
+  onDuplicateSession,
+  onDeleteSession,
+}: SessionLibraryProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+  const visibleSessions = sessions
+    .filter(s => showArchived || !s.archived)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  const startRename = (session: LedgerSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onUpdateSession(renamingId, { name: renameValue.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (session: LedgerSession) => {
+    if (window.confirm(`${t.deleteSessionConfirm} "${session.name}"`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  return (
+    <section
+      aria-label={t.sessionLibrary}
+      style={{
+        backgroundColor: "rgba(128, 128, 128, 0.1)",
+        border: "1px solid rgba(128, 128, 128, 0.3)",
+        borderRadius: "12px",
+        padding: "1.5rem",
+        marginBottom: "2rem",
+      }}
+    >
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        gap: "0.5rem",
+        flexWrap: "wrap",
+        marginBottom: "1rem",
+      }}>
+        <h2 style={{
+          margin: 0,
+          fontSize: "1.2rem",
+          color: "var(--foreground)"
+        }}>
+          📚 {t.sessionLibrary}
+        </h2>
+        <button
+          onClick={onNewSession}
+          style={{
+            padding: "0.5rem 1rem",
+            fontSize: "0.9rem",
+            cursor: "pointer",
+            backgroundColor: "#2196F3",
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            fontWeight: "600",
+          }}
+        >
+          ➕ {t.newSession}
+        </button>
+      </div>
+
+      {/* Open Session Details */}
+      {activeSession && (
+        <div style={{
+          marginBottom: "1rem",
+          padding: "1rem",
+          backgroundColor: "rgba(33, 150, 243, 0.1)",
+          borderRadius: "8px",
+          border: "1px solid rgba(33, 150, 243, 0.3)"
+        }}>
+          <strong style={{ color: "var(--foreground)", display: "block", marginBottom: "0.75rem" }}>
+            📂 {t.currentSession}: {activeSession.name}
+          </strong>
+          <label
+            htmlFor="session-operator"
+            style={{ color: "var(--foreground)", fontWeight: "500", display: "block", marginBottom: "0.25rem" }}
+          >
+            {t.sessionOperator}
+          </label>
+          <input
+            id="session-operator"
+            type="text"
+            defaultValue={activeSession.operator}
+            key={`operator-${activeSession.id}`}
+            onBlur={(e) => {
+              if (e.target.value !== activeSession.operator) {
+                onUpdateSession(activeSession.id, { operator: e.target.value.trim() });
+              }
+            }}
+            placeholder={t.sessionOperatorPlaceholder}
+            style={{ ...inputStyle, marginBottom: "0.75rem" }}
+          />
+          <label
+            htmlFor="session-notes"
+            style={{ color: "var(--foreground)", fontWeight: "500", display: "block", marginBottom: "0.25rem" }}
+          >
+            {t.sessionNotes}
+          </label>
+          <textarea
+            id="session-notes"
+            defaultValue={activeSession.notes}
+            key={`notes-${activeSession.id}`}
+            onBlur={(e) => {
+              if (e.target.value !== activeSession.notes) {
+                onUpdateSession(activeSession.id, { notes: e.target.value });
+              }
+            }}
+            rows={3}
+            style={{ ...inputStyle, resize: "vertical" }}
+          />
+        </div>
+      )}
+
+      {/* Show Archived Toggle */}
+      <label style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "0.5rem",
+        fontSize: "0.85rem",
+        color: "var(--foreground)",
+        marginBottom: "0.75rem",
+        cursor: "pointer",
+      }}>
+        <input
+          type="checkbox"
+          checked={showArchived}
+          onChange={(e) => setShowArchived(e.target.checked)}
+        />
+        {t.showArchivedSessions}
+      </label>
+
+      {visibleSessions.length === 0 ? (
+        <p style={{ fontSize: "0.9rem", color: "rgba(128, 128, 128, 0.7)", fontStyle: "italic", margin: 0 }}>
+          {t.noSessions}
+        </p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0, display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+          {visibleSessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            return (
+              <li
+                key={session.id}
+                style={{
+                  padding: "0.75rem",
+                  backgroundColor: isActive ? "rgba(33, 150, 243, 0.15)" : "rgba(0, 0, 0, 0.2)",
+                  borderRadius: "6px",
+                  borderLeft: isActive ? "4px solid #2196F3" : "4px solid transparent",
+                  opacity: session.archived ? 0.6 : 1,
+                }}
+              >
+                <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem", flexWrap: "wrap" }}>
+                  <div style={{ flex: "1 1 200px", minWidth: 0 }}>
+                    {renamingId === session.id ? (
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        autoFocus
+                        aria-label={t.renameSession}
+                        style={inputStyle}
+                      />
+                    ) : (
+                      <div style={{ color: "var(--foreground)", fontWeight: "600" }}>
+                        {session.name}
+                        {isActive && (
+                          <span style={{ marginLeft: "0.5rem", fontSize: "0.75rem", color: "#2196F3" }}>
+                            ● {t.sessionOpen}
+                          </span>
+                        )}
+                        {session.archived && (
+                          <span style={{ marginLeft: "0.5rem", fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.9)" }}>
+                            🗄️ {t.sessionArchived}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    <div style={{ fontSize: "0.8rem", color: "rgba(128, 128, 128, 0.8)", marginTop: "0.25rem" }}>
+                      🕒 {formatDateTime(session.startedAt)}
+                      {session.endedAt && ` – ${formatDateTime(session.endedAt)}`}
+                      {` · ${session.entryCount} ${session.entryCount === 1 ? 'transcript' : 'transcripts'}`}
+                      {session.operator && ` · 👤 ${session.operator}`}
+                    </div>
+                    {session.notes && !isActive && (
+                      <div style={{
+                        fontSize: "0.8rem",
+                        color: "rgba(128, 128, 128, 0.8)",
+                        marginTop: "0.25rem",
+                        whiteSpace: "nowrap",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                      }}>
+                        📝 {session.notes}
+                      </div>
+                    )}
+                  </div>
+                  <div style={{ display: "flex", gap: "0.25rem", alignItems: "flex-start", flexWrap: "wrap" }}>
+                    {!isActive && (
+                      <button
+                        onClick={() => onOpenSession(session.id)}
+                        style={{ ...actionButtonStyle, backgroundColor: "#2196F3", color: "white", border: "none" }}
+                      >
+                        {t.openSession}
+                      </button>
+                    )}
+                    <button onClick={() => startRename(session)} style={actionButtonStyle}>
+                      {t.renameSession}
+                    </button>
+                    <button onClick={() => onDuplicateSession(session.id)} style={actionButtonStyle}>
+                      {t.duplicateSession}
+                    </button>
+                    <button
+                      onClick={() => onUpdateSession(session.id, { archived: !session.archived })}
+                      style={actionButtonStyle}
+                    >
+                      {session.archived ? t.unarchiveSession : t.archiveSession}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session)}
+                      aria-label={`${t.deleteSession} ${session.name}`}
+                      style={{
+                        ...actionButtonStyle,
+                        backgroundColor: "rgba(244, 67, 54, 0.2)",
+                        color: "#f44336",
+                        border: "1px solid #f44336",
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -1,6 +1,13 @@
+import { useRef } from 'react';
 import { Translations, Language } from '../translations';
-import { HighlightRule } from '../hooks/useSettings';
+import { HighlightRule, HighlightProfile, ExportTextMode, HighlightMatchType, PartialMatchMode, HighlightAlert } from '../hooks/useSettings';
+import { RuleSetImportMode } from '../utils/highlightRuleSets';
+import { TimestampFormat } from '../utils/timeFormat';
+import { formatKeyCode } from '../hooks/usePushToTalk';
+import { TRANSCRIPTION_LANGUAGES, PROVIDER_CAPABILITIES } from '../providers';
+import type { ProviderId } from '../providers';
 import HighlightSettings from './HighlightSettings';
+import VocabularySettings from './VocabularySettings';
 
 interface SettingsPanelProps {
   t: Translations;
@@ -10,23 +17,67 @@ interface SettingsPanelProps {
   onToggleEchoCancellation: () => void;
   noiseSuppression: boolean;
   onToggleNoiseSuppression: () => void;
+  recordAudio: boolean;
+  onToggleRecordAudio: () => void;
+  pushToTalk: boolean;
+  onTogglePushToTalk: () => void;
+  pushToTalkKey: string;
+  onPushToTalkKeyChange: (code: string) => void;
   selectedMicrophoneId: string;
   availableMicrophones: MediaDeviceInfo[];
   onMicrophoneChange: (deviceId: string) => void;
+  backupMicrophoneId: string;
+  onBackupMicrophoneChange: (deviceId: string) => void;
+  inputWatchdogSeconds: number;
+  onInputWatchdogSecondsChange: (seconds: number) => void;
+  transcriptionProvider: ProviderId;
+  onTranscriptionProviderChange: (provider: ProviderId) => void;
+  transcriptionLanguage: string;
+  onTranscriptionLanguageChange: (code: string) => void;
+  diarization: boolean;
+  onToggleDiarization: () => void;
+  confidenceThreshold: number;
+  onConfidenceThresholdChange: (percent: number) => void;
+  simulatorScenarioName: string;
+  hasCustomScenario: boolean;
+  onLoadScenario: (file: File) => void;
+  onResetScenario: () => void;
   apiKey: string;
   onShowApiKeyModal: () => void;
   onClearApiKey: () => void;
   transcriptsCount: number;
   onExportPDF: () => void;
   onExportCSV: () => void;
-  onClearTranscripts: () => void;
+  onExportJSON: () => void;
+  onExportSubtitles: (format: 'srt' | 'vtt') => void;
+  onExportAudio: () => void;
+  onNewSession: () => void;
+  onVerifyLedger: () => void;
+  exportTextMode: ExportTextMode;
+  onExportTextModeChange: (mode: ExportTextMode) => void;
   highlightRules: HighlightRule[];
+  highlightProfiles: HighlightProfile[];
+  activeHighlightProfileIds: string[];
   partialMatchHighlight: boolean;
-  onAddHighlight: (word: string, color: string) => void;
+  onAddHighlight: (profileId: string, word: string, color: string, matchType: HighlightMatchType, partialMatchMode: PartialMatchMode, fuzzyTolerance: number, alert?: HighlightAlert) => void;
   onRemoveHighlight: (id: string) => void;
+  onAddHighlightProfile: (name: string) => string;
+  onRenameHighlightProfile: (id: string, name: string) => void;
+  onRemoveHighlightProfile: (id: string) => void;
+  onMoveHighlightProfile: (id: string, offset: -1 | 1) => void;
+  onToggleHighlightProfile: (id: string) => void;
+  onImportHighlightRules: (file: File, mode: RuleSetImportMode) => void;
+  onExportHighlightRules: (format: 'json' | 'csv') => void;
   onTogglePartialMatch: () => void;
+  vocabularyTerms: string[];
+  onAddVocabularyTerm: (term: string) => void;
+  onRemoveVocabularyTerm: (term: string) => void;
   newestFirst: boolean;
   onToggleNewestFirst: () => void;
+  hideVoided: boolean;
+  onToggleHideVoided: () => void;
+  timestampFormat: TimestampFormat;
+  onTimestampFormatChange: (format: TimestampFormat) => void;
 }
 
 /**
@@ -41,24 +92,71 @@ export default function SettingsPanel({
   onToggleEchoCancellation,
   noiseSuppression,
   onToggleNoiseSuppression,
+  recordAudio,
+  onToggleRecordAudio,
+  pushToTalk,
+  onTogglePushToTalk,
+  pushToTalkKey,
+  onPushToTalkKeyChange,
   selectedMicrophoneId,
   availableMicrophones,
   onMicrophoneChange,
+  backupMicrophoneId,
+  onBackupMicrophoneChange,
+  inputWatchdogSeconds,
+  onInputWatchdogSecondsChange,
+  transcriptionProvider,
+  onTranscriptionProviderChange,
+  transcriptionLanguage,
+  onTranscriptionLanguageChange,
+  diarization,
+  onToggleDiarization,
+  confidenceThreshold,
+  onConfidenceThresholdChange,
+  simulatorScenarioName,
+  hasCustomScenario,
+  onLoadScenario,
+  onResetScenario,
   apiKey,
   onShowApiKeyModal,
   onClearApiKey,
   transcriptsCount,
   onExportPDF,
   onExportCSV,
-  onClearTranscripts,
+  onExportJSON,
+  onExportSubtitles,
+  onExportAudio,
+  onNewSession,
+  onVerifyLedger,
+  exportTextMode,
+  onExportTextModeChange,
   highlightRules,
+  highlightProfiles,
+  activeHighlightProfileIds,
   partialMatchHighlight,
   onAddHighlight,
   onRemoveHighlight,
+  onAddHighlightProfile,
+  onRenameHighlightProfile,
+  onRemoveHighlightProfile,
+  onMoveHighlightProfile,
+  onToggleHighlightProfile,
+  onImportHighlightRules,
+  onExportHighlightRules,
   onTogglePartialMatch,
+  vocabularyTerms,
+  onAddVocabularyTerm,
+  onRemoveVocabularyTerm,
   newestFirst,
   onToggleNewestFirst,
+  hideVoided,
+  onToggleHideVoided,
+  timestampFormat,
+  onTimestampFormatChange,
 }: SettingsPanelProps) {
+  const scenarioInputRef = useRef<HTMLInputElement>(null);
+  const diarizationSupported = PROVIDER_CAPABILITIES[transcriptionProvider].diarization;
+
   return (
     <section 
       aria-label="Application settings"
@@ -195,6 +293,97 @@ export default function SettingsPanel({
               </button>
             </div>
           </div>
+
+          {/* Timestamp Format Selector */}
+          <div style={{
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px",
+            marginTop: "0.75rem"
+          }}>
+            <div style={{ 
+              color: "var(--foreground)", 
+              fontWeight: "500",
+              marginBottom: "0.5rem"
+            }}>
+              {t.timestampFormat}
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+              {([
+                { format: 'local', label: `🕒 ${t.timestampLocal}` },
+                { format: 'utc', label: `🌐 ${t.timestampUtc}` },
+                { format: 'elapsed', label: `⏱️ ${t.timestampElapsed}` },
+              ] as { format: TimestampFormat; label: string }[]).map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => onTimestampFormatChange(format)}
+                  aria-pressed={timestampFormat === format}
+                  style={{
+                    flex: 1,
+                    padding: "0.5rem",
+                    fontSize: "0.9rem",
+                    cursor: "pointer",
+                    backgroundColor: timestampFormat === format ? "#9C27B0" : "rgba(255, 255, 255, 0.1)",
+                    color: timestampFormat === format ? "white" : "var(--foreground)",
+                    border: timestampFormat === format ? "none" : "1px solid rgba(255, 255, 255, 0.2)",
+                    borderRadius: "6px",
+                    fontWeight: timestampFormat === format ? "600" : "400",
+                    transition: "all 0.3s ease",
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Hide Voided Entries Toggle */}
+          <div style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px",
+            marginTop: "0.75rem"
+          }}>
+            <div>
+              <div style={{ color: "var(--foreground)", fontWeight: "500" }}>
+                {t.hideVoided}
+              </div>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {t.hideVoidedDesc}
+              </div>
+            </div>
+            <button
+              onClick={onToggleHideVoided}
+              role="switch"
+              aria-checked={hideVoided}
+              aria-label={t.hideVoided}
+              style={{
+                width: "50px",
+                height: "28px",
+                borderRadius: "14px",
+                border: "none",
+                cursor: "pointer",
+                backgroundColor: hideVoided ? "#4CAF50" : "rgba(128, 128, 128, 0.3)",
+                position: "relative",
+                transition: "all 0.3s ease",
+                flexShrink: 0,
+              }}
+            >
+              <div style={{
+                width: "22px",
+                height: "22px",
+                borderRadius: "50%",
+                backgroundColor: "white",
+                position: "absolute",
+                top: "3px",
+                left: hideVoided ? "25px" : "3px",
+                transition: "all 0.3s ease",
+              }} />
+            </button>
+          </div>
         </div>
         
         {/* Audio Settings */}
@@ -303,6 +492,148 @@ export default function SettingsPanel({
             </button>
           </div>
 
+          {/* Audio Recording Toggle */}
+          <div style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: "0.75rem",
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px"
+          }}>
+            <div>
+              <div style={{ color: "var(--foreground)", fontWeight: "500" }}>
+                {t.recordAudio}
+              </div>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {t.recordAudioDesc}
+              </div>
+            </div>
+            <button
+              onClick={onToggleRecordAudio}
+              role="switch"
+              aria-checked={recordAudio}
+              aria-label={t.recordAudio}
+              style={{
+                width: "50px",
+                height: "28px",
+                borderRadius: "14px",
+                border: "none",
+                cursor: "pointer",
+                backgroundColor: recordAudio ? "#4CAF50" : "rgba(128, 128, 128, 0.3)",
+                position: "relative",
+                transition: "all 0.3s ease",
+              }}
+            >
+              <div style={{
+                width: "22px",
+                height: "22px",
+                borderRadius: "50%",
+                backgroundColor: "white",
+                position: "absolute",
+                top: "3px",
+                left: recordAudio ? "25px" : "3px",
+                transition: "all 0.3s ease",
+              }} />
+            </button>
+          </div>
+
+          {/* Push-to-Talk Toggle */}
+          <div style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: "0.75rem",
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px"
+          }}>
+            <div>
+              <div style={{ color: "var(--foreground)", fontWeight: "500" }}>
+                {t.pushToTalk}
+              </div>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {t.pushToTalkDesc}
+              </div>
+            </div>
+            <button
+              onClick={onTogglePushToTalk}
+              role="switch"
+              aria-checked={pushToTalk}
+              aria-label={t.pushToTalk}
+              style={{
+                width: "50px",
+                height: "28px",
+                borderRadius: "14px",
+                border: "none",
+                cursor: "pointer",
+                backgroundColor: pushToTalk ? "#4CAF50" : "rgba(128, 128, 128, 0.3)",
+                position: "relative",
+                transition: "all 0.3s ease",
+              }}
+            >
+              <div style={{
+                width: "22px",
+                height: "22px",
+                borderRadius: "50%",
+                backgroundColor: "white",
+                position: "absolute",
+                top: "3px",
+                left: pushToTalk ? "25px" : "3px",
+                transition: "all 0.3s ease",
+              }} />
+            </button>
+          </div>
+
+          {/* Push-to-Talk Key */}
+          {pushToTalk && (
+            <div style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: "0.75rem",
+              padding: "0.5rem",
+              backgroundColor: "rgba(0, 0, 0, 0.2)",
+              borderRadius: "6px"
+            }}>
+              <div>
+                <label
+                  htmlFor="push-to-talk-key"
+                  style={{ color: "var(--foreground)", fontWeight: "500" }}
+                >
+                  {t.pushToTalkKey}
+                </label>
+                <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                  {t.pushToTalkKeyDesc}
+                </div>
+              </div>
+              <input
+                id="push-to-talk-key"
+                type="text"
+                readOnly
+                value={formatKeyCode(pushToTalkKey)}
+                onKeyDown={(e) => {
+                  // Keep Tab for keyboard navigation
+                  if (e.key === 'Tab') return;
+                  e.preventDefault();
+                  onPushToTalkKeyChange(e.code);
+                }}
+                style={{
+                  width: "7rem",
+                  padding: "0.4rem 0.5rem",
+                  fontSize: "0.9rem",
+                  textAlign: "center",
+                  backgroundColor: "rgba(0, 0, 0, 0.3)",
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  borderRadius: "6px",
+                  color: "var(--foreground)",
+                  cursor: "pointer",
+                }}
+              />
+            </div>
+          )}
+
           {/* Microphone Selector */}
           {availableMicrophones.length > 0 && (
             <div style={{
@@ -349,6 +680,325 @@ export default function SettingsPanel({
                   </option>
                 ))}
               </select>
+
+              <label 
+                htmlFor="backup-microphone-select"
+                style={{ 
+                  color: "var(--foreground)", 
+                  fontWeight: "500",
+                  margin: "0.75rem 0 0.25rem 0",
+                  display: "block"
+                }}
+              >
+                {t.backupMicrophone}
+              </label>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)", marginBottom: "0.5rem" }}>
+                {t.backupMicrophoneDesc}
+              </div>
+              <select
+                id="backup-microphone-select"
+                value={backupMicrophoneId}
+                onChange={(e) => onBackupMicrophoneChange(e.target.value)}
+                style={{
+                  width: "100%",
+                  padding: "0.5rem",
+                  fontSize: "0.9rem",
+                  backgroundColor: "rgba(0, 0, 0, 0.3)",
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  borderRadius: "6px",
+                  color: "var(--foreground)",
+                  cursor: "pointer",
+                }}
+              >
+                <option value="" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                  {t.noBackupMicrophone}
+                </option>
+                {availableMicrophones.map(mic => (
+                  <option 
+                    key={mic.deviceId} 
+                    value={mic.deviceId}
+                    style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}
+                  >
+                    {mic.label || `Mikrofoni ${mic.deviceId.substring(0, 8)}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Input Watchdog Delay */}
+          <div style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginTop: "0.75rem",
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px"
+          }}>
+            <div>
+              <label
+                htmlFor="input-watchdog-seconds"
+                style={{ color: "var(--foreground)", fontWeight: "500" }}
+              >
+                {t.inputWatchdog}
+              </label>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {t.inputWatchdogDesc}
+              </div>
+            </div>
+            <input
+              id="input-watchdog-seconds"
+              type="number"
+              min={0}
+              step={1}
+              value={inputWatchdogSeconds}
+              onChange={(e) => onInputWatchdogSecondsChange(Number(e.target.value))}
+              style={{
+                width: "5rem",
+                padding: "0.4rem 0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Transcription Provider Settings */}
+        <div style={{
+          marginTop: "1rem",
+          padding: "1rem",
+          backgroundColor: "rgba(255, 152, 0, 0.1)",
+          borderRadius: "8px",
+          border: "1px solid rgba(255, 152, 0, 0.3)"
+        }}>
+          <label
+            htmlFor="provider-select"
+            style={{ color: "var(--foreground)", fontWeight: "600", display: "block", marginBottom: "0.5rem" }}
+          >
+            🎛️ {t.transcriptionProvider}
+          </label>
+          <select
+            id="provider-select"
+            value={transcriptionProvider}
+            onChange={(e) => onTranscriptionProviderChange(e.target.value as ProviderId)}
+            style={{
+              width: "100%",
+              padding: "0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+              cursor: "pointer",
+            }}
+          >
+            <option value="elevenlabs" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+              {t.providerElevenLabs}
+            </option>
+            <option value="simulator" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+              {t.providerSimulator}
+            </option>
+          </select>
+
+          <label
+            htmlFor="transcription-language-select"
+            style={{ color: "var(--foreground)", fontWeight: "600", display: "block", margin: "0.75rem 0 0.5rem 0" }}
+          >
+            🌐 {t.transcriptionLanguage}
+          </label>
+          <select
+            id="transcription-language-select"
+            value={transcriptionLanguage}
+            onChange={(e) => onTranscriptionLanguageChange(e.target.value)}
+            aria-describedby="transcription-language-desc"
+            style={{
+              width: "100%",
+              padding: "0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+              cursor: "pointer",
+            }}
+          >
+            <option value="auto" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+              {t.autoDetectLanguage}
+            </option>
+            {TRANSCRIPTION_LANGUAGES.map(option => (
+              <option key={option.code} value={option.code} style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                {language === 'fi' ? option.nameFi : option.name}
+              </option>
+            ))}
+          </select>
+          <p
+            id="transcription-language-desc"
+            style={{
+              fontSize: "0.85rem",
+              color: "rgba(128, 128, 128, 0.7)",
+              margin: "0.5rem 0 0 0"
+            }}
+          >
+            {t.transcriptionLanguageDesc}
+          </p>
+
+          {/* Speaker Diarization Toggle, disabled where the provider cannot diarize */}
+          <div style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginTop: "0.75rem",
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px"
+          }}>
+            <div>
+              <div style={{ color: "var(--foreground)", fontWeight: "500" }}>
+                {t.diarization}
+              </div>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {t.diarizationDesc}
+              </div>
+              {!diarizationSupported && (
+                <div style={{ fontSize: "0.75rem", color: "#FF9800" }}>
+                  ⚠️ {t.diarizationUnsupported}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={onToggleDiarization}
+              disabled={!diarizationSupported}
+              role="switch"
+              aria-checked={diarization && diarizationSupported}
+              aria-label={t.diarization}
+              style={{
+                width: "50px",
+                height: "28px",
+                borderRadius: "14px",
+                border: "none",
+                cursor: diarizationSupported ? "pointer" : "not-allowed",
+                opacity: diarizationSupported ? 1 : 0.5,
+                backgroundColor: diarization && diarizationSupported ? "#4CAF50" : "rgba(128, 128, 128, 0.3)",
+                position: "relative",
+                transition: "all 0.3s ease",
+                flexShrink: 0,
+              }}
+            >
+              <div style={{
+                width: "22px",
+                height: "22px",
+                borderRadius: "50%",
+                backgroundColor: "white",
+                position: "absolute",
+                top: "3px",
+                left: diarization && diarizationSupported ? "25px" : "3px",
+                transition: "all 0.3s ease",
+              }} />
+            </button>
+          </div>
+
+          {/* Word Confidence Threshold */}
+          <div style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginTop: "0.75rem",
+            padding: "0.5rem",
+            backgroundColor: "rgba(0, 0, 0, 0.2)",
+            borderRadius: "6px"
+          }}>
+            <div>
+              <label
+                htmlFor="confidence-threshold"
+                style={{ color: "var(--foreground)", fontWeight: "500" }}
+              >
+                {t.confidenceThreshold}
+              </label>
+              <div style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.7)" }}>
+                {t.confidenceThresholdDesc}
+              </div>
+            </div>
+            <input
+              id="confidence-threshold"
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={confidenceThreshold}
+              onChange={(e) => onConfidenceThresholdChange(Number(e.target.value))}
+              style={{
+                width: "5rem",
+                padding: "0.4rem 0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+              }}
+            />
+          </div>
+
+          {transcriptionProvider === 'simulator' && (
+            <div style={{ marginTop: "0.75rem" }}>
+              <p style={{
+                fontSize: "0.85rem",
+                color: "rgba(128, 128, 128, 0.7)",
+                margin: "0 0 0.5rem 0"
+              }}>
+                {t.simulatorDesc}
+              </p>
+              <p style={{ fontSize: "0.85rem", color: "var(--foreground)", margin: "0 0 0.5rem 0" }}>
+                {t.simulatorScenario}: <strong>{simulatorScenarioName}</strong>
+              </p>
+              <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                <button
+                  onClick={() => scenarioInputRef.current?.click()}
+                  style={{
+                    padding: "0.5rem 1rem",
+                    fontSize: "0.9rem",
+                    cursor: "pointer",
+                    backgroundColor: "#FF9800",
+                    color: "white",
+                    border: "none",
+                    borderRadius: "6px",
+                  }}
+                >
+                  📂 {t.loadScenario}
+                </button>
+                <input
+                  ref={scenarioInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  aria-hidden="true"
+                  tabIndex={-1}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onLoadScenario(file);
+                    e.target.value = '';
+                  }}
+                  style={{ display: "none" }}
+                />
+                {hasCustomScenario && (
+                  <button
+                    onClick={onResetScenario}
+                    style={{
+                      padding: "0.5rem 1rem",
+                      fontSize: "0.9rem",
+                      cursor: "pointer",
+                      backgroundColor: "rgba(128, 128, 128, 0.2)",
+                      color: "var(--foreground)",
+                      border: "1px solid rgba(128, 128, 128, 0.4)",
+                      borderRadius: "6px",
+                    }}
+                  >
+                    {t.useBuiltInScenario}
+                  </button>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -440,6 +1090,48 @@ export default function SettingsPanel({
           }}>
             {transcriptsCount} {transcriptsCount === 1 ? 'transcript' : 'transcripts'}
           </p>
+
+          {/* Export Text Mode Selector */}
+          <div style={{ marginBottom: "0.75rem" }}>
+            <label
+              htmlFor="export-text-mode-select"
+              style={{
+                color: "var(--foreground)",
+                fontWeight: "500",
+                fontSize: "0.9rem",
+                marginBottom: "0.5rem",
+                display: "block"
+              }}
+            >
+              {t.exportTextMode}
+            </label>
+            <select
+              id="export-text-mode-select"
+              value={exportTextMode}
+              onChange={(e) => onExportTextModeChange(e.target.value as ExportTextMode)}
+              style={{
+                width: "100%",
+                padding: "0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+                cursor: "pointer",
+              }}
+            >
+              <option value="corrected" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                {t.exportTextCorrected}
+              </option>
+              <option value="original" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                {t.exportTextOriginal}
+              </option>
+              <option value="both" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                {t.exportTextBoth}
+              </option>
+            </select>
+          </div>
+
           <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
             <button
               onClick={onExportPDF}
@@ -480,34 +1172,86 @@ export default function SettingsPanel({
               📊 {t.exportCSV}
             </button>
           </div>
+
+          {/* Data and Subtitle Export Buttons */}
+          <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", marginTop: "0.5rem" }}>
+            {([
+              { label: `🗂️ ${t.exportJSON}`, onClick: onExportJSON },
+              { label: `🎬 ${t.exportSRT}`, onClick: () => onExportSubtitles('srt') },
+              { label: `🎬 ${t.exportVTT}`, onClick: () => onExportSubtitles('vtt') },
+              { label: `🔊 ${t.exportAudio}`, onClick: onExportAudio },
+            ]).map(({ label, onClick }) => (
+              <button
+                key={label}
+                onClick={onClick}
+                disabled={transcriptsCount === 0}
+                style={{
+                  flex: 1,
+                  minWidth: "100px",
+                  padding: "0.4rem 0.75rem",
+                  fontSize: "0.85rem",
+                  cursor: transcriptsCount === 0 ? "not-allowed" : "pointer",
+                  backgroundColor: "rgba(76, 175, 80, 0.15)",
+                  color: "var(--foreground)",
+                  border: "1px solid rgba(76, 175, 80, 0.4)",
+                  borderRadius: "6px",
+                  fontWeight: "500",
+                  opacity: transcriptsCount === 0 ? 0.5 : 1,
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Verify Integrity Button */}
+          <button
+            onClick={onVerifyLedger}
+            disabled={transcriptsCount === 0}
+            style={{
+              marginTop: "0.75rem",
+              width: "100%",
+              padding: "0.5rem 1rem",
+              fontSize: "0.85rem",
+              cursor: transcriptsCount === 0 ? "not-allowed" : "pointer",
+              backgroundColor: "rgba(255, 255, 255, 0.1)",
+              color: "var(--foreground)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              fontWeight: "500",
+              opacity: transcriptsCount === 0 ? 0.5 : 1,
+            }}
+          >
+            🔐 {t.verifyLedger}
+          </button>
           
-          {/* Clear All Button */}
+          {/* New Session Button */}
           {transcriptsCount > 0 && (
             <button
-              onClick={onClearTranscripts}
+              onClick={onNewSession}
               style={{
                 marginTop: "0.75rem",
                 width: "100%",
                 padding: "0.5rem 1rem",
                 fontSize: "0.85rem",
                 cursor: "pointer",
-                backgroundColor: "rgba(244, 67, 54, 0.1)",
-                color: "#f44336",
-                border: "1px solid rgba(244, 67, 54, 0.3)",
+                backgroundColor: "rgba(33, 150, 243, 0.1)",
+                color: "#2196F3",
+                border: "1px solid rgba(33, 150, 243, 0.3)",
                 borderRadius: "6px",
                 fontWeight: "500",
                 transition: "all 0.2s",
               }}
               onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = "rgba(244, 67, 54, 0.2)";
-                e.currentTarget.style.borderColor = "rgba(244, 67, 54, 0.5)";
+                e.currentTarget.style.backgroundColor = "rgba(33, 150, 243, 0.2)";
+                e.currentTarget.style.borderColor = "rgba(33, 150, 243, 0.5)";
               }}
               onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = "rgba(244, 67, 54, 0.1)";
-                e.currentTarget.style.borderColor = "rgba(244, 67, 54, 0.3)";
+                e.currentTarget.style.backgroundColor = "rgba(33, 150, 243, 0.1)";
+                e.currentTarget.style.borderColor = "rgba(33, 150, 243, 0.3)";
               }}
             >
-              🗑️ {t.clearTranscripts}
+              ➕ {t.newSession}
             </button>
           )}
         </div>
@@ -516,12 +1260,30 @@ export default function SettingsPanel({
         <HighlightSettings
           t={t}
           language={language}
-          highlightRules={highlightRules}
+          highlightProfiles={highlightProfiles}
+          activeHighlightProfileIds={activeHighlightProfileIds}
           partialMatchHighlight={partialMatchHighlight}
           onAddHighlight={onAddHighlight}
           onRemoveHighlight={onRemoveHighlight}
+          onAddProfile={onAddHighlightProfile}
+          onRenameProfile={onRenameHighlightProfile}
+          onRemoveProfile={onRemoveHighlightProfile}
+          onMoveProfile={onMoveHighlightProfile}
+          onToggleProfile={onToggleHighlightProfile}
+          onImportRules={onImportHighlightRules}
+          onExportRules={onExportHighlightRules}
           onTogglePartialMatch={onTogglePartialMatch}
         />
+
+        {/* Recognition Vocabulary */}
+        <VocabularySettings
+          t={t}
+          highlightRules={highlightRules}
+          vocabularyTerms={vocabularyTerms}
+          keytermsSupported={PROVIDER_CAPABILITIES[transcriptionProvider].keyterms}
+          onAddTerm={onAddVocabularyTerm}
+          onRemoveTerm={onRemoveVocabularyTerm}
+        />
       </div>
     </section>
   );
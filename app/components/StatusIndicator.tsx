@@ -1,42 +1,95 @@
 import { Translations } from '../translations';
+import { InputWarning } from '../hooks/useInputLevel';
 
 interface StatusIndicatorProps {
   t: Translations;
+  level: number;
+  warning: InputWarning | null;
+  /** Number of the reconnect attempt in progress, null while connected */
+  reconnectAttempt: number | null;
 }
 
 /**
  * Visual indicator that recording is active
- * Shows pulsing animation for better visibility
+ * Shows pulsing animation for better visibility, a live input level meter
+ * and a persistent warning while the microphone is silent or clipping
+ * After a dropped connection it shows the reconnect attempt instead
  */
-export default function StatusIndicator({ t }: StatusIndicatorProps) {
+export default function StatusIndicator({ t, level, warning, reconnectAttempt }: StatusIndicatorProps) {
+  const isReconnecting = reconnectAttempt !== null;
+  const color = warning || isReconnecting ? "#FF9800" : "#4CAF50";
+  const meterColor = level > 0.95 ? "#f44336" : level > 0.8 ? "#FF9800" : "#4CAF50";
+
   return (
-    <div 
-      role="status"
-      aria-live="polite"
-      style={{ 
-        padding: "1.5rem", 
-        backgroundColor: "rgba(76, 175, 80, 0.15)", 
+    <div
+      style={{
+        padding: "1.5rem",
+        backgroundColor: warning || isReconnecting ? "rgba(255, 152, 0, 0.15)" : "rgba(76, 175, 80, 0.15)",
         borderRadius: "12px",
         marginBottom: "2rem",
-        border: "2px solid #4CAF50",
-        display: "flex",
-        alignItems: "center",
-        gap: "1rem",
+        border: `2px solid ${color}`,
       }}
     >
-      <div 
-        aria-hidden="true"
+      <div
+        role="status"
+        aria-live="polite"
         style={{
-          width: "12px",
-          height: "12px",
-          backgroundColor: "#4CAF50",
-          borderRadius: "50%",
-          animation: "pulse 2s infinite",
+          display: "flex",
+          alignItems: "center",
+          gap: "1rem",
         }}
-      />
-      <strong style={{ color: "#4CAF50", fontSize: "1.1rem" }}>
-        {t.recording}
-      </strong>
+      >
+        <div
+          aria-hidden="true"
+          style={{
+            width: "12px",
+            height: "12px",
+            backgroundColor: color,
+            borderRadius: "50%",
+            animation: "pulse 2s infinite",
+          }}
+        />
+        <strong style={{ color, fontSize: "1.1rem" }}>
+          {isReconnecting ? `${t.reconnecting} (${t.reconnectAttempt} ${reconnectAttempt})` : t.recording}
+        </strong>
+        {!isReconnecting && (
+          <div
+            role="meter"
+            aria-label={t.inputLevel}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(level * 100)}
+            style={{
+              flex: 1,
+              maxWidth: "240px",
+              height: "8px",
+              marginLeft: "auto",
+              backgroundColor: "rgba(128, 128, 128, 0.3)",
+              borderRadius: "4px",
+              overflow: "hidden",
+            }}
+          >
+            <div style={{
+              width: `${level * 100}%`,
+              height: "100%",
+              backgroundColor: meterColor,
+              transition: "width 0.1s linear",
+            }} />
+          </div>
+        )}
+      </div>
+      {warning && !isReconnecting && (
+        <div
+          role="alert"
+          style={{
+            marginTop: "1rem",
+            color: "#FF9800",
+            fontWeight: "600",
+          }}
+        >
+          ⚠️ {warning === 'silent' ? t.inputSilentWarning : t.inputClippingWarning}
+        </div>
+      )}
     </div>
   );
 }
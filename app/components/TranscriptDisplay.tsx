@@ -1,32 +1,93 @@
+import { useState } from 'react';
 import { Translations } from '../translations';
 import { HighlightRule } from '../hooks/useSettings';
+import { TranscriptEntry, toTimeline, getSpeakerName, needsReview } from '../hooks/useLedger';
 import { applyHighlights } from '../utils/highlightUtils';
-
-interface Transcript {
-  id: string;
-  text: string;
-  timestamp: string;
-}
+import TranscriptEntryItem from './TranscriptEntryItem';
 
 interface TranscriptDisplayProps {
   t: Translations;
-  transcripts: Transcript[];
+  transcripts: TranscriptEntry[];
+  sessionName?: string;
   partialTranscript?: string;
   highlightRules: HighlightRule[];
   partialMatchHighlight: boolean;
+  /** Word confidence (0–1) below which entries need review, 0 = off */
+  confidenceThreshold: number;
   newestFirst: boolean;
+  hideVoided: boolean;
+  formatTime: (timestamp: string) => string;
+  playingEntryId: string | null;
+  onPlayEntry: (entry: TranscriptEntry) => void;
+  onEditEntry: (id: string, text: string) => void;
+  onVoidEntries: (ids: string[], reason: string) => void;
+  /** Names given to diarized speakers in the session */
+  speakerNames?: { [speakerId: string]: string };
+  onRenameSpeaker: (speakerId: string, name: string) => void;
 }
 
 /**
  * Displays real-time partial transcripts and confirmed transcripts
  * Partial transcripts shown in orange (temporary)
- * Confirmed transcripts shown in blue (permanent)
+ * Confirmed transcripts shown in blue (permanent, correctable with revision history)
+ * Entries can be voided one by one or in bulk by selecting them
+ * When entries were spoken in more than one language, they can be filtered by language
+ * Diarized speakers can be renamed (e.g. to callsigns) and filtered by
+ * Entries with low-confidence words can be narrowed down to those needing review
  */
-export default function TranscriptDisplay({ t, transcripts, partialTranscript, highlightRules, partialMatchHighlight, newestFirst }: TranscriptDisplayProps) {
+export default function TranscriptDisplay({ t, transcripts, sessionName, partialTranscript, highlightRules, partialMatchHighlight, confidenceThreshold, newestFirst, hideVoided, formatTime, playingEntryId, onPlayEntry, onEditEntry, onVoidEntries, speakerNames, onRenameSpeaker }: TranscriptDisplayProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkVoidReason, setBulkVoidReason] = useState('');
+  const [languageFilter, setLanguageFilter] = useState('');
+  const [speakerFilter, setSpeakerFilter] = useState('');
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [reviewOnly, setReviewOnly] = useState(false);
+
+  // Languages the entries were spoken in, for the language filter
+  const entryLanguages = transcripts.reduce<string[]>((codes, transcript) => (
+    transcript.languageCode && codes.indexOf(transcript.languageCode) === -1 ? [...codes, transcript.languageCode] : codes
+  ), []);
+  const activeLanguageFilter = entryLanguages.indexOf(languageFilter) !== -1 ? languageFilter : '';
+
+  // Diarized speakers of the entries, for renaming and the speaker filter
+  const entrySpeakers = transcripts.reduce<string[]>((ids, transcript) => (
+    transcript.speakerId && ids.indexOf(transcript.speakerId) === -1 ? [...ids, transcript.speakerId] : ids
+  ), []);
+  const activeSpeakerFilter = entrySpeakers.indexOf(speakerFilter) !== -1 ? speakerFilter : '';
+  const speakerName = (speakerId: string) => getSpeakerName(speakerId, speakerNames, t.speaker);
+
+  // Entries with words the provider was unsure of, not yet corrected
+  const reviewCount = transcripts.filter(transcript => needsReview(transcript, confidenceThreshold)).length;
+  const activeReviewOnly = reviewOnly && reviewCount > 0;
+
+  // Optionally leave voided entries, other languages and other speakers out of the live view
+  const visibleTranscripts = transcripts.filter(transcript =>
+    (!hideVoided || !transcript.voided) &&
+    (!activeLanguageFilter || transcript.languageCode === activeLanguageFilter) &&
+    (!activeSpeakerFilter || transcript.speakerId === activeSpeakerFilter) &&
+    (!activeReviewOnly || needsReview(transcript, confidenceThreshold))
+  );
+
   // Order transcripts based on user preference
-  // transcripts array is in oldest-first order (new items appended to end)
+  // The timeline is in oldest-first order (back-dated entries moved into place)
   // So we reverse for newest-first, keep as-is for oldest-first
-  const orderedTranscripts = newestFirst ? [...transcripts].reverse() : transcripts;
+  const timeline = toTimeline(visibleTranscripts);
+  const orderedTranscripts = newestFirst ? timeline.reverse() : timeline;
+
+  // Ignore selected entries that have since been voided or left the view
+  const selectableIds = visibleTranscripts.filter(transcript => !transcript.voided).map(transcript => transcript.id);
+  const selection = selectedIds.filter(id => selectableIds.indexOf(id) !== -1);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selection.indexOf(id) !== -1 ? selection.filter(s => s !== id) : [...selection, id]);
+  };
+
+  const handleBulkVoid = () => {
+    if (!bulkVoidReason.trim() || selection.length === 0) return;
+    onVoidEntries(selection, bulkVoidReason);
+    setSelectedIds([]);
+    setBulkVoidReason('');
+  };
   
   return (
     <>
@@ -60,7 +121,7 @@ export default function TranscriptDisplay({ t, transcripts, partialTranscript, h
             fontSize: "1.3rem",
             lineHeight: "1.6",
           }}>
-            {applyHighlights(partialTranscript, highlightRules, partialMatchHighlight, t.partialMatchTooltip)}
+            {applyHighlights(partialTranscript, highlightRules, partialMatchHighlight, { substring: t.partialMatchTooltip, stem: t.stemMatchTooltip, fuzzy: t.fuzzyMatchTooltip })}
           </div>
         </section>
       )}
@@ -86,7 +147,218 @@ export default function TranscriptDisplay({ t, transcripts, partialTranscript, h
           opacity: 0.7
         }}>
           📝 {t.confirmedTranscripts}
+          {sessionName && ` · ${sessionName}`}
         </h2>
+
+        {/* Needs Review Filter */}
+        {reviewCount > 0 && (
+          <button
+            onClick={() => setReviewOnly(!activeReviewOnly)}
+            aria-pressed={activeReviewOnly}
+            style={{
+              marginBottom: "1rem",
+              padding: "0.3rem 0.75rem",
+              fontSize: "0.85rem",
+              cursor: "pointer",
+              backgroundColor: activeReviewOnly ? "#FF9800" : "rgba(255, 152, 0, 0.1)",
+              color: activeReviewOnly ? "white" : "#FF9800",
+              border: "1px solid rgba(255, 152, 0, 0.4)",
+              borderRadius: "6px",
+              fontWeight: "600",
+            }}
+          >
+            ⚠️ {t.needsReview}: {reviewCount}
+          </button>
+        )}
+
+        {/* Speakers: filter and rename */}
+        {entrySpeakers.length > 0 && (
+          <div style={{ marginBottom: "1rem" }}>
+            <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+              <label
+                htmlFor="speaker-filter"
+                style={{ color: "var(--foreground)", fontSize: "0.9rem", fontWeight: "600" }}
+              >
+                🗣️ {t.filterBySpeaker}
+              </label>
+              <select
+                id="speaker-filter"
+                value={activeSpeakerFilter}
+                onChange={(e) => setSpeakerFilter(e.target.value)}
+                style={{
+                  padding: "0.3rem 0.5rem",
+                  fontSize: "0.9rem",
+                  backgroundColor: "rgba(0, 0, 0, 0.3)",
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  borderRadius: "6px",
+                  color: "var(--foreground)",
+                  cursor: "pointer",
+                }}
+              >
+                <option value="" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                  {t.allSpeakers}
+                </option>
+                {entrySpeakers.map(speakerId => (
+                  <option key={speakerId} value={speakerId} style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                    {speakerName(speakerId)}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowSpeakers(!showSpeakers)}
+                aria-expanded={showSpeakers}
+                style={{
+                  padding: "0.3rem 0.75rem",
+                  fontSize: "0.85rem",
+                  cursor: "pointer",
+                  backgroundColor: "rgba(255, 255, 255, 0.1)",
+                  color: "var(--foreground)",
+                  border: "1px solid rgba(255, 255, 255, 0.2)",
+                  borderRadius: "6px",
+                }}
+              >
+                ✏️ {t.renameSpeakers}
+              </button>
+            </div>
+            {showSpeakers && (
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem", marginTop: "0.75rem" }}>
+                {entrySpeakers.map(speakerId => (
+                  <label
+                    key={speakerId}
+                    style={{ display: "flex", gap: "0.5rem", alignItems: "center", color: "var(--foreground)", fontSize: "0.9rem" }}
+                  >
+                    <span style={{ minWidth: "100px" }}>{getSpeakerName(speakerId, undefined, t.speaker)}</span>
+                    <input
+                      key={speakerNames?.[speakerId] ?? ''}
+                      type="text"
+                      defaultValue={speakerNames?.[speakerId] ?? ''}
+                      placeholder={t.speakerNamePlaceholder}
+                      onBlur={(e) => onRenameSpeaker(speakerId, e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      style={{
+                        flex: 1,
+                        maxWidth: "240px",
+                        padding: "0.3rem 0.5rem",
+                        fontSize: "0.9rem",
+                        backgroundColor: "rgba(0, 0, 0, 0.3)",
+                        border: "1px solid rgba(255, 255, 255, 0.2)",
+                        borderRadius: "6px",
+                        color: "var(--foreground)",
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Language Filter */}
+        {entryLanguages.length > 1 && (
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", marginBottom: "1rem" }}>
+            <label
+              htmlFor="language-filter"
+              style={{ color: "var(--foreground)", fontSize: "0.9rem", fontWeight: "600" }}
+            >
+              🌐 {t.filterByLanguage}
+            </label>
+            <select
+              id="language-filter"
+              value={activeLanguageFilter}
+              onChange={(e) => setLanguageFilter(e.target.value)}
+              style={{
+                padding: "0.3rem 0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+                cursor: "pointer",
+              }}
+            >
+              <option value="" style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                {t.allLanguages}
+              </option>
+              {entryLanguages.map(code => (
+                <option key={code} value={code} style={{ backgroundColor: "#1a1a1a", color: "var(--foreground)" }}>
+                  {code.toUpperCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Bulk Void Bar */}
+        {selection.length > 0 && (
+          <div
+            role="region"
+            aria-label={t.voidSelected}
+            style={{
+              display: "flex",
+              gap: "0.5rem",
+              flexWrap: "wrap",
+              alignItems: "center",
+              padding: "0.75rem",
+              marginBottom: "1rem",
+              backgroundColor: "rgba(244, 67, 54, 0.1)",
+              border: "1px solid rgba(244, 67, 54, 0.3)",
+              borderRadius: "8px",
+            }}
+          >
+            <span style={{ color: "var(--foreground)", fontSize: "0.9rem", fontWeight: "600" }}>
+              {selection.length} {t.entriesSelected}
+            </span>
+            <input
+              type="text"
+              value={bulkVoidReason}
+              onChange={(e) => setBulkVoidReason(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBulkVoid()}
+              placeholder={t.voidReasonPlaceholder}
+              aria-label={t.voidReason}
+              style={{
+                flex: 1,
+                minWidth: "200px",
+                padding: "0.4rem 0.5rem",
+                fontSize: "0.9rem",
+                backgroundColor: "rgba(0, 0, 0, 0.3)",
+                border: "1px solid rgba(244, 67, 54, 0.4)",
+                borderRadius: "6px",
+                color: "var(--foreground)",
+              }}
+            />
+            <button
+              onClick={() => setSelectedIds([])}
+              style={{
+                padding: "0.4rem 0.75rem",
+                fontSize: "0.85rem",
+                cursor: "pointer",
+                backgroundColor: "rgba(255, 255, 255, 0.1)",
+                color: "var(--foreground)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "6px",
+              }}
+            >
+              {t.cancel}
+            </button>
+            <button
+              onClick={handleBulkVoid}
+              disabled={!bulkVoidReason.trim()}
+              style={{
+                padding: "0.4rem 0.75rem",
+                fontSize: "0.85rem",
+                cursor: bulkVoidReason.trim() ? "pointer" : "not-allowed",
+                backgroundColor: "#f44336",
+                color: "white",
+                border: "none",
+                borderRadius: "6px",
+                fontWeight: "600",
+                opacity: bulkVoidReason.trim() ? 1 : 0.5,
+              }}
+            >
+              🚫 {t.voidSelected}
+            </button>
+          </div>
+        )}
         
         <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
           {transcripts.length === 0 ? (
@@ -103,44 +375,22 @@ export default function TranscriptDisplay({ t, transcripts, partialTranscript, h
           ) : (
             <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
               {orderedTranscripts.map((transcript) => (
-                <li 
-                  key={transcript.id} 
-                  style={{ 
-                    padding: "1.25rem",
-                    backgroundColor: "rgba(33, 150, 243, 0.08)",
-                    borderRadius: "10px",
-                    borderLeft: "4px solid #2196F3",
-                    color: "var(--foreground)",
-                    transition: "all 0.3s ease",
-                    marginBottom: "1rem",
-                  }}
-                >
-                  <div style={{
-                    display: "flex",
-                    justifyContent: "space-between",
-                    alignItems: "flex-start",
-                    gap: "1rem",
-                    marginBottom: "0.5rem"
-                  }}>
-                    <time 
-                      dateTime={transcript.timestamp}
-                      style={{
-                        fontSize: "0.85rem",
-                        color: "#2196F3",
-                        fontWeight: "600",
-                        opacity: 0.8
-                      }}
-                    >
-                      🕒 {transcript.timestamp}
-                    </time>
-                  </div>
-                  <div style={{
-                    fontSize: "1.2rem",
-                    lineHeight: "1.7",
-                  }}>
-                    {applyHighlights(transcript.text, highlightRules, partialMatchHighlight, t.partialMatchTooltip)}
-                  </div>
-                </li>
+                <TranscriptEntryItem
+                  key={transcript.id}
+                  t={t}
+                  entry={transcript}
+                  speakerName={transcript.speakerId ? speakerName(transcript.speakerId) : undefined}
+                  highlightRules={highlightRules}
+                  partialMatchHighlight={partialMatchHighlight}
+                  confidenceThreshold={confidenceThreshold}
+                  formatTime={formatTime}
+                  selected={selection.indexOf(transcript.id) !== -1}
+                  isPlaying={playingEntryId === transcript.id}
+                  onPlayEntry={onPlayEntry}
+                  onToggleSelected={toggleSelected}
+                  onEditEntry={onEditEntry}
+                  onVoidEntry={(id, reason) => onVoidEntries([id], reason)}
+                />
               ))}
             </ul>
           )}
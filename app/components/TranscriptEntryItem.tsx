@@ -0,0 +1,434 @@
+import { useState } from 'react';
+import { Translations } from '../translations';
+import { HighlightRule } from '../hooks/useSettings';
+import { TranscriptEntry, getEntryText, needsReview } from '../hooks/useLedger';
+import { offsetToDate } from '../utils/wordTimings';
+import { applyHighlights } from '../utils/highlightUtils';
+
+interface TranscriptEntryItemProps {
+  t: Translations;
+  entry: TranscriptEntry;
+  /** Display name of the entry's diarized speaker */
+  speakerName?: string;
+  highlightRules: HighlightRule[];
+  partialMatchHighlight: boolean;
+  /** Word confidence (0–1) below which words are underlined, 0 = off */
+  confidenceThreshold: number;
+  formatTime: (timestamp: string) => string;
+  selected: boolean;
+  isPlaying: boolean;
+  onToggleSelected: (id: string) => void;
+  onPlayEntry: (entry: TranscriptEntry) => void;
+  onEditEntry: (id: string, text: string) => void;
+  onVoidEntry: (id: string, reason: string) => void;
+}
+
+const smallButtonStyle = {
+  padding: "0.2rem 0.5rem",
+  fontSize: "0.75rem",
+  cursor: "pointer",
+  backgroundColor: "rgba(255, 255, 255, 0.1)",
+  color: "var(--foreground)",
+  border: "1px solid rgba(255, 255, 255, 0.2)",
+  borderRadius: "4px",
+};
+
+/**
+ * Render the original text with each word's spoken time as a tooltip
+ * Text words are paired with the timed words in order; words recognized
+ * with low confidence are underlined
+ */
+function renderTimedText(
+  entry: TranscriptEntry,
+  t: Translations,
+  highlightRules: HighlightRule[],
+  partialMatchHighlight: boolean,
+  confidenceThreshold: number,
+  formatTime: (timestamp: string) => string
+): React.ReactNode[] {
+  const recordingStartedAt = entry.recordingStartedAt;
+  return applyHighlights(entry.text, highlightRules, partialMatchHighlight, { substring: t.partialMatchTooltip, stem: t.stemMatchTooltip, fuzzy: t.fuzzyMatchTooltip }, {
+    words: entry.words ?? [],
+    confidenceThreshold,
+    confidenceTooltip: t.wordConfidence,
+    describeWord: recordingStartedAt
+      ? word => `${formatTime(offsetToDate(recordingStartedAt, word.start).toISOString())} · ${word.start.toFixed(2)}–${word.end.toFixed(2)} s ${t.wordTimeOffset}`
+      : undefined,
+  });
+}
+
+/**
+ * Single confirmed transcript in the ledger list
+ * Supports inline correction of the text and shows the revision history
+ * (original machine text plus every edit with who/when/before/after)
+ * Voided entries stay visible struck through, with the reason for voiding
+ * Manual entries carry a source marker (and the real logging time if back-dated),
+ * as do notes written by the application
+ * Diarized entries show their speaker, by the name given in the session
+ * Uncorrected entries with low-confidence words are marked as needing review
+ * Hovering a word of an uncorrected transcribed entry shows when it was spoken
+ * Entries linked to recorded audio can play back their utterance
+ */
+export default function TranscriptEntryItem({
+  t,
+  entry,
+  speakerName,
+  highlightRules,
+  partialMatchHighlight,
+  confidenceThreshold,
+  formatTime,
+  selected,
+  isPlaying,
+  onToggleSelected,
+  onPlayEntry,
+  onEditEntry,
+  onVoidEntry,
+}: TranscriptEntryItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+
+  const currentText = getEntryText(entry);
+  const revisions = entry.revisions ?? [];
+  const voided = entry.voided;
+
+  const startEditing = () => {
+    setDraft(currentText);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    onEditEntry(entry.id, draft);
+    setIsEditing(false);
+  };
+
+  const confirmVoid = () => {
+    if (!voidReason.trim()) return;
+    onVoidEntry(entry.id, voidReason);
+    setIsVoiding(false);
+    setVoidReason('');
+  };
+
+  return (
+    <li
+      style={{
+        padding: "1.25rem",
+        backgroundColor: voided ? "rgba(244, 67, 54, 0.06)" : "rgba(33, 150, 243, 0.08)",
+        borderRadius: "10px",
+        borderLeft: `4px solid ${voided ? "#f44336" : "#2196F3"}`,
+        color: "var(--foreground)",
+        transition: "all 0.3s ease",
+        marginBottom: "1rem",
+      }}
+    >
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "flex-start",
+        gap: "1rem",
+        marginBottom: "0.5rem"
+      }}>
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          {!voided && (
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={() => onToggleSelected(entry.id)}
+              aria-label={`${t.selectEntry}: ${currentText}`}
+              style={{ cursor: "pointer" }}
+            />
+          )}
+          <time
+            dateTime={entry.timestamp}
+            style={{
+              fontSize: "0.85rem",
+              color: voided ? "#f44336" : "#2196F3",
+              fontWeight: "600",
+              opacity: 0.8
+            }}
+          >
+            🕒 {formatTime(entry.timestamp)}
+          </time>
+          {entry.source === 'manual' && (
+            <span
+              title={entry.loggedAt ? `${t.loggedAt} ${formatTime(entry.loggedAt)}` : undefined}
+              style={{
+                fontSize: "0.75rem",
+                fontWeight: "600",
+                color: "#009688",
+                padding: "0.1rem 0.4rem",
+                border: "1px solid rgba(0, 150, 136, 0.4)",
+                borderRadius: "4px",
+              }}
+            >
+              ✍️ {t.manualSource}
+              {entry.loggedAt && ` · ${t.loggedAt} ${formatTime(entry.loggedAt)}`}
+            </span>
+          )}
+          {entry.source === 'system' && (
+            <span
+              style={{
+                fontSize: "0.75rem",
+                fontWeight: "600",
+                color: "#9E9E9E",
+                padding: "0.1rem 0.4rem",
+                border: "1px solid rgba(158, 158, 158, 0.4)",
+                borderRadius: "4px",
+              }}
+            >
+              ⚙️ {t.systemSource}
+            </span>
+          )}
+          {speakerName && (
+            <span
+              title={t.speaker}
+              style={{
+                fontSize: "0.75rem",
+                fontWeight: "600",
+                color: "#3F51B5",
+                padding: "0.1rem 0.4rem",
+                border: "1px solid rgba(63, 81, 181, 0.4)",
+                borderRadius: "4px",
+              }}
+            >
+              🗣️ {speakerName}
+            </span>
+          )}
+          {needsReview(entry, confidenceThreshold) && (
+            <span
+              style={{
+                fontSize: "0.75rem",
+                fontWeight: "600",
+                color: "#FF9800",
+                padding: "0.1rem 0.4rem",
+                border: "1px solid rgba(255, 152, 0, 0.4)",
+                borderRadius: "4px",
+              }}
+            >
+              ⚠️ {t.needsReview}
+            </span>
+          )}
+          {entry.languageCode && (
+            <span
+              title={t.entryLanguage}
+              aria-label={`${t.entryLanguage}: ${entry.languageCode}`}
+              style={{
+                fontSize: "0.75rem",
+                fontWeight: "600",
+                color: "#607D8B",
+                padding: "0.1rem 0.4rem",
+                border: "1px solid rgba(96, 125, 139, 0.4)",
+                borderRadius: "4px",
+                textTransform: "uppercase",
+              }}
+            >
+              🌐 {entry.languageCode}
+            </span>
+          )}
+        </div>
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          {entry.audio && entry.audioNotCopied && (
+            <span title={t.audioNotCopiedDesc} style={{ fontSize: "0.75rem", color: "rgba(128, 128, 128, 0.9)" }}>
+              🔇 {t.audioNotCopied}
+            </span>
+          )}
+          {entry.audio && !entry.audioNotCopied && (
+            <button
+              onClick={() => onPlayEntry(entry)}
+              aria-label={`${isPlaying ? t.stopAudio : t.playAudio}: ${currentText}`}
+              aria-pressed={isPlaying}
+              style={{
+                ...smallButtonStyle,
+                ...(isPlaying && { backgroundColor: "#2196F3", color: "white", border: "none" }),
+              }}
+            >
+              {isPlaying ? '⏹' : '▶️'} {isPlaying ? t.stopAudio : t.playAudio}
+            </button>
+          )}
+          {revisions.length > 0 && (
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              aria-expanded={showHistory}
+              title={t.revisionHistory}
+              style={{
+                ...smallButtonStyle,
+                backgroundColor: "rgba(255, 152, 0, 0.15)",
+                color: "#FF9800",
+                border: "1px solid rgba(255, 152, 0, 0.4)",
+              }}
+            >
+              ✏️ {t.entryEdited} ({revisions.length})
+            </button>
+          )}
+          {voided && (
+            <span style={{
+              fontSize: "0.75rem",
+              fontWeight: "700",
+              color: "#f44336",
+              textTransform: "uppercase",
+              letterSpacing: "0.5px",
+            }}>
+              🚫 {t.entryVoided}
+            </span>
+          )}
+          {!voided && !isEditing && !isVoiding && (
+            <>
+              <button
+                onClick={startEditing}
+                aria-label={`${t.editEntry}: ${currentText}`}
+                style={smallButtonStyle}
+              >
+                {t.editEntry}
+              </button>
+              <button
+                onClick={() => setIsVoiding(true)}
+                aria-label={`${t.voidEntry}: ${currentText}`}
+                style={{ ...smallButtonStyle, color: "#f44336", border: "1px solid rgba(244, 67, 54, 0.4)" }}
+              >
+                {t.voidEntry}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                saveEdit();
+              }
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            autoFocus
+            rows={2}
+            aria-label={t.editEntry}
+            style={{
+              width: "100%",
+              padding: "0.5rem",
+              fontSize: "1.1rem",
+              lineHeight: "1.6",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(255, 255, 255, 0.2)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+              fontFamily: "inherit",
+              resize: "vertical",
+            }}
+          />
+          <div style={{ display: "flex", gap: "0.5rem", justifyContent: "flex-end", marginTop: "0.5rem" }}>
+            <button onClick={() => setIsEditing(false)} style={smallButtonStyle}>
+              {t.cancel}
+            </button>
+            <button
+              onClick={saveEdit}
+              disabled={!draft.trim() || draft.trim() === currentText}
+              style={{ ...smallButtonStyle, backgroundColor: "#2196F3", color: "white", border: "none" }}
+            >
+              {t.save}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div style={{
+          fontSize: "1.2rem",
+          lineHeight: "1.7",
+          ...(voided && { textDecoration: "line-through", opacity: 0.6 }),
+        }}>
+          {entry.words && revisions.length === 0
+            ? renderTimedText(entry, t, highlightRules, partialMatchHighlight, confidenceThreshold, formatTime)
+            : applyHighlights(currentText, highlightRules, partialMatchHighlight, { substring: t.partialMatchTooltip, stem: t.stemMatchTooltip, fuzzy: t.fuzzyMatchTooltip })}
+        </div>
+      )}
+
+      {/* Void Reason Form */}
+      {isVoiding && (
+        <div style={{ display: "flex", gap: "0.5rem", marginTop: "0.75rem", flexWrap: "wrap" }}>
+          <input
+            type="text"
+            value={voidReason}
+            onChange={(e) => setVoidReason(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') confirmVoid();
+              if (e.key === 'Escape') setIsVoiding(false);
+            }}
+            autoFocus
+            placeholder={t.voidReasonPlaceholder}
+            aria-label={t.voidReason}
+            style={{
+              flex: 1,
+              minWidth: "200px",
+              padding: "0.4rem 0.5rem",
+              fontSize: "0.9rem",
+              backgroundColor: "rgba(0, 0, 0, 0.3)",
+              border: "1px solid rgba(244, 67, 54, 0.4)",
+              borderRadius: "6px",
+              color: "var(--foreground)",
+            }}
+          />
+          <button onClick={() => setIsVoiding(false)} style={smallButtonStyle}>
+            {t.cancel}
+          </button>
+          <button
+            onClick={confirmVoid}
+            disabled={!voidReason.trim()}
+            style={{
+              ...smallButtonStyle,
+              backgroundColor: "#f44336",
+              color: "white",
+              border: "none",
+              opacity: voidReason.trim() ? 1 : 0.5,
+            }}
+          >
+            {t.voidEntry}
+          </button>
+        </div>
+      )}
+
+      {/* Void Record */}
+      {voided && (
+        <div style={{ marginTop: "0.5rem", fontSize: "0.85rem", color: "#f44336" }}>
+          <strong>{t.voidReason}:</strong> {voided.reason}
+          <div style={{ opacity: 0.7 }}>
+            👤 {voided.voidedBy || t.unknownOperator} · 🕒 {new Date(voided.voidedAt).toLocaleString()}
+          </div>
+        </div>
+      )}
+
+      {/* Revision History */}
+      {showHistory && revisions.length > 0 && (
+        <div style={{
+          marginTop: "0.75rem",
+          padding: "0.75rem",
+          backgroundColor: "rgba(0, 0, 0, 0.2)",
+          borderRadius: "6px",
+          fontSize: "0.85rem",
+        }}>
+          <div style={{ marginBottom: "0.5rem" }}>
+            <strong>{t.originalText}:</strong> {entry.text}
+          </div>
+          <ol style={{ margin: 0, paddingLeft: "1.25rem", display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+            {revisions.map(revision => (
+              <li key={revision.editedAt}>
+                <div style={{ opacity: 0.7 }}>
+                  👤 {revision.editedBy || t.unknownOperator} · 🕒 {new Date(revision.editedAt).toLocaleString()}
+                </div>
+                <div>
+                  <del style={{ opacity: 0.7 }}>{revision.before}</del>
+                  {' → '}
+                  <ins style={{ textDecoration: "none", fontWeight: "600" }}>{revision.after}</ins>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Translations } from '../translations';
+import { HighlightRule } from '../hooks/useSettings';
+import { buildVocabulary, MAX_KEYTERMS, MAX_KEYTERM_LENGTH } from '../utils/vocabulary';
+
+interface VocabularySettingsProps {
+  t: Translations;
+  highlightRules: HighlightRule[];
+  vocabularyTerms: string[];
+  /** Whether the selected provider uses the vocabulary */
+  keytermsSupported: boolean;
+  onAddTerm: (term: string) => void;
+  onRemoveTerm: (term: string) => void;
+}
+
+/**
+ * Vocabulary Settings Component
+ *
+ * Manages the recognition vocabulary sent to the provider on connect:
+ * - Highlight words are included automatically (shown read-only)
+ * - Callsigns and jargon can be added to and removed from a separate list
+ * - Shows how many terms are sent out of the provider limit, or that the
+ *   selected provider ignores the vocabulary
+ *
+ * @component
+ */
+export default function VocabularySettings({
+  t,
+  highlightRules,
+  vocabularyTerms,
+  keytermsSupported,
+  onAddTerm,
+  onRemoveTerm,
+}: VocabularySettingsProps) {
+  const [newTerm, setNewTerm] = useState('');
+
+  const highlightWords = buildVocabulary(highlightRules, []);
+  const vocabulary = buildVocabulary(highlightRules, vocabularyTerms);
+
+  const handleAdd = () => {
+    const term = newTerm.trim();
+    if (term) {
+      onAddTerm(term);
+      setNewTerm('');
+    }
+  };
+
+  return (
+    <div style={{
+      marginTop: "1rem",
+      padding: "1rem",
+      backgroundColor: "rgba(0, 150, 136, 0.1)",
+      borderRadius: "8px",
+      border: "1px solid rgba(0, 150, 136, 0.3)"
+    }}>
+      <strong style={{ color: "var(--foreground)", display: "block", marginBottom: "0.5rem" }}>
+        📖 {t.vocabulary}
+      </strong>
+      <p style={{
+        fontSize: "0.85rem",
+        color: "rgba(128, 128, 128, 0.7)",
+        margin: "0 0 1rem 0"
+      }}>
+        {t.vocabularyDesc}
+      </p>
+
+      {!keytermsSupported && (
+        <div role="note" style={{
+          fontSize: "0.85rem",
+          color: "#FF9800",
+          padding: "0.5rem",
+          marginBottom: "1rem",
+          backgroundColor: "rgba(255, 152, 0, 0.1)",
+          border: "1px solid rgba(255, 152, 0, 0.4)",
+          borderRadius: "6px",
+        }}>
+          ⚠️ {t.vocabularyUnsupported}
+        </div>
+      )}
+
+      {/* Add new term */}
+      <div style={{ display: "flex", gap: "0.5rem", marginBottom: "1rem", flexWrap: "wrap" }}>
+        <input
+          type="text"
+          value={newTerm}
+          onChange={(e) => setNewTerm(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          maxLength={MAX_KEYTERM_LENGTH}
+          placeholder={t.vocabularyTermPlaceholder}
+          aria-label={t.vocabularyTerm}
+          style={{
+            flex: "1 1 150px",
+            padding: "0.5rem",
+            fontSize: "0.9rem",
+            backgroundColor: "rgba(0, 0, 0, 0.3)",
+            border: "1px solid rgba(255, 255, 255, 0.2)",
+            borderRadius: "6px",
+            color: "var(--foreground)",
+          }}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newTerm.trim()}
+          style={{
+            padding: "0.5rem 1rem",
+            fontSize: "0.9rem",
+            cursor: newTerm.trim() ? "pointer" : "not-allowed",
+            backgroundColor: newTerm.trim() ? "#009688" : "rgba(128, 128, 128, 0.2)",
+            color: newTerm.trim() ? "white" : "rgba(128, 128, 128, 0.5)",
+            border: "none",
+            borderRadius: "6px",
+            fontWeight: "600",
+            opacity: newTerm.trim() ? 1 : 0.5,
+          }}
+        >
+          ➕ {t.addVocabularyTerm}
+        </button>
+      </div>
+
+      {/* Terms from highlight rules */}
+      {highlightWords.length > 0 && (
+        <div style={{ marginBottom: "0.75rem" }}>
+          <div style={{ fontSize: "0.8rem", color: "rgba(128, 128, 128, 0.7)", marginBottom: "0.25rem" }}>
+            {t.vocabularyFromHighlights}
+          </div>
+          <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+            {highlightWords.map(word => (
+              <span
+                key={word}
+                style={{
+                  padding: "0.25rem 0.5rem",
+                  fontSize: "0.85rem",
+                  backgroundColor: "rgba(0, 0, 0, 0.2)",
+                  color: "var(--foreground)",
+                  borderRadius: "4px",
+                }}
+              >
+                {word}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Own vocabulary list */}
+      {vocabularyTerms.length > 0 && (
+        <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap", marginBottom: "0.75rem" }}>
+          {vocabularyTerms.map(term => (
+            <span
+              key={term}
+              style={{
+                display: "inline-flex",
+                alignItems: "center",
+                gap: "0.4rem",
+                padding: "0.25rem 0.5rem",
+                fontSize: "0.85rem",
+                backgroundColor: "rgba(0, 150, 136, 0.2)",
+                color: "var(--foreground)",
+                border: "1px solid rgba(0, 150, 136, 0.4)",
+                borderRadius: "4px",
+              }}
+            >
+              {term}
+              <button
+                onClick={() => onRemoveTerm(term)}
+                aria-label={`${t.removeVocabularyTerm}: ${term}`}
+                style={{
+                  padding: 0,
+                  fontSize: "0.8rem",
+                  cursor: "pointer",
+                  backgroundColor: "transparent",
+                  color: "#f44336",
+                  border: "none",
+                }}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {keytermsSupported && (
+        <div style={{
+          fontSize: "0.8rem",
+          color: vocabulary.length >= MAX_KEYTERMS ? "#FF9800" : "rgba(128, 128, 128, 0.7)"
+        }}>
+          {t.vocabularyTermsSent}: {vocabulary.length} / {MAX_KEYTERMS}
+        </div>
+      )}
+    </div>
+  );
+}
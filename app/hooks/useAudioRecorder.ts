@@ -0,0 +1,219 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  AudioRecording,
+  saveRecording,
+  saveAudioChunk,
+  loadRecording,
+  loadRecordingAudio,
+} from '../utils/ledgerStorage';
+import { createEntryId, EntryAudio } from './useLedger';
+
+/**
+ * Interval at which MediaRecorder hands over audio to be stored
+ */
+const CHUNK_INTERVAL_MS = 1000;
+
+/**
+ * Microphone constraints for the local recording
+ * Mirrors the constraints the Scribe connection is opened with
+ */
+export interface RecorderMicrophone {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  deviceId?: string;
+}
+
+/**
+ * Custom React Hook for Recording and Playing Back Session Audio
+ *
+ * Records the microphone locally with MediaRecorder, in parallel with the
+ * Scribe connection, and stores the audio in IndexedDB in one-second chunks
+ * so a crash loses at most the last second. Entries link to their utterance
+ * by recording id and offset, which `playSegment` plays back.
+ *
+ * The recording is optional: when the browser has no MediaRecorder or the
+ * microphone cannot be opened a second time, transcription continues
+ * without audio.
+ *
+ * @returns Recording state, start/stop controls and segment playback
+ *
+ * @example
+ * ```tsx
+ * const recorder = useAudioRecorder();
+ *
+ * await recorder.start(session.id, { echoCancellation: true, noiseSuppression: true });
+ * recorder.stop();
+ *
+ * recorder.playSegment({ recordingId, start: 12.4, end: 15.1 }, entry.id);
+ * ```
+ */
+export function useAudioRecorder() {
+  const [isRecording, setIsRecording] = useState(false);
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recordingRef = useRef<AudioRecording | null>(null);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
+  // Object URLs of finished recordings, reused between playbacks
+  const audioUrlsRef = useRef<Map<string, string>>(new Map());
+  // Object URL of a snapshot of the recording in progress, released after playback
+  const liveUrlRef = useRef<string | null>(null);
+
+  /**
+   * Stop recording and release the microphone
+   */
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    recorderRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    recordingRef.current = null;
+    setIsRecording(false);
+  }, []);
+
+  /**
+   * Start recording the microphone into a session
+   *
+   * @param sessionId - Session the recording belongs to
+   * @param microphone - Microphone constraints
+   * @returns Promise resolving to the new recording, or null if recording is not possible
+   */
+  const start = useCallback(async (sessionId: string, microphone: RecorderMicrophone) => {
+    stop();
+    if (typeof MediaRecorder === 'undefined') {
+      console.warn('MediaRecorder not supported on this browser, audio will not be recorded');
+      return null;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: microphone.echoCancellation,
+          noiseSuppression: microphone.noiseSuppression,
+          ...(microphone.deviceId && { deviceId: { exact: microphone.deviceId } }),
+        },
+      });
+      const recorder = new MediaRecorder(stream);
+      const recording: AudioRecording = {
+        id: createEntryId(),
+        sessionId,
+        startedAt: new Date().toISOString(),
+        mimeType: recorder.mimeType || 'audio/webm',
+      };
+      let seq = 0;
+
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) {
+          saveAudioChunk(recording, seq++, event.data).catch(error => {
+            console.error('Error persisting audio chunk:', error);
+          });
+        }
+      };
+      recorder.onerror = event => {
+        console.error('Audio recording error:', event);
+      };
+
+      await saveRecording(recording);
+      recorder.start(CHUNK_INTERVAL_MS);
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      recordingRef.current = recording;
+      setIsRecording(true);
+      return recording;
+    } catch (error) {
+      console.error('Error starting audio recording:', error);
+      stop();
+      return null;
+    }
+  }, [stop]);
+
+  /**
+   * Recording in progress, if any
+   */
+  const getCurrentRecording = useCallback(() => recordingRef.current, []);
+
+  /**
+   * Stop the segment that is playing
+   */
+  const stopPlayback = useCallback(() => {
+    playerRef.current?.pause();
+    playerRef.current = null;
+    if (liveUrlRef.current) {
+      URL.revokeObjectURL(liveUrlRef.current);
+      liveUrlRef.current = null;
+    }
+    setPlayingKey(null);
+  }, []);
+
+  /**
+   * Play part of a recording
+   *
+   * @param segment - Recording and offsets to play
+   * @param key - Identifies the playback in `playingKey` (e.g. the entry id)
+   * @returns Promise resolving to false if the audio is not available
+   */
+  const playSegment = useCallback(async (segment: EntryAudio, key: string) => {
+    stopPlayback();
+
+    // The recording in progress keeps growing, so it is never cached
+    const isLive = recordingRef.current?.id === segment.recordingId;
+    let url = isLive ? undefined : audioUrlsRef.current.get(segment.recordingId);
+    if (!url) {
+      const recording = await loadRecording(segment.recordingId);
+      const audio = recording ? await loadRecordingAudio(recording) : null;
+      if (!audio) return false;
+      url = URL.createObjectURL(audio);
+      if (isLive) {
+        liveUrlRef.current = url;
+      } else {
+        audioUrlsRef.current.set(segment.recordingId, url);
+      }
+    }
+
+    const player = new Audio(url);
+    playerRef.current = player;
+    setPlayingKey(key);
+
+    const finish = () => {
+      if (playerRef.current === player) stopPlayback();
+    };
+    player.onloadedmetadata = () => {
+      player.currentTime = segment.start;
+      player.play().catch(error => {
+        console.error('Error playing audio:', error);
+        finish();
+      });
+    };
+    player.ontimeupdate = () => {
+      if (player.currentTime >= segment.end) finish();
+    };
+    player.onended = finish;
+    player.onerror = finish;
+    return true;
+  }, [stopPlayback]);
+
+  // Release the microphone and cached audio on unmount
+  useEffect(() => {
+    const audioUrls = audioUrlsRef.current;
+    return () => {
+      stop();
+      playerRef.current?.pause();
+      if (liveUrlRef.current) URL.revokeObjectURL(liveUrlRef.current);
+      audioUrls.forEach(url => URL.revokeObjectURL(url));
+      audioUrls.clear();
+    };
+  }, [stop]);
+
+  return {
+    isRecording,
+    playingKey,
+    start,
+    stop,
+    getCurrentRecording,
+    playSegment,
+    stopPlayback,
+  };
+}
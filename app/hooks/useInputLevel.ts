@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * How often the input is sampled
+ */
+const SAMPLE_INTERVAL_MS = 100;
+
+/**
+ * RMS level below which input counts as silence (-60 dBFS)
+ */
+const SILENCE_LEVEL = 0.001;
+
+/**
+ * Sample peak at or above which input counts as clipping
+ */
+const CLIP_LEVEL = 0.99;
+
+/**
+ * Lowest level shown on the meter, in dBFS
+ */
+const METER_FLOOR_DB = -60;
+
+/**
+ * Problem the watchdog has detected with the microphone input
+ * - 'silent': nothing above the noise floor (muted, unplugged or wrong device)
+ * - 'clipping': input is overdriven
+ */
+export type InputWarning = 'silent' | 'clipping';
+
+/**
+ * Custom React Hook for Monitoring the Microphone Input Level
+ *
+ * Opens the selected microphone with Web Audio while `active` and samples it
+ * ten times a second. Reports the current level for a meter and raises a
+ * warning once the input has been silent, or clipping, for `watchdogSeconds`
+ * without a break. The warning stays until the input recovers.
+ *
+ * The input is analysed without echo cancellation, noise suppression or gain
+ * control, so the meter shows what the microphone actually picks up.
+ *
+ * @param active - Whether to monitor the input (e.g. while recording)
+ * @param deviceId - Selected microphone, or empty for the default device
+ * @param watchdogSeconds - Seconds of silence or clipping before warning (0 disables the watchdog)
+ * @returns Current level (0-1 on a -60..0 dBFS scale) and the active warning, if any
+ *
+ * @example
+ * ```tsx
+ * const input = useInputLevel(scribe.isConnected, settings.selectedMicrophoneId, 10);
+ * <StatusIndicator t={t} level={input.level} warning={input.warning} />
+ * ```
+ */
+export function useInputLevel(active: boolean, deviceId: string, watchdogSeconds: number) {
+  const [level, setLevel] = useState(0);
+  const [warning, setWarning] = useState<InputWarning | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      setLevel(0);
+      setWarning(null);
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia || typeof AudioContext === 'undefined') {
+      console.warn('Web Audio not supported on this browser, input level will not be shown');
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    const startMonitoring = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+            ...(deviceId && { deviceId: { exact: deviceId } }),
+          },
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        context = new AudioContext();
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 2048;
+        context.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+
+        let silentSince: number | null = null;
+        let clippingSince: number | null = null;
+        const watchdogMs = watchdogSeconds * 1000;
+
+        interval = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          let sumOfSquares = 0;
+          let peak = 0;
+          for (let i = 0; i < samples.length; i++) {
+            sumOfSquares += samples[i] * samples[i];
+            peak = Math.max(peak, Math.abs(samples[i]));
+          }
+          const rms = Math.sqrt(sumOfSquares / samples.length);
+          const db = rms > 0 ? 20 * Math.log10(rms) : METER_FLOOR_DB;
+          setLevel(Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB)));
+
+          // An ended track (unplugged device) is as good as silence
+          const ended = stream!.getAudioTracks().every(track => track.readyState === 'ended');
+          const now = Date.now();
+          silentSince = ended || rms < SILENCE_LEVEL ? (silentSince ?? now) : null;
+          clippingSince = !ended && peak >= CLIP_LEVEL ? (clippingSince ?? now) : null;
+
+          if (watchdogMs <= 0) {
+            setWarning(null);
+          } else if (silentSince !== null && now - silentSince >= watchdogMs) {
+            setWarning('silent');
+          } else if (clippingSince !== null && now - clippingSince >= watchdogMs) {
+            setWarning('clipping');
+          } else {
+            setWarning(null);
+          }
+        }, SAMPLE_INTERVAL_MS);
+      } catch (error) {
+        console.error('Error monitoring input level:', error);
+        // The device could not be opened at all
+        if (!cancelled && watchdogSeconds > 0) setWarning('silent');
+      }
+    };
+
+    startMonitoring();
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+      context?.close().catch(() => {});
+    };
+  }, [active, deviceId, watchdogSeconds]);
+
+  return { level, warning };
+}
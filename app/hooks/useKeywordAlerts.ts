@@ -0,0 +1,217 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { HighlightRule } from './useSettings';
+import { findHighlightMatches } from '../utils/highlightUtils';
+
+/**
+ * Seconds a rule stays silent after alerting, unless it sets its own cooldown
+ */
+export const DEFAULT_ALERT_COOLDOWN_SECONDS = 30;
+
+/**
+ * How long the screen flash lasts
+ */
+export const ALERT_FLASH_MS = 1200;
+
+/**
+ * Most alerts kept in the log
+ */
+const MAX_ALERT_LOG = 100;
+
+/**
+ * Triggered keyword alert
+ */
+export interface KeywordAlert {
+  /** Unique identifier for the alert */
+  id: string;
+  /** Rule that triggered the alert */
+  ruleId: string;
+  /** Word (or phrase, or pattern) of the rule */
+  ruleWord: string;
+  /** Color of the rule */
+  color: string;
+  /** Text that matched the rule */
+  matchedText: string;
+  /** Transcript the match was found in */
+  text: string;
+  /** Whether the transcript was committed or still partial */
+  source: 'committed' | 'partial';
+  /** ISO timestamp of when the alert was triggered */
+  triggeredAt: string;
+}
+
+/**
+ * Play a short two-tone alert
+ */
+function playAlertTone(context: AudioContext) {
+  if (context.state === 'suspended') {
+    context.resume().catch(() => undefined);
+  }
+  [0, 0.2].forEach((delay, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const start = context.currentTime + delay;
+    oscillator.type = 'sine';
+    oscillator.frequency.value = index === 0 ? 880 : 1175;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.18);
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  });
+}
+
+/**
+ * Show a desktop notification if the page is in the background and notifications are allowed
+ */
+function showAlertNotification(title: string, alert: KeywordAlert) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) {
+    return;
+  }
+  try {
+    new Notification(`${title}: ${alert.ruleWord}`, { body: alert.text, tag: alert.ruleId });
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.warn('🔔 Could not show notification:', error);
+  }
+}
+
+/**
+ * Ask for permission to show desktop notifications, if not asked before
+ */
+export function requestNotificationPermission() {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+}
+
+/**
+ * Custom React Hook for Keyword Alerts
+ *
+ * Checks transcripts against the highlight rules that have an alert and,
+ * for each matching rule, plays a tone, shows a desktop notification while
+ * the tab is in the background and/or flashes the screen in the rule's
+ * color, as the rule asks. Partial transcripts only alert for rules that
+ * opt in. After alerting, a rule stays silent for its cooldown. Whatever
+ * the cooldown, a rule alerts at most once per utterance: a keyword seen in
+ * a partial transcript does not alert again on later partial updates or
+ * when the utterance is committed.
+ * Triggered alerts are kept in a log, newest first.
+ *
+ * @param rules - Active highlight rules
+ * @param partialMatch - Whether partial matching is enabled
+ * @param notificationTitle - Title of desktop notifications
+ * @returns Alert log, current flash color and check/clear functions
+ *
+ * @example
+ * ```tsx
+ * const alerts = useKeywordAlerts(settings.highlightRules, settings.partialMatchHighlight, t.keywordAlert);
+ *
+ * alerts.checkTranscript('Mayday mayday, Alpha 1', 'committed');
+ * ```
+ */
+export function useKeywordAlerts(rules: HighlightRule[], partialMatch: boolean, notificationTitle: string) {
+  const [alertLog, setAlertLog] = useState<KeywordAlert[]>([]);
+  const [flashColor, setFlashColor] = useState<string | null>(null);
+  const rulesRef = useRef(rules);
+  const partialMatchRef = useRef(partialMatch);
+  const notificationTitleRef = useRef(notificationTitle);
+  // When each rule last alerted (ms since epoch)
+  const lastTriggeredRef = useRef<{ [ruleId: string]: number }>({});
+  // Rules that alerted on partial transcripts of the current utterance
+  const utteranceAlertedRef = useRef<Set<string>>(new Set());
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const flashTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    rulesRef.current = rules;
+    partialMatchRef.current = partialMatch;
+    notificationTitleRef.current = notificationTitle;
+  }, [rules, partialMatch, notificationTitle]);
+
+  // Release the audio context and flash timer on unmount
+  useEffect(() => {
+    return () => {
+      if (flashTimerRef.current) clearTimeout(flashTimerRef.current);
+      audioContextRef.current?.close().catch(() => undefined);
+    };
+  }, []);
+
+  /**
+   * Check a transcript for alerting keywords and trigger their alerts
+   *
+   * @param text - Transcript text
+   * @param source - Whether the transcript is committed or partial
+   */
+  const checkTranscript = useCallback((text: string, source: 'committed' | 'partial') => {
+    // A committed or cleared transcript ends the utterance
+    const utteranceAlerted = utteranceAlertedRef.current;
+    if (source === 'committed' || !text.trim()) {
+      utteranceAlertedRef.current = new Set();
+    }
+    const alertRules = rulesRef.current.filter(rule => rule.alert && (source === 'committed' || rule.alert.onPartial));
+    if (!text.trim() || alertRules.length === 0) return;
+
+    const now = Date.now();
+    const triggered: KeywordAlert[] = [];
+    findHighlightMatches(text, alertRules, partialMatchRef.current).forEach(match => {
+      const rule = match.rule;
+      if (triggered.some(alert => alert.ruleId === rule.id) || utteranceAlerted.has(rule.id)) return;
+      const cooldownMs = (rule.alert!.cooldownSeconds ?? DEFAULT_ALERT_COOLDOWN_SECONDS) * 1000;
+      const last = lastTriggeredRef.current[rule.id];
+      if (last !== undefined && now - last < cooldownMs) return;
+      lastTriggeredRef.current[rule.id] = now;
+      if (source === 'partial') utteranceAlerted.add(rule.id);
+      triggered.push({
+        id: `${now}-${rule.id}`,
+        ruleId: rule.id,
+        ruleWord: rule.word,
+        color: rule.color,
+        matchedText: text.slice(match.start, match.end),
+        text,
+        source,
+        triggeredAt: new Date(now).toISOString(),
+      });
+    });
+    if (triggered.length === 0) return;
+
+    const alertedRules = triggered.map(alert => alertRules.find(rule => rule.id === alert.ruleId)!);
+    if (alertedRules.some(rule => rule.alert!.sound) && typeof AudioContext !== 'undefined') {
+      try {
+        audioContextRef.current = audioContextRef.current ?? new AudioContext();
+        playAlertTone(audioContextRef.current);
+      } catch (error) {
+        console.warn('🔊 Could not play alert tone:', error);
+      }
+    }
+    triggered.forEach((alert, index) => {
+      if (alertedRules[index].alert!.notification) {
+        showAlertNotification(notificationTitleRef.current, alert);
+      }
+    });
+    const flashRule = alertedRules.find(rule => rule.alert!.flash);
+    if (flashRule) {
+      if (flashTimerRef.current) clearTimeout(flashTimerRef.current);
+      setFlashColor(flashRule.color);
+      flashTimerRef.current = setTimeout(() => setFlashColor(null), ALERT_FLASH_MS);
+    }
+
+    console.log('🚨 Keyword alert:', triggered.map(alert => alert.ruleWord).join(', '));
+    setAlertLog(prev => [...triggered.reverse(), ...prev].slice(0, MAX_ALERT_LOG));
+  }, []);
+
+  /**
+   * Empty the alert log
+   */
+  const clearAlertLog = useCallback(() => {
+    setAlertLog([]);
+  }, []);
+
+  return {
+    alertLog,
+    flashColor,
+    checkTranscript,
+    clearAlertLog,
+  };
+}
@@ -0,0 +1,793 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  saveSession,
+  loadSessions,
+  deleteSession as deleteStoredSession,
+  saveEntry,
+  loadEntries,
+  savePendingPartial,
+  loadPendingPartial,
+  saveActiveSessionId,
+  loadActiveSessionId,
+} from '../utils/ledgerStorage';
+import {
+  GENESIS_HASH,
+  computeEntryHash,
+  computeRevisionHash,
+  computeVoidHash,
+  getChainHead,
+  getEntryHistoryHead,
+} from '../utils/hashChain';
+import { WordTiming, offsetToDate, getMainSpeaker, getLowConfidenceWords } from '../utils/wordTimings';
+import { parseTimestamp } from '../utils/timeFormat';
+
+/**
+ * Represents a manual correction of an entry's text
+ */
+export interface EntryRevision {
+  /** Operator who made the correction */
+  editedBy: string;
+  /** ISO timestamp of the correction */
+  editedAt: string;
+  /** Text before the correction */
+  before: string;
+  /** Text after the correction */
+  after: string;
+  /** SHA-256 hash chaining the revision to the entry (see hashChain) */
+  hash?: string;
+}
+
+/**
+ * Records that an entry was struck out of the ledger
+ * Voided entries stay in the ledger and its hash chain
+ */
+export interface EntryVoid {
+  /** Operator who voided the entry */
+  voidedBy: string;
+  /** ISO timestamp of when the entry was voided */
+  voidedAt: string;
+  /** Mandatory reason for voiding */
+  reason: string;
+  /** SHA-256 hash chaining the void record to the entry (see hashChain) */
+  hash?: string;
+}
+
+/**
+ * Origin of an entry: transcribed from the microphone, typed by the operator,
+ * or a note written by the application itself (e.g. a microphone switch)
+ */
+export type EntrySource = 'transcribed' | 'manual' | 'system';
+
+/**
+ * Represents a single committed transcript entry in the ledger
+ */
+export interface TranscriptEntry {
+  /** Unique identifier for the entry */
+  id: string;
+  /** Original transcribed (machine) text, never changed after commit */
+  text: string;
+  /**
+   * ISO 8601 instant of when the entry was spoken or committed, or the chosen
+   * time of a back-dated manual entry (bare HH:MM:SS in older ledgers)
+   */
+  timestamp: string;
+  /** Entry origin, transcribed when omitted */
+  source?: EntrySource;
+  /** ISO 8601 instant of when a back-dated entry was actually logged */
+  loggedAt?: string;
+  /** ISO timestamp of when the recording the entry was transcribed from started */
+  recordingStartedAt?: string;
+  /** Per-word timing, relative to recordingStartedAt */
+  words?: WordTiming[];
+  /** Utterance in the recorded session audio */
+  audio?: EntryAudio;
+  /** Set on entries of a duplicated session, whose audio stayed with the original (not sealed) */
+  audioNotCopied?: boolean;
+  /** Language the provider detected (or was told) the entry is spoken in */
+  languageCode?: string;
+  /** Speaker most of the words were attributed to, when diarized (see speakerNames) */
+  speakerId?: string;
+  /** Hash of the previous entry in the session's hash chain */
+  prevHash?: string;
+  /** SHA-256 hash sealing this entry (see hashChain) */
+  hash?: string;
+  /** Corrections made to the text, oldest first */
+  revisions?: EntryRevision[];
+  /** Set when the entry has been voided */
+  voided?: EntryVoid;
+}
+
+/**
+ * Represents a named ledger session (e.g. one exercise or shift)
+ */
+export interface LedgerSession {
+  /** Unique identifier for the session */
+  id: string;
+  /** User-editable session name */
+  name: string;
+  /** ISO timestamp of when the session was created */
+  startedAt: string;
+  /** ISO timestamp of when the session was closed, null while open */
+  endedAt: string | null;
+  /** Name or callsign of the operator keeping the log */
+  operator: string;
+  /** Free-form notes about the session */
+  notes: string;
+  /** Archived sessions are hidden from the library by default */
+  archived: boolean;
+  /** Number of committed entries in the session */
+  entryCount: number;
+  /** Names (e.g. callsigns) given to diarized speaker ids */
+  speakerNames?: { [speakerId: string]: string };
+  /** Names of the highlight profiles active when the session was first recorded (sessions saved before profile changes were tracked) */
+  highlightProfiles?: string[];
+  /** Every change of the active highlight profiles while the session was open, oldest first */
+  highlightProfileChanges?: HighlightProfileChange[];
+}
+
+/**
+ * Highlight profiles that became active at some point of a session
+ */
+export interface HighlightProfileChange {
+  /** ISO timestamp of the change */
+  changedAt: string;
+  /** Names of the profiles active from then on, in priority order */
+  profiles: string[];
+}
+
+/**
+ * Session found in IndexedDB that was still open when the page was closed
+ */
+export interface RecoverableLedger {
+  session: LedgerSession;
+  entries: TranscriptEntry[];
+  pendingPartial: TranscriptEntry | null;
+}
+
+/**
+ * Link from an entry to its utterance in the recorded session audio
+ */
+export interface EntryAudio {
+  /** Audio recording the utterance is in (see ledgerStorage) */
+  recordingId: string;
+  /** Seconds from the start of the recording */
+  start: number;
+  /** Seconds from the start of the recording */
+  end: number;
+}
+
+/**
+ * Audio recording in progress when an entry is committed
+ */
+export interface ActiveAudioRecording {
+  id: string;
+  /** ISO timestamp of when the recording started */
+  startedAt: string;
+}
+
+/**
+ * Word timing of a committed transcript
+ */
+export interface EntryTiming {
+  /** ISO timestamp of when the recording started */
+  recordingStartedAt: string;
+  /** Spoken words, relative to recordingStartedAt */
+  words: WordTiming[];
+}
+
+/**
+ * Create a unique entry or session identifier
+ */
+export function createEntryId(): string {
+  return `${Date.now()}-${Math.random()}`;
+}
+
+/**
+ * Current text of an entry: the latest correction, or the original text
+ */
+export function getEntryText(entry: TranscriptEntry): string {
+  const revisions = entry.revisions;
+  return revisions && revisions.length > 0 ? revisions[revisions.length - 1].after : entry.text;
+}
+
+/**
+ * Whether an entry still needs a reviewer's attention: words were recognized
+ * below the confidence threshold and it has been neither corrected nor voided
+ *
+ * @param entry - Entry to check
+ * @param threshold - Lowest acceptable word confidence, 0–1 (0 = never)
+ */
+export function needsReview(entry: TranscriptEntry, threshold: number): boolean {
+  return !entry.voided && !entry.revisions?.length && getLowConfidenceWords(entry.words ?? [], threshold).length > 0;
+}
+
+/**
+ * Changes of the active highlight profiles during a session
+ * Sessions that only recorded one profile list get it as a change at the session start
+ *
+ * @param session - Session to read
+ * @returns Changes, oldest first
+ */
+export function getHighlightProfileChanges(session: LedgerSession): HighlightProfileChange[] {
+  if (session.highlightProfileChanges) return session.highlightProfileChanges;
+  return session.highlightProfiles ? [{ changedAt: session.startedAt, profiles: session.highlightProfiles }] : [];
+}
+
+/**
+ * Display name of a diarized speaker
+ *
+ * @param speakerId - Speaker id from the provider (e.g. 'speaker_0')
+ * @param speakerNames - Names given to speakers in the session
+ * @param speakerLabel - Localized word for an unnamed speaker
+ * @returns The given name, or e.g. 'Speaker 1' for 'speaker_0'
+ */
+export function getSpeakerName(speakerId: string, speakerNames: { [speakerId: string]: string } | undefined, speakerLabel: string): string {
+  const name = speakerNames?.[speakerId];
+  if (name) return name;
+  const number = /(\d+)$/.exec(speakerId);
+  return number ? `${speakerLabel} ${parseInt(number[1], 10) + 1}` : speakerId;
+}
+
+/**
+ * Order entries by time for display and export
+ *
+ * Entries are stored in the order they were logged, which is also the
+ * hash-chain order. Back-dated entries are moved back past the entries
+ * logged before them that have a later timestamp, so they appear where
+ * they belong in the timeline.
+ */
+export function toTimeline(entries: TranscriptEntry[]): TranscriptEntry[] {
+  const timeline: TranscriptEntry[] = [];
+  for (const entry of entries) {
+    let index = timeline.length;
+    const time = entry.loggedAt ? parseTimestamp(entry.timestamp) : null;
+    if (time !== null) {
+      while (index > 0 && (parseTimestamp(timeline[index - 1].timestamp) ?? -Infinity) > time) {
+        index--;
+      }
+    }
+    timeline.splice(index, 0, entry);
+  }
+  return timeline;
+}
+
+/**
+ * Default name for a new session (YYYY-MM-DD HH:MM, local time)
+ */
+function defaultSessionName(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Log a failed IndexedDB write without interrupting the UI
+ */
+function logStorageError(action: string) {
+  return (error: unknown) => {
+    console.error(`Error ${action}:`, error);
+  };
+}
+
+/**
+ * Custom React Hook for the Live Ledger and Session Library
+ *
+ * Holds the sessions in the library and the committed transcript entries of
+ * the open session. Each entry is written to IndexedDB as it arrives,
+ * together with the pending partial transcript. On mount it looks for a
+ * session left open by a crashed or reloaded tab and exposes it as
+ * `recoverable` until the user restores or closes it.
+ *
+ * A session is created automatically when the first entry arrives and no
+ * session is open. Every entry is sealed into the session's hash chain
+ * shortly after it is added; sealing is queued so entries are chained in
+ * the order they arrived; corrections and voids wait in the same queue, as
+ * they chain to the entry's hash. The latest sealing failure (e.g. no WebCrypto outside
+ * HTTPS) is exposed as `sealingError`, as the entry is left unsealed and will
+ * fail verification. Entries and the open session are kept in refs as well
+ * as in state so that callbacks captured by the Scribe connection always
+ * see the latest ledger.
+ *
+ * @returns Ledger state, session library and mutators
+ *
+ * @example
+ * ```tsx
+ * const ledger = useLedger();
+ *
+ * ledger.addEntry('Hello world');
+ * ledger.persistPartial('Hello wor');
+ *
+ * ledger.newSession();
+ * ledger.updateSession(ledger.activeSession!.id, { name: 'Exercise 2' });
+ * ```
+ */
+export function useLedger() {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [sessions, setSessions] = useState<LedgerSession[]>([]);
+  const [activeSession, setActiveSession] = useState<LedgerSession | null>(null);
+  const [recoverable, setRecoverable] = useState<RecoverableLedger | null>(null);
+  const [sealingError, setSealingError] = useState<{ message: string; failedAt: string } | null>(null);
+  const entriesRef = useRef<TranscriptEntry[]>([]);
+  const activeSessionRef = useRef<LedgerSession | null>(null);
+  const pendingPartialRef = useRef<TranscriptEntry | null>(null);
+  // Resolves to the hash of the last sealed entry of the open session
+  const chainRef = useRef<Promise<string>>(Promise.resolve(GENESIS_HASH));
+
+  // Load the library and look for a session left open on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const [storedSessions, activeSessionId, pendingPartial] = await Promise.all([
+        loadSessions(),
+        loadActiveSessionId(),
+        loadPendingPartial(),
+      ]);
+      if (cancelled) return;
+      setSessions(storedSessions);
+
+      const session = storedSessions.find(s => s.id === activeSessionId);
+      if (!session) return;
+
+      const storedEntries = await loadEntries(session.id);
+      if (cancelled) return;
+      if (storedEntries.length > 0 || (pendingPartial && pendingPartial.text.trim())) {
+        setRecoverable({ session, entries: storedEntries, pendingPartial });
+      } else {
+        activeSessionRef.current = session;
+        setActiveSession(session);
+      }
+    };
+
+    load().catch(logStorageError('loading persisted ledger'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Update a session in state and IndexedDB
+  const putSession = (session: LedgerSession) => {
+    setSessions(prev => prev.some(s => s.id === session.id)
+      ? prev.map(s => (s.id === session.id ? session : s))
+      : [...prev, session]);
+    if (activeSessionRef.current?.id === session.id) {
+      activeSessionRef.current = session;
+      setActiveSession(session);
+    }
+    saveSession(session).catch(logStorageError('persisting session'));
+  };
+
+  // Apply changes to an entry of the open session in state
+  // Returns the updated entry, or null if the session is no longer open
+  const patchEntry = (sessionId: string, id: string, changes: Partial<TranscriptEntry>) => {
+    if (activeSessionRef.current?.id !== sessionId) return null;
+    let patched: TranscriptEntry | null = null;
+    const next = entriesRef.current.map(e => {
+      if (e.id !== id) return e;
+      patched = { ...e, ...changes };
+      return patched;
+    });
+    entriesRef.current = next;
+    setEntries(next);
+    return patched;
+  };
+
+  // Log a failure to seal an entry, revision or void record and expose it to the page
+  const reportSealingError = (action: string) => (error: unknown) => {
+    logStorageError(action)(error);
+    setSealingError({
+      message: error instanceof Error ? error.message : String(error),
+      failedAt: new Date().toISOString(),
+    });
+  };
+
+  // Queue an entry to be sealed into a session's hash chain and persist the result
+  const sealEntry = (
+    chain: Promise<string>,
+    entry: TranscriptEntry,
+    sessionId: string,
+    seq: number
+  ): Promise<string> => chain.then(async prevHash => {
+    try {
+      const hash = await computeEntryHash(entry, prevHash);
+      const sealed = patchEntry(sessionId, entry.id, { prevHash, hash }) ?? { ...entry, prevHash, hash };
+      await saveEntry(sealed, sessionId, seq);
+      return hash;
+    } catch (error) {
+      reportSealingError('sealing ledger entry')(error);
+      return prevHash;
+    }
+  });
+
+  // Run work once every queued seal has finished, holding later seals until it is done
+  // Revisions and void records chain to the entry's hash, which only exists once sealed
+  const queueAfterSeals = <T>(work: () => Promise<T>): Promise<T> => {
+    const chain = chainRef.current;
+    const result = chain.then(() => work());
+    chainRef.current = chain.then(head => result.then(() => head, () => head));
+    return result;
+  };
+
+  // Make a session the open one
+  const activate = (session: LedgerSession | null, sessionEntries: TranscriptEntry[]) => {
+    activeSessionRef.current = session;
+    setActiveSession(session);
+    entriesRef.current = sessionEntries;
+    setEntries(sessionEntries);
+    chainRef.current = Promise.resolve(getChainHead(sessionEntries) ?? GENESIS_HASH);
+    pendingPartialRef.current = null;
+    savePendingPartial(null).catch(logStorageError('clearing pending partial'));
+    saveActiveSessionId(session?.id ?? null).catch(logStorageError('persisting active session'));
+  };
+
+  // Mark the open session as ended and leave no session open
+  const closeActive = () => {
+    const session = activeSessionRef.current;
+    if (session && !session.endedAt) {
+      putSession({ ...session, endedAt: new Date().toISOString() });
+    }
+    activate(null, []);
+  };
+
+  // Create a session and open it
+  const createSession = (now: Date = new Date()): LedgerSession => {
+    const session: LedgerSession = {
+      id: createEntryId(),
+      name: defaultSessionName(now),
+      startedAt: now.toISOString(),
+      endedAt: null,
+      operator: activeSessionRef.current?.operator ?? '',
+      notes: '',
+      archived: false,
+      entryCount: 0,
+    };
+    closeActive();
+    putSession(session);
+    activate(session, []);
+    return session;
+  };
+
+  // Append an entry to the open session, persist it and queue it for sealing
+  // A session created for the entry starts no later than the entry itself
+  const appendEntry = (entry: TranscriptEntry) => {
+    const session = activeSessionRef.current ??
+      createSession(new Date(Math.min(Date.now(), parseTimestamp(entry.timestamp) ?? Date.now())));
+    const next = [...entriesRef.current, entry];
+    const seq = next.length - 1;
+    entriesRef.current = next;
+    setEntries(next);
+    saveEntry(entry, session.id, seq).catch(logStorageError('persisting ledger entry'));
+    putSession({ ...session, entryCount: next.length });
+    chainRef.current = sealEntry(chainRef.current, entry, session.id, seq);
+  };
+
+  /**
+   * Add a committed transcript, skipping duplicates of existing entries
+   * With word timing the entry is stamped with the time speech began,
+   * otherwise with the time of commit; diarized words also give the entry
+   * its speaker
+   *
+   * While audio is recorded the entry is linked to its utterance: from the
+   * first to the last spoken word, or without word timing from the end of
+   * the previous utterance up to the commit
+   *
+   * @param text - Committed text
+   * @param timing - Word timing from the transcription service
+   * @param audioRecording - Audio recording in progress
+   * @param languageCode - Language the entry is spoken in, as reported by the provider
+   * @returns true if the entry was added
+   */
+  const addEntry = useCallback((text: string, timing?: EntryTiming, audioRecording?: ActiveAudioRecording | null, languageCode?: string) => {
+    if (entriesRef.current.some(t => t.text === text)) {
+      return false;
+    }
+    const now = new Date();
+    const entry: TranscriptEntry = { id: createEntryId(), text, timestamp: now.toISOString() };
+    let spokenUntil: Date | null = null;
+    if (timing && timing.words.length > 0) {
+      entry.timestamp = offsetToDate(timing.recordingStartedAt, timing.words[0].start).toISOString();
+      entry.recordingStartedAt = timing.recordingStartedAt;
+      entry.words = timing.words;
+      const speakerId = getMainSpeaker(timing.words);
+      if (speakerId) {
+        entry.speakerId = speakerId;
+      }
+      spokenUntil = offsetToDate(timing.recordingStartedAt, timing.words[timing.words.length - 1].end);
+    }
+
+    if (audioRecording) {
+      const audioStart = Date.parse(audioRecording.startedAt);
+      const previous = entriesRef.current
+        .filter(e => e.audio?.recordingId === audioRecording.id)
+        .pop();
+      const start = spokenUntil ? (Date.parse(entry.timestamp) - audioStart) / 1000 : previous?.audio?.end ?? 0;
+      const end = ((spokenUntil ?? now).getTime() - audioStart) / 1000;
+      entry.audio = { recordingId: audioRecording.id, start: Math.max(0, start), end: Math.max(0, end) };
+    }
+    if (languageCode) {
+      entry.languageCode = languageCode;
+    }
+    appendEntry(entry);
+    return true;
+  }, []);
+
+  /**
+   * Open session, creating one if none is open
+   * Used when recording starts, so the audio has a session to belong to
+   *
+   * @returns The open session
+   */
+  const ensureSession = useCallback(() => activeSessionRef.current ?? createSession(), []);
+
+  /**
+   * Add an entry typed by the operator
+   *
+   * @param text - Entry text
+   * @param timestamp - Chosen ISO 8601 instant to back-date the entry, defaults to now
+   * @returns true if the entry was added
+   */
+  const addManualEntry = useCallback((text: string, timestamp?: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return false;
+
+    const now = new Date().toISOString();
+    const entry: TranscriptEntry = { id: createEntryId(), text: trimmed, timestamp: timestamp ?? now, source: 'manual' };
+    if (timestamp) {
+      entry.loggedAt = now;
+    }
+    appendEntry(entry);
+    return true;
+  }, []);
+
+  /**
+   * Add a note written by the application, such as a change of input device
+   *
+   * @param text - Note text
+   * @returns true if the note was added
+   */
+  const addSystemNote = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return false;
+
+    appendEntry({ id: createEntryId(), text: trimmed, timestamp: new Date().toISOString(), source: 'system' });
+    return true;
+  }, []);
+
+  /**
+   * Persist the latest partial transcript so it survives a crash
+   * An empty text clears the pending partial
+   *
+   * @param text - Latest partial transcript text
+   */
+  const persistPartial = useCallback((text: string) => {
+    if (!text.trim()) {
+      if (pendingPartialRef.current) {
+        pendingPartialRef.current = null;
+        savePendingPartial(null).catch(logStorageError('clearing pending partial'));
+      }
+      return;
+    }
+
+    pendingPartialRef.current = {
+      id: pendingPartialRef.current?.id ?? createEntryId(),
+      text,
+      timestamp: new Date().toISOString(),
+    };
+    savePendingPartial(pendingPartialRef.current).catch(logStorageError('persisting pending partial'));
+  }, []);
+
+  /**
+   * Correct the text of an entry, keeping the original and every revision
+   *
+   * @param id - Entry to correct
+   * @param text - Corrected text
+   * @param editedBy - Operator making the correction
+   * @returns Promise resolving to true if a revision was recorded
+   */
+  const reviseEntry = useCallback(async (id: string, text: string, editedBy: string) => {
+    const session = activeSessionRef.current;
+    const entry = entriesRef.current.find(e => e.id === id);
+    if (!session || !entry || entry.voided) return false;
+
+    const after = text.trim();
+    if (!after) return false;
+    const editedAt = new Date().toISOString();
+
+    // Chain to the entry's sealed history once its seal (and earlier revisions) are done
+    return queueAfterSeals(async () => {
+      const seq = entriesRef.current.findIndex(e => e.id === id);
+      if (seq < 0) return false;
+      const current = entriesRef.current[seq];
+      const before = getEntryText(current);
+      if (current.voided || after === before) return false;
+
+      const revision: EntryRevision = { editedBy, editedAt, before, after };
+      // An entry whose seal failed has no history head, and its revisions stay unsealed with it
+      const head = getEntryHistoryHead(current);
+      if (head) {
+        try {
+          revision.hash = await computeRevisionHash(revision, head);
+        } catch (error) {
+          reportSealingError('sealing revision')(error);
+        }
+      }
+
+      const revised = patchEntry(session.id, id, { revisions: [...(current.revisions ?? []), revision] });
+      if (!revised) return false;
+      saveEntry(revised, session.id, seq).catch(logStorageError('persisting revision'));
+      return true;
+    });
+  }, []);
+
+  /**
+   * Void entries of the open session, keeping them struck through in the ledger
+   *
+   * @param ids - Entries to void (already voided entries are skipped)
+   * @param reason - Mandatory reason, recorded with every voided entry
+   * @param voidedBy - Operator voiding the entries
+   * @returns Promise resolving to the number of entries voided
+   */
+  const voidEntries = useCallback(async (ids: string[], reason: string, voidedBy: string) => {
+    const session = activeSessionRef.current;
+    const trimmedReason = reason.trim();
+    if (!session || !trimmedReason) return 0;
+
+    const voidedAt = new Date().toISOString();
+
+    // Chain to each entry's sealed history once its seal (and revisions) are done
+    return queueAfterSeals(async () => {
+      let count = 0;
+      for (const id of ids) {
+        const seq = entriesRef.current.findIndex(e => e.id === id);
+        const entry = entriesRef.current[seq];
+        if (!entry || entry.voided) continue;
+
+        const record: EntryVoid = { voidedBy, voidedAt, reason: trimmedReason };
+        const head = getEntryHistoryHead(entry);
+        if (head) {
+          try {
+            record.hash = await computeVoidHash(record, head);
+          } catch (error) {
+            reportSealingError('sealing void record')(error);
+          }
+        }
+
+        const voided = patchEntry(session.id, id, { voided: record });
+        if (!voided) continue;
+        saveEntry(voided, session.id, seq).catch(logStorageError('persisting void record'));
+        count++;
+      }
+      return count;
+    });
+  }, []);
+
+  /**
+   * Reopen the session found on mount, committing its pending partial
+   */
+  const restoreRecoverable = useCallback(() => {
+    if (!recoverable) return;
+
+    const { session, pendingPartial } = recoverable;
+    activate(session, recoverable.entries);
+    if (pendingPartial && pendingPartial.text.trim() &&
+        !recoverable.entries.some(t => t.text === pendingPartial.text)) {
+      appendEntry(pendingPartial);
+    }
+    setRecoverable(null);
+  }, [recoverable]);
+
+  /**
+   * Close the session found on mount and keep it in the library
+   * Its pending partial is committed so nothing is lost
+   */
+  const discardRecoverable = useCallback(() => {
+    if (!recoverable) return;
+
+    const { session, pendingPartial } = recoverable;
+    let entryCount = recoverable.entries.length;
+    if (pendingPartial && pendingPartial.text.trim() &&
+        !recoverable.entries.some(t => t.text === pendingPartial.text)) {
+      saveEntry(pendingPartial, session.id, entryCount).catch(logStorageError('persisting ledger entry'));
+      const chain = Promise.resolve(getChainHead(recoverable.entries) ?? GENESIS_HASH);
+      sealEntry(chain, pendingPartial, session.id, entryCount);
+      entryCount++;
+    }
+    putSession({ ...session, entryCount, endedAt: session.endedAt ?? new Date().toISOString() });
+    activate(null, []);
+    setRecoverable(null);
+  }, [recoverable]);
+
+  /**
+   * Close the open session and start a new, empty one
+   */
+  const newSession = useCallback(() => {
+    createSession();
+  }, []);
+
+  /**
+   * Close the open session and open another one from the library
+   *
+   * @param sessionId - Session to open
+   */
+  const openSession = useCallback(async (sessionId: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session || session.id === activeSessionRef.current?.id) return;
+
+    const sessionEntries = await loadEntries(session.id);
+    closeActive();
+    activate(session, sessionEntries);
+  }, [sessions]);
+
+  /**
+   * Update session metadata (name, operator, notes, archived)
+   *
+   * @param sessionId - Session to update
+   * @param changes - Fields to change
+   */
+  const updateSession = useCallback((sessionId: string, changes: Partial<Omit<LedgerSession, 'id'>>) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+    putSession({ ...session, ...changes });
+  }, [sessions]);
+
+  /**
+   * Copy a session and all of its entries into a new session
+   * The recorded audio is not copied. The copied entries keep their sealed
+   * audio links, so their hashes still verify, but are marked as having no
+   * audio: the original's recordings go when the original is deleted
+   *
+   * @param sessionId - Session to duplicate
+   * @param copySuffix - Text appended to the copy's name
+   */
+  const duplicateSession = useCallback(async (sessionId: string, copySuffix: string) => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    const sessionEntries = await loadEntries(session.id);
+    const copy: LedgerSession = {
+      ...session,
+      id: createEntryId(),
+      name: `${session.name} ${copySuffix}`,
+      archived: false,
+    };
+    await Promise.all(sessionEntries.map((entry, index) =>
+      saveEntry({ ...entry, id: createEntryId(), ...(entry.audio && { audioNotCopied: true }) }, copy.id, index)
+    ));
+    putSession(copy);
+  }, [sessions]);
+
+  /**
+   * Permanently delete a session and its entries
+   *
+   * @param sessionId - Session to delete
+   */
+  const deleteSession = useCallback((sessionId: string) => {
+    if (activeSessionRef.current?.id === sessionId) {
+      activate(null, []);
+    }
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+    deleteStoredSession(sessionId).catch(logStorageError('deleting session'));
+  }, []);
+
+  return {
+    entries,
+    sessions,
+    activeSession,
+    recoverable,
+    sealingError,
+    addEntry,
+    addManualEntry,
+    addSystemNote,
+    ensureSession,
+    reviseEntry,
+    voidEntries,
+    persistPartial,
+    restoreRecoverable,
+    discardRecoverable,
+    newSession,
+    openSession,
+    updateSession,
+    duplicateSession,
+    deleteSession,
+  };
+}
@@ -3,38 +3,59 @@ import { useState, useEffect } from 'react';
 /**
  * Custom hook for enumerating and managing audio input devices
  * Requests microphone permission and lists available devices
+ * The list is refreshed whenever a device is plugged in or removed
  */
 export function useMicrophones() {
   const [availableMicrophones, setAvailableMicrophones] = useState<MediaDeviceInfo[]>([]);
 
   useEffect(() => {
-    const getMicrophones = async () => {
+    // Check if getUserMedia is supported
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      console.warn('getUserMedia not supported on this browser');
+      return;
+    }
+
+    let cancelled = false;
+
+    const refreshMicrophones = async () => {
       try {
-        // Check if getUserMedia is supported
-        if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-          console.warn('getUserMedia not supported on this browser');
-          return;
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        const audioInputs = devices.filter(device => device.kind === 'audioinput');
+        console.log('Available microphones:', audioInputs);
+        if (!cancelled) {
+          setAvailableMicrophones(audioInputs);
         }
+      } catch (error) {
+        console.error('Error enumerating devices:', error);
+      }
+    };
 
+    const getMicrophones = async () => {
+      try {
         // Request permission first
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        
+
         // Stop the stream immediately, we just needed permission
         stream.getTracks().forEach(track => track.stop());
-        
-        // Enumerate devices after permission is granted
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        const audioInputs = devices.filter(device => device.kind === 'audioinput');
-        console.log('Available microphones:', audioInputs);
-        setAvailableMicrophones(audioInputs);
       } catch (error) {
-        console.error('Error enumerating devices:', error);
+        console.error('Error requesting microphone permission:', error);
         // Don't show error to user, just log it
         // This is not critical for the app to work
+        return;
       }
+
+      // Enumerate devices after permission is granted
+      await refreshMicrophones();
     };
 
     getMicrophones();
+
+    // Pick up devices plugged in or removed mid-session
+    navigator.mediaDevices.addEventListener('devicechange', refreshMicrophones);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', refreshMicrophones);
+    };
   }, []);
 
   return availableMicrophones;
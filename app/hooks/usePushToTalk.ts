@@ -0,0 +1,191 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RecorderMicrophone } from './useAudioRecorder';
+
+/**
+ * Sample rate of the PCM audio sent to Scribe (matches AudioFormat.PCM_16000)
+ */
+export const PUSH_TO_TALK_SAMPLE_RATE = 16000;
+
+/**
+ * Samples per chunk handed to Scribe (128 ms at 16 kHz)
+ */
+const BUFFER_SIZE = 2048;
+
+/**
+ * Readable name of a KeyboardEvent.code (e.g. 'KeyT' -> 'T', 'Digit1' -> '1')
+ */
+export function formatKeyCode(code: string): string {
+  return code.replace(/^(Key|Digit)/, '');
+}
+
+/**
+ * Encode float samples as base64 little-endian 16-bit PCM
+ */
+function toPcm16Base64(samples: Float32Array): string {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Custom React Hook for Push-to-Talk Capture
+ *
+ * Keeps the microphone open for the whole Scribe connection but only hands
+ * audio to `sendAudio` while talk is pressed. Releasing commits the audio
+ * sent during the press, so every press becomes its own committed entry and
+ * the connection stays up between presses.
+ *
+ * Scribe times words from the start of the audio it has received, which in
+ * push-to-talk mode skips the time between presses. `getStreamStartedAt`
+ * returns the moment that audio would have started had it been continuous,
+ * so word offsets of the latest press map to wall-clock time.
+ *
+ * @param sendAudio - Sends a base64 PCM chunk to Scribe
+ * @param commit - Commits the audio sent so far
+ * @returns Capture state and open/close/press/release controls
+ *
+ * @example
+ * ```tsx
+ * const pushToTalk = usePushToTalk(scribe.sendAudio, scribe.commit);
+ *
+ * await pushToTalk.open({ echoCancellation: true, noiseSuppression: true });
+ * pushToTalk.press();
+ * pushToTalk.release(); // commits the press
+ * ```
+ */
+export function usePushToTalk(sendAudio: (audioBase64: string) => void, commit: () => void) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const sendAudioRef = useRef(sendAudio);
+  const commitRef = useRef(commit);
+  const cleanupRef = useRef<(() => void) | null>(null);
+  const talkingRef = useRef(false);
+  // Whether any audio went out during the current press
+  const sentInPressRef = useRef(false);
+  // Seconds of audio sent since the microphone was opened
+  const sentSecondsRef = useRef(0);
+  const streamStartedAtRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    sendAudioRef.current = sendAudio;
+    commitRef.current = commit;
+  }, [sendAudio, commit]);
+
+  /**
+   * Stop talking and commit what was said during the press
+   */
+  const release = useCallback(() => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setIsTalking(false);
+    if (sentInPressRef.current) {
+      try {
+        commitRef.current();
+      } catch (error) {
+        console.error('Error committing push-to-talk audio:', error);
+      }
+    }
+  }, []);
+
+  /**
+   * Start talking: audio is sent until `release`
+   */
+  const press = useCallback(() => {
+    if (!cleanupRef.current || talkingRef.current) return;
+    talkingRef.current = true;
+    sentInPressRef.current = false;
+    streamStartedAtRef.current = new Date(Date.now() - sentSecondsRef.current * 1000).toISOString();
+    setIsTalking(true);
+  }, []);
+
+  /**
+   * Release the microphone, committing a press in progress
+   */
+  const close = useCallback(() => {
+    release();
+    cleanupRef.current?.();
+    cleanupRef.current = null;
+    streamStartedAtRef.current = null;
+    setIsOpen(false);
+  }, [release]);
+
+  /**
+   * Open the microphone for push-to-talk capture
+   *
+   * @param microphone - Microphone constraints
+   * @throws Error if the microphone cannot be opened
+   */
+  const open = useCallback(async (microphone: RecorderMicrophone) => {
+    close();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: microphone.echoCancellation,
+        noiseSuppression: microphone.noiseSuppression,
+        channelCount: 1,
+        ...(microphone.deviceId && { deviceId: { exact: microphone.deviceId } }),
+      },
+    });
+    const context = new AudioContext({ sampleRate: PUSH_TO_TALK_SAMPLE_RATE });
+    const source = context.createMediaStreamSource(stream);
+    const processor = context.createScriptProcessor(BUFFER_SIZE, 1, 1);
+
+    processor.onaudioprocess = event => {
+      if (!talkingRef.current) return;
+      const samples = event.inputBuffer.getChannelData(0);
+      try {
+        sendAudioRef.current(toPcm16Base64(samples));
+        sentSecondsRef.current += samples.length / PUSH_TO_TALK_SAMPLE_RATE;
+        sentInPressRef.current = true;
+      } catch (error) {
+        console.error('Error sending push-to-talk audio:', error);
+      }
+    };
+
+    // The processor only runs while connected to the destination; its output stays silent
+    source.connect(processor);
+    processor.connect(context.destination);
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    sentSecondsRef.current = 0;
+    cleanupRef.current = () => {
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      context.close().catch(() => {});
+    };
+    setIsOpen(true);
+  }, [close]);
+
+  /**
+   * Moment the audio sent to Scribe would have started were it continuous
+   * (for mapping the word offsets of the latest press to wall-clock time)
+   */
+  const getStreamStartedAt = useCallback(() => streamStartedAtRef.current, []);
+
+  // Release the microphone on unmount
+  useEffect(() => () => {
+    cleanupRef.current?.();
+    cleanupRef.current = null;
+  }, []);
+
+  return {
+    isOpen,
+    isTalking,
+    open,
+    close,
+    press,
+    release,
+    getStreamStartedAt,
+  };
+}
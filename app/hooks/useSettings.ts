@@ -1,5 +1,40 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Language } from '../translations';
+import { TimestampFormat } from '../utils/timeFormat';
+import type { ProviderId } from '../providers';
+import { HighlightRuleGroup, RuleSetImportMode, isDuplicateRule } from '../utils/highlightRuleSets';
+
+/**
+ * How a highlight rule's text is matched
+ * - 'word': a single word (or, with partial matching, any word containing it)
+ * - 'phrase': several words in a row, across any whitespace
+ * - 'regex': a regular expression, matched case-insensitively
+ */
+export type HighlightMatchType = 'word' | 'phrase' | 'regex';
+
+/**
+ * How word and phrase rules find inflected forms when partial matching is on
+ * - 'substring': any word containing the rule's word
+ * - 'finnish': words with the same Finnish stem (handles consonant gradation)
+ * - 'english': words with the same English stem
+ */
+export type PartialMatchMode = 'substring' | 'finnish' | 'english';
+
+/**
+ * Alert raised when a highlight rule matches a transcript
+ */
+export interface HighlightAlert {
+  /** Play an audible tone */
+  sound: boolean;
+  /** Show a desktop notification while the tab is in the background */
+  notification: boolean;
+  /** Flash the screen in the rule's color */
+  flash: boolean;
+  /** Also alert on partial (not yet committed) transcripts */
+  onPartial: boolean;
+  /** Seconds after an alert during which the rule does not alert again */
+  cooldownSeconds: number;
+}
 
 /**
  * Represents a word highlighting rule
@@ -7,12 +42,57 @@ import { Language } from '../translations';
 export interface HighlightRule {
   /** Unique identifier for the rule */
   id: string;
-  /** Word or word stem to highlight */
+  /** Word or word stem, phrase, or regular expression to highlight */
   word: string;
   /** Hex color code for highlighting (e.g., '#FFEB3B') */
   color: string;
+  /** How `word` is matched (rules saved before match types are 'word') */
+  matchType?: HighlightMatchType;
+  /** How inflected forms are found (rules saved before stemming are 'substring') */
+  partialMatchMode?: PartialMatchMode;
+  /** Edits per word allowed for near-miss matches (0 or undefined: exact words only) */
+  fuzzyTolerance?: number;
+  /** Alert raised when the rule matches (undefined: highlight only) */
+  alert?: HighlightAlert;
+}
+
+/**
+ * Named set of highlight rules for one kind of operation (e.g. SAR, firefighting)
+ */
+export interface HighlightProfile {
+  /** Unique identifier for the profile */
+  id: string;
+  /** User-given name (empty for the default profile created from older settings) */
+  name: string;
+  /** Highlight rules of the profile, in priority order */
+  rules: HighlightRule[];
 }
 
+/**
+ * Profile holding the rules saved before profiles existed, and the first
+ * profile of a new installation
+ */
+const DEFAULT_HIGHLIGHT_PROFILE: HighlightProfile = { id: 'default', name: '', rules: [] };
+
+/**
+ * Display name of a highlight profile
+ *
+ * @param profile - Highlight profile
+ * @param defaultName - Name shown for the unnamed default profile
+ * @returns Profile name
+ */
+export function getHighlightProfileName(profile: HighlightProfile, defaultName: string): string {
+  return profile.name || defaultName;
+}
+
+/**
+ * Which text exports use for entries that have been corrected
+ * - 'corrected': latest corrected text
+ * - 'original': original machine transcription
+ * - 'both': original and corrected text side by side
+ */
+export type ExportTextMode = 'corrected' | 'original' | 'both';
+
 /**
  * Custom React Hook for Managing Application Settings
  * 
@@ -23,18 +103,48 @@ export interface HighlightRule {
  * Settings Managed:
  * - Language preference (English/Finnish)
  * - ElevenLabs API key
+ * - Transcription provider (ElevenLabs or the offline simulator) and simulator scenario
+ * - Transcription language (independent of the UI language, or auto-detect)
+ * - Speaker diarization
+ * - Word confidence threshold for flagging words to review
  * - Audio processing options (echo cancellation, noise suppression)
- * - Microphone device selection
- * - Word highlighting rules with partial matching support
+ * - Local recording of the session audio
+ * - Microphone device selection, with a backup device for automatic fallback
+ * - Input watchdog delay (silent or clipping microphone)
+ * - Push-to-talk capture mode and key
+ * - Word highlighting rules with partial matching support, grouped in named
+ *   profiles of which several can be active at once (earlier profiles take
+ *   priority where their rules overlap), and optional per-rule keyword alerts
+ * - Recognition vocabulary sent to the provider alongside the highlight words
+ * - Export text mode for corrected entries
+ * - Hiding voided entries from the live view
+ * - Timestamp display format (local, UTC, session-elapsed)
  * 
  * LocalStorage Keys:
  * - 'language' - User interface language
  * - 'elevenlabs_api_key' - Custom API key
+ * - 'transcription_provider' - Transcription provider id
+ * - 'simulator_scenario' - Custom simulator scenario JSON (built-in scenario when absent)
+ * - 'transcription_language' - Spoken language code, or 'auto' to detect it
+ * - 'diarization' - Speaker diarization toggle
+ * - 'confidence_threshold' - Word confidence (%) below which words are flagged (0 = off)
  * - 'echo_cancellation' - Echo cancellation toggle
  * - 'noise_suppression' - Noise suppression toggle
+ * - 'record_audio' - Session audio recording toggle
  * - 'selected_microphone_id' - Selected microphone device ID
- * - 'highlight_rules' - JSON array of highlight rules
+ * - 'backup_microphone_id' - Device switched to if the selected one disappears
+ * - 'input_watchdog_seconds' - Seconds of silence/clipping before warning (0 = off)
+ * - 'push_to_talk' - Push-to-talk capture mode toggle
+ * - 'push_to_talk_key' - Key held to talk (KeyboardEvent.code)
+ * - 'highlight_profiles' - JSON array of highlight profiles with their rules
+ * - 'active_highlight_profiles' - JSON array of active highlight profile ids
+ * - 'highlight_rules' - Highlight rules saved before profiles (migrated to the default profile)
  * - 'partial_match_highlight' - Partial word matching toggle
+ * - 'vocabulary_terms' - JSON array of recognition vocabulary terms
+ * - 'newest_first' - Transcript order
+ * - 'export_text_mode' - Original/corrected text in exports
+ * - 'hide_voided' - Hide voided entries from the live view
+ * - 'timestamp_format' - Timestamp display format
  * 
  * @returns Settings state and updater functions
  * 
@@ -45,8 +155,8 @@ export interface HighlightRule {
  * // Change language
  * settings.updateLanguage('fi');
  * 
- * // Add highlight rule
- * settings.addHighlightRule('important', '#FFEB3B');
+ * // Add highlight rule to a profile
+ * settings.addHighlightRule(settings.highlightProfiles[0].id, 'important', '#FFEB3B');
  * 
  * // Toggle partial matching
  * settings.togglePartialMatchHighlight();
@@ -55,12 +165,27 @@ export interface HighlightRule {
 export function useSettings() {
   const [language, setLanguage] = useState<Language>('en');
   const [apiKey, setApiKey] = useState("");
+  const [transcriptionProvider, setTranscriptionProvider] = useState<ProviderId>('elevenlabs');
+  const [simulatorScenario, setSimulatorScenario] = useState("");
+  const [transcriptionLanguage, setTranscriptionLanguage] = useState('auto');
+  const [diarization, setDiarization] = useState(true);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(50);
   const [echoCancellation, setEchoCancellation] = useState(true);
   const [noiseSuppression, setNoiseSuppression] = useState(true);
+  const [recordAudio, setRecordAudio] = useState(true);
   const [selectedMicrophoneId, setSelectedMicrophoneId] = useState<string>("");
-  const [highlightRules, setHighlightRules] = useState<HighlightRule[]>([]);
+  const [backupMicrophoneId, setBackupMicrophoneId] = useState<string>("");
+  const [inputWatchdogSeconds, setInputWatchdogSeconds] = useState(10);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [pushToTalkKey, setPushToTalkKey] = useState('Space');
+  const [highlightProfiles, setHighlightProfiles] = useState<HighlightProfile[]>([DEFAULT_HIGHLIGHT_PROFILE]);
+  const [activeHighlightProfileIds, setActiveHighlightProfileIds] = useState<string[]>([DEFAULT_HIGHLIGHT_PROFILE.id]);
   const [partialMatchHighlight, setPartialMatchHighlight] = useState(true);
+  const [vocabularyTerms, setVocabularyTerms] = useState<string[]>([]);
   const [newestFirst, setNewestFirst] = useState(true);
+  const [exportTextMode, setExportTextMode] = useState<ExportTextMode>('corrected');
+  const [hideVoided, setHideVoided] = useState(false);
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat>('local');
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -73,7 +198,32 @@ export function useSettings() {
     if (savedKey) {
       setApiKey(savedKey);
     }
+
+    const savedProvider = localStorage.getItem('transcription_provider');
+    if (savedProvider === 'elevenlabs' || savedProvider === 'simulator') {
+      setTranscriptionProvider(savedProvider);
+    }
+
+    const savedScenario = localStorage.getItem('simulator_scenario');
+    if (savedScenario) {
+      setSimulatorScenario(savedScenario);
+    }
     
+    const savedTranscriptionLanguage = localStorage.getItem('transcription_language');
+    if (savedTranscriptionLanguage) {
+      setTranscriptionLanguage(savedTranscriptionLanguage);
+    }
+
+    const savedDiarization = localStorage.getItem('diarization');
+    if (savedDiarization !== null) {
+      setDiarization(savedDiarization === 'true');
+    }
+
+    const savedConfidenceThreshold = localStorage.getItem('confidence_threshold');
+    if (savedConfidenceThreshold !== null && !isNaN(Number(savedConfidenceThreshold))) {
+      setConfidenceThreshold(Math.min(100, Math.max(0, Number(savedConfidenceThreshold))));
+    }
+
     const savedEchoCancellation = localStorage.getItem('echo_cancellation');
     if (savedEchoCancellation !== null) {
       setEchoCancellation(savedEchoCancellation === 'true');
@@ -84,15 +234,60 @@ export function useSettings() {
       setNoiseSuppression(savedNoiseSuppression === 'true');
     }
 
+    const savedRecordAudio = localStorage.getItem('record_audio');
+    if (savedRecordAudio !== null) {
+      setRecordAudio(savedRecordAudio === 'true');
+    }
+
     const savedMicrophoneId = localStorage.getItem('selected_microphone_id');
     if (savedMicrophoneId) {
       setSelectedMicrophoneId(savedMicrophoneId);
     }
 
+    const savedBackupMicrophoneId = localStorage.getItem('backup_microphone_id');
+    if (savedBackupMicrophoneId) {
+      setBackupMicrophoneId(savedBackupMicrophoneId);
+    }
+
+    const savedWatchdogSeconds = localStorage.getItem('input_watchdog_seconds');
+    if (savedWatchdogSeconds !== null && !isNaN(Number(savedWatchdogSeconds))) {
+      setInputWatchdogSeconds(Math.max(0, Number(savedWatchdogSeconds)));
+    }
+
+    const savedPushToTalk = localStorage.getItem('push_to_talk');
+    if (savedPushToTalk !== null) {
+      setPushToTalk(savedPushToTalk === 'true');
+    }
+
+    const savedPushToTalkKey = localStorage.getItem('push_to_talk_key');
+    if (savedPushToTalkKey) {
+      setPushToTalkKey(savedPushToTalkKey);
+    }
+
+    const savedHighlightProfiles = localStorage.getItem('highlight_profiles');
     const savedHighlightRules = localStorage.getItem('highlight_rules');
-    if (savedHighlightRules) {
+    if (savedHighlightProfiles) {
       try {
-        setHighlightRules(JSON.parse(savedHighlightRules));
+        const profiles: HighlightProfile[] = JSON.parse(savedHighlightProfiles);
+        if (profiles.length > 0) {
+          setHighlightProfiles(profiles);
+        }
+      } catch (e) {
+        // Ignore invalid JSON
+      }
+    } else if (savedHighlightRules) {
+      // Rules saved before profiles become the default profile
+      try {
+        setHighlightProfiles([{ ...DEFAULT_HIGHLIGHT_PROFILE, rules: JSON.parse(savedHighlightRules) }]);
+      } catch (e) {
+        // Ignore invalid JSON
+      }
+    }
+
+    const savedActiveProfiles = localStorage.getItem('active_highlight_profiles');
+    if (savedActiveProfiles) {
+      try {
+        setActiveHighlightProfileIds(JSON.parse(savedActiveProfiles));
       } catch (e) {
         // Ignore invalid JSON
       }
@@ -103,10 +298,34 @@ export function useSettings() {
       setPartialMatchHighlight(savedPartialMatch === 'true');
     }
 
+    const savedVocabularyTerms = localStorage.getItem('vocabulary_terms');
+    if (savedVocabularyTerms) {
+      try {
+        setVocabularyTerms(JSON.parse(savedVocabularyTerms));
+      } catch (e) {
+        // Ignore invalid JSON
+      }
+    }
+
     const savedNewestFirst = localStorage.getItem('newest_first');
     if (savedNewestFirst !== null) {
       setNewestFirst(savedNewestFirst === 'true');
     }
+
+    const savedExportTextMode = localStorage.getItem('export_text_mode');
+    if (savedExportTextMode === 'corrected' || savedExportTextMode === 'original' || savedExportTextMode === 'both') {
+      setExportTextMode(savedExportTextMode);
+    }
+
+    const savedHideVoided = localStorage.getItem('hide_voided');
+    if (savedHideVoided !== null) {
+      setHideVoided(savedHideVoided === 'true');
+    }
+
+    const savedTimestampFormat = localStorage.getItem('timestamp_format');
+    if (savedTimestampFormat === 'local' || savedTimestampFormat === 'utc' || savedTimestampFormat === 'elapsed') {
+      setTimestampFormat(savedTimestampFormat);
+    }
   }, []);
 
   // Update language and persist
@@ -125,6 +344,41 @@ export function useSettings() {
     }
   };
 
+  // Update transcription provider and persist
+  const updateTranscriptionProvider = (provider: ProviderId) => {
+    setTranscriptionProvider(provider);
+    localStorage.setItem('transcription_provider', provider);
+  };
+
+  // Update simulator scenario JSON and persist (empty restores the built-in scenario)
+  const updateSimulatorScenario = (json: string) => {
+    setSimulatorScenario(json);
+    if (json) {
+      localStorage.setItem('simulator_scenario', json);
+    } else {
+      localStorage.removeItem('simulator_scenario');
+    }
+  };
+
+  // Update transcription language ('auto' to detect) and persist
+  const updateTranscriptionLanguage = (code: string) => {
+    setTranscriptionLanguage(code);
+    localStorage.setItem('transcription_language', code);
+  };
+
+  // Update speaker diarization and persist
+  const updateDiarization = (value: boolean) => {
+    setDiarization(value);
+    localStorage.setItem('diarization', String(value));
+  };
+
+  // Update word confidence threshold (percent, 0 = off) and persist
+  const updateConfidenceThreshold = (percent: number) => {
+    const value = Math.min(100, Math.max(0, Math.round(percent)));
+    setConfidenceThreshold(value);
+    localStorage.setItem('confidence_threshold', String(value));
+  };
+
   // Update echo cancellation and persist
   const updateEchoCancellation = (value: boolean) => {
     setEchoCancellation(value);
@@ -137,29 +391,171 @@ export function useSettings() {
     localStorage.setItem('noise_suppression', String(value));
   };
 
+  // Update audio recording setting
+  const updateRecordAudio = (value: boolean) => {
+    setRecordAudio(value);
+    localStorage.setItem('record_audio', String(value));
+  };
+
   // Update microphone and persist
   const updateMicrophone = (deviceId: string) => {
     setSelectedMicrophoneId(deviceId);
     localStorage.setItem('selected_microphone_id', deviceId);
   };
 
-  // Add highlight rule
-  const addHighlightRule = (word: string, color: string) => {
+  // Update backup microphone and persist
+  const updateBackupMicrophone = (deviceId: string) => {
+    setBackupMicrophoneId(deviceId);
+    localStorage.setItem('backup_microphone_id', deviceId);
+  };
+
+  // Update input watchdog delay and persist
+  const updateInputWatchdogSeconds = (seconds: number) => {
+    const value = Math.max(0, Math.round(seconds));
+    setInputWatchdogSeconds(value);
+    localStorage.setItem('input_watchdog_seconds', String(value));
+  };
+
+  // Update push-to-talk mode and persist
+  const updatePushToTalk = (value: boolean) => {
+    setPushToTalk(value);
+    localStorage.setItem('push_to_talk', String(value));
+  };
+
+  // Update push-to-talk key and persist
+  const updatePushToTalkKey = (code: string) => {
+    setPushToTalkKey(code);
+    localStorage.setItem('push_to_talk_key', code);
+  };
+
+  // Rules of the active profiles, in profile priority order
+  const highlightRules = useMemo(
+    () => highlightProfiles
+      .filter(profile => activeHighlightProfileIds.indexOf(profile.id) !== -1)
+      .reduce<HighlightRule[]>((rules, profile) => rules.concat(profile.rules), []),
+    [highlightProfiles, activeHighlightProfileIds]
+  );
+
+  // Persist highlight profiles
+  const saveHighlightProfiles = (updated: HighlightProfile[]) => {
+    setHighlightProfiles(updated);
+    localStorage.setItem('highlight_profiles', JSON.stringify(updated));
+  };
+
+  // Persist active highlight profile ids
+  const saveActiveHighlightProfileIds = (updated: string[]) => {
+    setActiveHighlightProfileIds(updated);
+    localStorage.setItem('active_highlight_profiles', JSON.stringify(updated));
+  };
+
+  // Add an empty, active highlight profile and return its id
+  const addHighlightProfile = (name: string): string => {
+    const profile: HighlightProfile = { id: Date.now().toString(), name: name.trim(), rules: [] };
+    saveHighlightProfiles([...highlightProfiles, profile]);
+    saveActiveHighlightProfileIds([...activeHighlightProfileIds, profile.id]);
+    return profile.id;
+  };
+
+  // Rename highlight profile
+  const renameHighlightProfile = (id: string, name: string) => {
+    saveHighlightProfiles(highlightProfiles.map(profile => profile.id === id ? { ...profile, name: name.trim() } : profile));
+  };
+
+  // Remove highlight profile with its rules (the last profile is kept)
+  const removeHighlightProfile = (id: string) => {
+    if (highlightProfiles.length <= 1) return;
+    saveHighlightProfiles(highlightProfiles.filter(profile => profile.id !== id));
+    saveActiveHighlightProfileIds(activeHighlightProfileIds.filter(activeId => activeId !== id));
+  };
+
+  // Move highlight profile up (-1) or down (1) in priority
+  const moveHighlightProfile = (id: string, offset: -1 | 1) => {
+    const index = highlightProfiles.findIndex(profile => profile.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= highlightProfiles.length) return;
+    const updated = [...highlightProfiles];
+    updated[index] = highlightProfiles[target];
+    updated[target] = highlightProfiles[index];
+    saveHighlightProfiles(updated);
+  };
+
+  // Activate or deactivate highlight profile
+  const toggleHighlightProfile = (id: string) => {
+    saveActiveHighlightProfileIds(activeHighlightProfileIds.indexOf(id) !== -1
+      ? activeHighlightProfileIds.filter(activeId => activeId !== id)
+      : [...activeHighlightProfileIds, id]);
+  };
+
+  // Add highlight rule to a profile
+  const addHighlightRule = (
+    profileId: string,
+    word: string,
+    color: string,
+    matchType: HighlightMatchType = 'word',
+    partialMatchMode: PartialMatchMode = 'substring',
+    fuzzyTolerance: number = 0,
+    alert?: HighlightAlert
+  ) => {
     const newRule: HighlightRule = {
       id: Date.now().toString(),
-      word: word.trim(),
+      word: matchType === 'regex' ? word : word.trim(),
       color,
+      matchType,
+      ...(matchType !== 'regex' && { partialMatchMode }),
+      ...(matchType !== 'regex' && fuzzyTolerance > 0 && { fuzzyTolerance }),
+      ...(alert && { alert }),
     };
-    const updated = [...highlightRules, newRule];
-    setHighlightRules(updated);
-    localStorage.setItem('highlight_rules', JSON.stringify(updated));
+    saveHighlightProfiles(highlightProfiles.map(profile =>
+      profile.id === profileId ? { ...profile, rules: [...profile.rules, newRule] } : profile
+    ));
   };
 
-  // Remove highlight rule
+  // Remove highlight rule from whichever profile holds it
   const removeHighlightRule = (id: string) => {
-    const updated = highlightRules.filter(rule => rule.id !== id);
-    setHighlightRules(updated);
-    localStorage.setItem('highlight_rules', JSON.stringify(updated));
+    saveHighlightProfiles(highlightProfiles.map(profile => ({
+      ...profile,
+      rules: profile.rules.filter(rule => rule.id !== id),
+    })));
+  };
+
+  // Import rule groups into the profiles of the same name (created and
+  // activated if missing), skipping rules the profile already has; the
+  // unnamed group goes to the default profile, whatever it is called now
+  const importHighlightRules = (groups: HighlightRuleGroup[], mode: RuleSetImportMode) => {
+    let profiles = highlightProfiles;
+    const activeIds = [...activeHighlightProfileIds];
+    const idBase = Date.now().toString();
+    let added = 0;
+    let duplicates = 0;
+
+    groups.forEach((group, groupIndex) => {
+      const isDefaultGroup = group.name.trim() === '';
+      let profile = isDefaultGroup
+        ? profiles.find(p => p.id === DEFAULT_HIGHLIGHT_PROFILE.id)
+        : profiles.find(p => p.name.trim().toLowerCase() === group.name.trim().toLowerCase());
+      if (!profile) {
+        profile = isDefaultGroup
+          ? { ...DEFAULT_HIGHLIGHT_PROFILE }
+          : { id: `${idBase}-${groupIndex}`, name: group.name.trim(), rules: [] };
+        profiles = [...profiles, profile];
+        activeIds.push(profile.id);
+      }
+      const rules: HighlightRule[] = mode === 'replace' ? [] : [...profile.rules];
+      group.rules.forEach((rule, ruleIndex) => {
+        if (rules.some(existing => isDuplicateRule(existing, rule))) {
+          duplicates++;
+          return;
+        }
+        rules.push({ ...rule, id: `${idBase}-${groupIndex}-${ruleIndex}` });
+        added++;
+      });
+      const profileId = profile.id;
+      profiles = profiles.map(p => p.id === profileId ? { ...p, rules } : p);
+    });
+
+    saveHighlightProfiles(profiles);
+    saveActiveHighlightProfileIds(activeIds);
+    return { added, duplicates };
   };
 
   // Update partial match setting
@@ -168,29 +564,102 @@ export function useSettings() {
     localStorage.setItem('partial_match_highlight', String(value));
   };
 
+  // Add recognition vocabulary term, ignoring duplicates
+  const addVocabularyTerm = (term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed || vocabularyTerms.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+      return;
+    }
+    const updated = [...vocabularyTerms, trimmed];
+    setVocabularyTerms(updated);
+    localStorage.setItem('vocabulary_terms', JSON.stringify(updated));
+  };
+
+  // Remove recognition vocabulary term
+  const removeVocabularyTerm = (term: string) => {
+    const updated = vocabularyTerms.filter(existing => existing !== term);
+    setVocabularyTerms(updated);
+    localStorage.setItem('vocabulary_terms', JSON.stringify(updated));
+  };
+
   // Update transcript order setting
   const updateNewestFirst = (value: boolean) => {
     setNewestFirst(value);
     localStorage.setItem('newest_first', String(value));
   };
 
+  // Update export text mode and persist
+  const updateExportTextMode = (mode: ExportTextMode) => {
+    setExportTextMode(mode);
+    localStorage.setItem('export_text_mode', mode);
+  };
+
+  // Update voided entry visibility setting
+  const updateHideVoided = (value: boolean) => {
+    setHideVoided(value);
+    localStorage.setItem('hide_voided', String(value));
+  };
+
+  // Update timestamp display format and persist
+  const updateTimestampFormat = (format: TimestampFormat) => {
+    setTimestampFormat(format);
+    localStorage.setItem('timestamp_format', format);
+  };
+
   return {
     language,
     apiKey,
+    transcriptionProvider,
+    simulatorScenario,
+    transcriptionLanguage,
+    diarization,
+    confidenceThreshold,
     echoCancellation,
     noiseSuppression,
+    recordAudio,
     selectedMicrophoneId,
+    backupMicrophoneId,
+    inputWatchdogSeconds,
+    pushToTalk,
+    pushToTalkKey,
+    highlightProfiles,
+    activeHighlightProfileIds,
     highlightRules,
     partialMatchHighlight,
+    vocabularyTerms,
     newestFirst,
+    exportTextMode,
+    hideVoided,
+    timestampFormat,
     updateLanguage,
     updateApiKey,
+    updateTranscriptionProvider,
+    updateSimulatorScenario,
+    updateTranscriptionLanguage,
+    updateDiarization,
+    updateConfidenceThreshold,
     updateEchoCancellation,
     updateNoiseSuppression,
+    updateRecordAudio,
     updateMicrophone,
+    updateBackupMicrophone,
+    updateInputWatchdogSeconds,
+    updatePushToTalk,
+    updatePushToTalkKey,
+    addHighlightProfile,
+    renameHighlightProfile,
+    removeHighlightProfile,
+    moveHighlightProfile,
+    toggleHighlightProfile,
     addHighlightRule,
     removeHighlightRule,
+    importHighlightRules,
     updatePartialMatchHighlight,
+    addVocabularyTerm,
+    removeVocabularyTerm,
     updateNewestFirst,
+    updateExportTextMode,
+    updateHideVoided,
+    updateTimestampFormat,
   };
 }
@@ -1,41 +1,65 @@
 "use client"
 
-import { useScribe } from "@elevenlabs/react";
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { translations } from "./translations";
-import { useSettings } from "./hooks/useSettings";
+import { useSettings, ExportTextMode, HighlightMatchType, PartialMatchMode, HighlightAlert, getHighlightProfileName } from "./hooks/useSettings";
 import { useMicrophones } from "./hooks/useMicrophones";
-import { exportAsCSV, exportAsPDF } from "./utils/exportUtils";
+import { useLedger, getEntryText, getSpeakerName, getHighlightProfileChanges, needsReview, toTimeline, TranscriptEntry } from "./hooks/useLedger";
+import { useAudioRecorder } from "./hooks/useAudioRecorder";
+import { useInputLevel } from "./hooks/useInputLevel";
+import { usePushToTalk } from "./hooks/usePushToTalk";
+import { useKeywordAlerts, requestNotificationPermission, ALERT_FLASH_MS } from "./hooks/useKeywordAlerts";
+import { useTranscriptionProvider, ProviderId, PROVIDER_CAPABILITIES } from "./providers";
+import { DEFAULT_SCENARIO, parseScenario } from "./providers/simulatorScenario";
+import { exportAsCSV, exportAsPDF, exportAsJSON, exportAsSubtitles, exportAudio, exportHighlightRules, toFilenameBase, ExportMetadata } from "./utils/exportUtils";
+import { parseRuleSet, RuleSetImportMode } from "./utils/highlightRuleSets";
+import { loadRecordings, loadRecordingAudio } from "./utils/ledgerStorage";
+import { getChainHead } from "./utils/hashChain";
+import { formatEntryTime, formatClockTime, TimestampFormat } from "./utils/timeFormat";
+import { buildVocabulary } from "./utils/vocabulary";
+import { getLowConfidenceWords } from "./utils/wordTimings";
 import Header from "./components/Header";
 import Notification from "./components/Notification";
 import StatusIndicator from "./components/StatusIndicator";
+import KeywordAlertLog from "./components/KeywordAlertLog";
+import PushToTalkButton from "./components/PushToTalkButton";
 import TranscriptDisplay from "./components/TranscriptDisplay";
+import ManualEntryComposer from "./components/ManualEntryComposer";
 import Footer from "./components/Footer";
 import SettingsPanel from "./components/SettingsPanel";
 import ApiKeyModal from "./components/ApiKeyModal";
 import FirstTimeNotices from "./components/FirstTimeNotices";
+import RecoveryPrompt from "./components/RecoveryPrompt";
+import SessionLibrary from "./components/SessionLibrary";
+import ChainVerification from "./components/ChainVerification";
 
 /**
- * Fetches a single-use authentication token from the ElevenLabs API
- * 
- * @param customApiKey - Optional custom API key provided by user through UI
- * @returns Promise resolving to authentication token
- * @throws Error if token fetch fails
+ * Delay before the first reconnect attempt after a dropped connection
  */
-async function fetchTokenFromServer(customApiKey?: string): Promise<string> {
-  const response = await fetch("/api/token", {
-    method: "GET",
-    headers: customApiKey ? {
-      'X-Custom-API-Key': customApiKey
-    } : {}
-  });
-  const data = await response.json();
-  
-  if (!response.ok) {
-    throw new Error(data.error || "Failed to fetch token");
-  }
-  
-  return data.token;
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest delay between reconnect attempts
+ */
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * How long a reconnected connection must stay up before a new drop starts
+ * the backoff over from the first attempt
+ */
+const RECONNECT_STABLE_MS = 60000;
+
+/**
+ * Whether retrying can fix a failed connection
+ * Invalid or revoked keys, exhausted credits, unaccepted terms, rejected
+ * input (e.g. an unsupported language), denied microphones and unsupported
+ * browsers stay broken however often we retry
+ */
+function isRetryableConnectionError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return !['does not support', 'Permission denied', 'NotAllowedError', 'Krediitit', 'QUOTA_EXCEEDED', 'INVALID_API_KEY', 'Invalid API key',
+    'auth_error', 'quota_exceeded', 'unaccepted_terms', 'input_error']
+    .some(marker => message.includes(marker));
 }
 
 /**
@@ -44,12 +68,19 @@ async function fetchTokenFromServer(customApiKey?: string): Promise<string> {
  * comLedger - Professional real-time speech-to-text transcription application
  * 
  * Features:
- * - Real-time transcription with ElevenLabs Scribe v2 API
+ * - Real-time transcription with ElevenLabs Scribe v2 API (pluggable providers)
+ * - Offline simulator replaying scripted scenarios for demos and training
+ * - Open-mic or push-to-talk capture
  * - Smart word highlighting with partial matching for inflected forms
+ * - Keyword alerts (tone, desktop notification, screen flash) per highlight rule
  * - Bilingual interface (English/Finnish)
  * - Export to PDF and CSV with highlights preserved
  * - WCAG 2.1 AA accessibility compliance
  * - Auto-save of partial transcripts on disconnect
+ * - Automatic reconnect with gap entries marking the lost coverage
+ * - Crash recovery of the ledger via IndexedDB
+ * - Library of named sessions (open, rename, duplicate, archive, delete)
+ * - Tamper-evident SHA-256 hash chain over ledger entries
  * - Persistent settings via localStorage
  * 
  * @component
@@ -57,6 +88,8 @@ async function fetchTokenFromServer(customApiKey?: string): Promise<string> {
 export default function Page() {
   // UI state
   const [showSettings, setShowSettings] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showVerification, setShowVerification] = useState(false);
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [tempApiKey, setTempApiKey] = useState("");
   const [notification, setNotification] = useState<{
@@ -64,23 +97,58 @@ export default function Page() {
     type: 'error' | 'success' | 'info';
   } | null>(null);
   
-  // Transcript data
-  const [transcriptsWithTimestamps, setTranscriptsWithTimestamps] = useState<Array<{
-    id: string;
-    text: string;
-    timestamp: string;
-  }>>([]);
-
+  // Transcription language of the open connection, undefined when auto-detected
+  const connectedLanguageRef = useRef<string | undefined>(undefined);
+  // Number of the reconnect attempt in progress, null while not reconnecting
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null);
+  // When the connection dropped, while reconnecting
+  const reconnectRef = useRef<{ droppedAt: string } | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Attempt that last reconnected and when, so a connection that keeps dropping keeps backing off
+  const lastReconnectRef = useRef<{ attempt: number; connectedAt: number } | null>(null);
+  // Last error reported by the open connection, to tell fatal closes from drops
+  const connectionErrorRef = useRef<Error | null>(null);
+  // Set when the user stops recording, so the disconnect is not taken for a drop
+  const userStopRef = useRef(false);
+  // Microphone to reconnect with once the current connection has closed
+  const restartDeviceRef = useRef<string | null>(null);
+  // Device ids seen in the previous microphone list, to notice removals
+  const previousMicrophoneIdsRef = useRef<string[]>([]);
+  // Microphone the current recording uses: the selected one, or the backup after a fallback
+  const [activeMicrophoneId, setActiveMicrophoneId] = useState("");
+  // Latest connection state and microphones, read when the device list changes
+  const microphoneStateRef = useRef({ isConnected: false, activeMicrophoneId: "", selectedMicrophoneId: "", backupMicrophoneId: "" });
   // Reference to store the latest partial transcript
   const lastPartialTranscriptRef = useRef<string>("");
+  // Wall-clock start of the current recording, set when the provider starts the session
+  const recordingStartedAtRef = useRef<string | null>(null);
 
-  // Custom hooks for settings and microphone management
+  // Custom hooks for settings, microphone management and the persisted ledger
   const settings = useSettings();
   const availableMicrophones = useMicrophones();
+  const ledger = useLedger();
+  const audioRecorder = useAudioRecorder();
+  const transcriptsWithTimestamps = ledger.entries;
   
   // Current translation object based on selected language
   const t = translations[settings.language];
 
+  // Tone, notification and flash for highlight rules with an alert
+  const keywordAlerts = useKeywordAlerts(settings.highlightRules, settings.partialMatchHighlight, t.keywordAlert);
+
+  /**
+   * Tell the operator when an entry could not be sealed, as it will not
+   * pass verification
+   */
+  useEffect(() => {
+    if (!ledger.sealingError) return;
+    setNotification({
+      message: `${t.sealingFailed}: ${ledger.sealingError.message}`,
+      type: 'error'
+    });
+    setTimeout(() => setNotification(null), 5000);
+  }, [ledger.sealingError]);
+
   /**
    * Check for HTTPS on mount
    * Required for microphone access on mobile browsers
@@ -95,14 +163,26 @@ export default function Page() {
       });
     }
   }, []);
+
+  // Scenario replayed by the simulator provider (built-in unless one was loaded)
+  const simulatorScenario = useMemo(() => {
+    if (!settings.simulatorScenario) return DEFAULT_SCENARIO;
+    try {
+      return parseScenario(settings.simulatorScenario);
+    } catch (error) {
+      console.error("Invalid simulator scenario, using the built-in one:", error);
+      return DEFAULT_SCENARIO;
+    }
+  }, [settings.simulatorScenario]);
+
   /**
-   * Initialize ElevenLabs Scribe hook for real-time transcription
+   * Initialize the speech-to-text provider for real-time transcription
    * Handles connection lifecycle and transcript events
    */
-  const scribe = useScribe({
-    modelId: "scribe_v2_realtime",
-    onConnect: () => {
-      console.log("✅ Connected successfully!");
+  const transcription = useTranscriptionProvider({
+    onSessionStarted: () => {
+      // Word timings are relative to the start of the audio stream
+      recordingStartedAtRef.current = new Date().toISOString();
     },
     onDisconnect: () => {
       console.log("❌ Disconnected");
@@ -110,106 +190,207 @@ export default function Page() {
       // Save partial transcript if it exists when disconnecting
       const partialText = lastPartialTranscriptRef.current;
       if (partialText && partialText.trim()) {
-        const now = new Date();
-        const timestamp = now.toLocaleTimeString('fi-FI', { 
-          hour: '2-digit', 
-          minute: '2-digit',
-          second: '2-digit'
-        });
-        
-        setTranscriptsWithTimestamps(prev => {
-          // Check if this partial transcript is already saved
-          if (prev.some(t => t.text === partialText)) {
-            return prev;
-          }
-          // Add the partial transcript to confirmed transcripts
+        // Add the partial transcript to confirmed transcripts unless already saved
+        if (ledger.addEntry(partialText, undefined, audioRecorder.getCurrentRecording(), connectedLanguageRef.current)) {
           console.log("📝 Saving partial transcript on disconnect:", partialText);
-          return [...prev, {
-            id: `${Date.now()}-${Math.random()}`,
-            text: partialText,
-            timestamp
-          }];
-        });
+        }
         
         // Clear the reference after saving
         lastPartialTranscriptRef.current = "";
+        ledger.persistPartial("");
+      }
+
+      // Stop the local audio recording and push-to-talk capture with the connection
+      audioRecorder.stop();
+      pushToTalk.close();
+
+      // Reconnect after a switch to the backup microphone
+      const restartDeviceId = restartDeviceRef.current;
+      if (restartDeviceId !== null) {
+        restartDeviceRef.current = null;
+        handleStart(restartDeviceId);
+      } else if (userStopRef.current) {
+        userStopRef.current = false;
+      } else if (connectionErrorRef.current && !isRetryableConnectionError(connectionErrorRef.current)) {
+        // Closed by an error that reconnecting cannot fix (quota, revoked key, ...)
+        const error = connectionErrorRef.current;
+        console.error("❌ Connection closed by a fatal error, not reconnecting:", error);
+        lastReconnectRef.current = null;
+        setNotification({
+          message: describeConnectionError(error),
+          type: 'error'
+        });
+        setTimeout(() => setNotification(null), 10000);
+      } else if (!reconnectRef.current) {
+        // The connection dropped: reconnect and note the gap once back,
+        // continuing the backoff if the last reconnect did not hold
+        const lastReconnect = lastReconnectRef.current;
+        const attempt = lastReconnect && Date.now() - lastReconnect.connectedAt < RECONNECT_STABLE_MS
+          ? lastReconnect.attempt + 1
+          : 1;
+        reconnectRef.current = { droppedAt: new Date().toISOString() };
+        scheduleReconnect(attempt);
       }
     },
     onError: (error) => {
       console.error("🚨 Error:", error);
-      const errorMessage = error instanceof Error ? error.message : t.unknownError;
+      connectionErrorRef.current = error;
       setNotification({
-        message: `${t.connectionError}: ${errorMessage}`,
+        message: `${t.connectionError}: ${error.message || t.unknownError}`,
         type: 'error'
       });
       setTimeout(() => setNotification(null), 5000);
     },
-    onPartialTranscript: (data) => {
-      console.log("⚡ Partial:", data.text);
-      // Store the latest partial transcript in ref
-      lastPartialTranscriptRef.current = data.text;
+    onPartialTranscript: (text) => {
+      console.log("⚡ Partial:", text);
+      // Store the latest partial transcript in ref and persist it for crash recovery
+      lastPartialTranscriptRef.current = text;
+      ledger.persistPartial(text);
+      keywordAlerts.checkTranscript(text, 'partial');
     },
-    onCommittedTranscriptWithTimestamps: (data) => {
+    onCommittedTranscript: (data) => {
       console.log("✅ Committed:", data.text);
-      const now = new Date();
-      const timestamp = now.toLocaleTimeString('fi-FI', { 
-        hour: '2-digit', 
-        minute: '2-digit',
-        second: '2-digit'
-      });
       
       // Clear the partial transcript ref since it's now committed
       lastPartialTranscriptRef.current = "";
+      ledger.persistPartial("");
       
-      // Add to transcripts list, avoiding duplicates
-      setTranscriptsWithTimestamps(prev => {
-        if (prev.some(t => t.text === data.text)) {
-          return prev;
-        }
-        return [...prev, {
-          id: `${Date.now()}-${Math.random()}`,
-          text: data.text,
-          timestamp
-        }];
-      });
+      // Add to transcripts list (persisted to IndexedDB), avoiding duplicates
+      // In push-to-talk mode word offsets skip the time between presses
+      // Record the language the provider heard, or the one it was told to expect
+      const recordingStartedAt = pushToTalk.getStreamStartedAt() ?? recordingStartedAtRef.current;
+      ledger.addEntry(
+        data.text,
+        recordingStartedAt ? { recordingStartedAt, words: data.words } : undefined,
+        audioRecorder.getCurrentRecording(),
+        data.languageCode ?? connectedLanguageRef.current
+      );
+      keywordAlerts.checkTranscript(data.text, 'committed');
     },
+  }, {
+    provider: settings.transcriptionProvider,
+    apiKey: settings.apiKey,
+    simulatorScenario,
   });
 
+  // Push-to-talk capture, feeding the provider only while talk is held
+  const pushToTalk = usePushToTalk(transcription.sendAudio, transcription.commit);
+
+  // Live input level and silent/clipping microphone watchdog while recording
+  const inputLevel = useInputLevel(transcription.isConnected && transcription.usesMicrophone, activeMicrophoneId, settings.inputWatchdogSeconds);
+
+  /**
+   * Connect the provider to the microphone, with push-to-talk capture and
+   * local audio recording as configured
+   *
+   * @param deviceId - Microphone to record from
+   * @returns false if the audio could not be recorded locally
+   * @throws Error if the connection cannot be opened
+   */
+  const connectTranscription = async (deviceId: string) => {
+    // Highlight words and the vocabulary list bias recognition, where the provider supports it
+    const capabilities = PROVIDER_CAPABILITIES[settings.transcriptionProvider];
+    const keyterms = capabilities.keyterms ? buildVocabulary(settings.highlightRules, settings.vocabularyTerms) : [];
+
+    // Check if browser supports required APIs
+    if (transcription.usesMicrophone && (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia)) {
+      throw new Error('Your browser does not support audio recording. Please use a modern browser like Chrome, Safari, or Firefox.');
+    }
+
+    console.log("🔄 Connecting to microphone...");
+    console.log("Device info:", {
+      userAgent: navigator.userAgent,
+      platform: navigator.platform,
+      echoCancellation: settings.echoCancellation,
+      noiseSuppression: settings.noiseSuppression,
+      selectedMicrophoneId: deviceId,
+      pushToTalk: settings.pushToTalk,
+      provider: settings.transcriptionProvider,
+      transcriptionLanguage: settings.transcriptionLanguage,
+      vocabularyTerms: keyterms.length,
+      diarization: settings.diarization
+    });
+
+    const microphone = {
+      echoCancellation: settings.echoCancellation,
+      noiseSuppression: settings.noiseSuppression,
+      ...(deviceId && { deviceId }),
+    };
+
+    // Connect with microphone settings; in push-to-talk mode audio is
+    // streamed by us and committed on every release
+    recordingStartedAtRef.current = null;
+    userStopRef.current = false;
+    connectionErrorRef.current = null;
+    setActiveMicrophoneId(deviceId);
+    microphoneStateRef.current.activeMicrophoneId = deviceId;
+    const languageCode = settings.transcriptionLanguage !== 'auto' ? settings.transcriptionLanguage : undefined;
+    const diarize = settings.diarization && capabilities.diarization;
+    connectedLanguageRef.current = languageCode;
+    if (!transcription.usesMicrophone) {
+      await transcription.connect({ languageCode, keyterms, diarize });
+    } else if (settings.pushToTalk) {
+      await transcription.connect({ manualCommit: true, languageCode, keyterms, diarize });
+      try {
+        await pushToTalk.open(microphone);
+      } catch (error) {
+        userStopRef.current = true;
+        transcription.disconnect();
+        throw error;
+      }
+    } else {
+      await transcription.connect({ microphone, languageCode, keyterms, diarize });
+    }
+    console.log("✅ Connected successfully!");
+
+    // Record the microphone locally alongside the transcription
+    if (settings.recordAudio && transcription.usesMicrophone) {
+      const recording = await audioRecorder.start(ledger.ensureSession().id, microphone);
+      return recording !== null;
+    }
+    return true;
+  };
+
+  /**
+   * User-facing message for a failed connection
+   */
+  const describeConnectionError = (error: unknown) => {
+    let errorMessage = t.unknownError;
+    if (error instanceof Error) {
+      errorMessage = error.message;
+      
+      // Check for specific error types
+      if (errorMessage.includes('does not support')) {
+        errorMessage = `🚫 ${t.browserNotSupported}. ${t.useModernBrowser}`;
+      } else if (errorMessage.includes('Permission denied') || errorMessage.includes('NotAllowedError')) {
+        errorMessage = `🎤 ${t.microphonePermissionDenied}`;
+      } else if (errorMessage.includes('Krediitit') || errorMessage.includes('QUOTA_EXCEEDED')) {
+        errorMessage = `💳 ${t.creditsExhausted}`;
+      } else if (errorMessage.includes('INVALID_API_KEY')) {
+        errorMessage = `🔑 ${t.invalidApiKey}`;
+      }
+    }
+    return errorMessage;
+  };
+
   /**
    * Start recording handler
-   * Validates browser support, fetches token, and connects to microphone
+   * Validates browser support and connects the provider to the microphone
+   *
+   * @param deviceId - Microphone to record from, defaults to the selected one
    */
-  const handleStart = async () => {
+  const handleStart = async (deviceId: string = settings.selectedMicrophoneId) => {
+    lastReconnectRef.current = null;
     try {
-      // Check if browser supports required APIs
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        throw new Error('Your browser does not support audio recording. Please use a modern browser like Chrome, Safari, or Firefox.');
+      if (!await connectTranscription(deviceId)) {
+        setNotification({
+          message: t.audioRecordingUnavailable,
+          type: 'info'
+        });
+        setTimeout(() => setNotification(null), 5000);
+        return;
       }
 
-      // Fetch a single use token from the server
-      console.log("🔄 Fetching token...");
-      const token = await fetchTokenFromServer(settings.apiKey || undefined);
-      console.log("✅ Token received:", token.substring(0, 20) + "...");
-
-      console.log("🔄 Connecting to microphone...");
-      console.log("Device info:", {
-        userAgent: navigator.userAgent,
-        platform: navigator.platform,
-        echoCancellation: settings.echoCancellation,
-        noiseSuppression: settings.noiseSuppression,
-        selectedMicrophoneId: settings.selectedMicrophoneId
-      });
-
-      // Connect with microphone settings
-      await scribe.connect({
-        token,
-        microphone: {
-          echoCancellation: settings.echoCancellation,
-          noiseSuppression: settings.noiseSuppression,
-          ...(settings.selectedMicrophoneId && { deviceId: settings.selectedMicrophoneId }),
-        },
-      });
-      console.log("✅ Connected successfully!");
       setNotification({
         message: t.recordingStarted,
         type: 'success'
@@ -217,25 +398,8 @@ export default function Page() {
       setTimeout(() => setNotification(null), 3000);
     } catch (error) {
       console.error("❌ Connection error:", error);
-      
-      let errorMessage = t.unknownError;
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        
-        // Check for specific error types
-        if (errorMessage.includes('does not support')) {
-          errorMessage = `🚫 ${t.browserNotSupported}. ${t.useModernBrowser}`;
-        } else if (errorMessage.includes('Permission denied') || errorMessage.includes('NotAllowedError')) {
-          errorMessage = `🎤 ${t.microphonePermissionDenied}`;
-        } else if (errorMessage.includes('Krediitit') || errorMessage.includes('QUOTA_EXCEEDED')) {
-          errorMessage = `💳 ${t.creditsExhausted}`;
-        } else if (errorMessage.includes('INVALID_API_KEY')) {
-          errorMessage = `🔑 ${t.invalidApiKey}`;
-        }
-      }
-      
       setNotification({
-        message: errorMessage,
+        message: describeConnectionError(error),
         type: 'error'
       });
       // Keep error notifications longer
@@ -243,6 +407,79 @@ export default function Page() {
     }
   };
 
+  /**
+   * Stop reconnecting and note the gap in coverage in the ledger
+   */
+  const endReconnect = () => {
+    const reconnect = reconnectRef.current;
+    if (!reconnect) return;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectRef.current = null;
+    setReconnectAttempt(null);
+    ledger.addSystemNote(`${t.gapNote}: ${formatClockTime(reconnect.droppedAt)}–${formatClockTime(new Date().toISOString())}`);
+  };
+
+  /**
+   * Try to reconnect after the connection dropped, backing off exponentially
+   * Keeps trying until connected, the error cannot be fixed by retrying, or
+   * the user stops recording. Every attempt fetches a fresh token. The
+   * attempt count is kept until the connection has stayed up for
+   * RECONNECT_STABLE_MS, so a connection that drops right after
+   * reconnecting does not retry (and note a gap) every second.
+   *
+   * @param attempt - Number of this attempt, starting from 1
+   */
+  const scheduleReconnect = (attempt: number) => {
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+    console.log(`🔄 Reconnecting in ${delay} ms (attempt ${attempt})`);
+    setReconnectAttempt(attempt);
+
+    reconnectTimerRef.current = setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      try {
+        // Stay on the microphone that was in use, which may be the backup
+        await connectTranscription(microphoneStateRef.current.activeMicrophoneId);
+      } catch (error) {
+        console.error("❌ Reconnect failed:", error);
+        // Stopped by the user meanwhile
+        if (!reconnectRef.current) return;
+        if (isRetryableConnectionError(error)) {
+          scheduleReconnect(attempt + 1);
+        } else {
+          endReconnect();
+          setNotification({
+            message: describeConnectionError(error),
+            type: 'error'
+          });
+          setTimeout(() => setNotification(null), 10000);
+        }
+        return;
+      }
+
+      // Stopped by the user while connecting
+      if (!reconnectRef.current) {
+        userStopRef.current = true;
+        transcription.disconnect();
+        return;
+      }
+      lastReconnectRef.current = { attempt, connectedAt: Date.now() };
+      endReconnect();
+      setNotification({
+        message: t.reconnected,
+        type: 'success'
+      });
+      setTimeout(() => setNotification(null), 3000);
+    }, delay);
+  };
+
+  // Stop a pending reconnect on unmount
+  useEffect(() => () => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+  }, []);
+
   /**
    * Save API key handler
    */
@@ -315,6 +552,136 @@ export default function Page() {
     setTimeout(() => setNotification(null), 2000);
   };
 
+  /**
+   * Toggle audio recording handler
+   */
+  const handleToggleRecordAudio = () => {
+    const newValue = !settings.recordAudio;
+    settings.updateRecordAudio(newValue);
+    setNotification({
+      message: newValue ? t.recordAudioEnabled : t.recordAudioDisabled,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Toggle speaker diarization handler
+   * Takes effect the next time recording starts
+   */
+  const handleToggleDiarization = () => {
+    const newValue = !settings.diarization;
+    settings.updateDiarization(newValue);
+    setNotification({
+      message: newValue ? t.diarizationEnabled : t.diarizationDisabled,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Rename a diarized speaker of the open session (e.g. to a callsign)
+   * An empty name restores the default speaker label
+   */
+  const handleRenameSpeaker = (speakerId: string, name: string) => {
+    const session = ledger.activeSession;
+    if (!session) return;
+    const speakerNames = { ...session.speakerNames };
+    if (name.trim()) {
+      speakerNames[speakerId] = name.trim();
+    } else {
+      delete speakerNames[speakerId];
+    }
+    ledger.updateSession(session.id, { speakerNames });
+  };
+
+  /**
+   * Names of the active highlight profiles, in priority order
+   */
+  const activeHighlightProfileNames = settings.highlightProfiles
+    .filter(profile => settings.activeHighlightProfileIds.indexOf(profile.id) !== -1)
+    .map(profile => getHighlightProfileName(profile, t.defaultHighlightProfile));
+
+  /**
+   * Record every change of the active highlight profiles in the open session,
+   * so the session shows which profiles were in use and when
+   */
+  useEffect(() => {
+    const session = ledger.activeSession;
+    if (!session || session.endedAt) return;
+    const changes = getHighlightProfileChanges(session);
+    const last = changes[changes.length - 1];
+    if (last && last.profiles.join('\n') === activeHighlightProfileNames.join('\n')) return;
+    ledger.updateSession(session.id, {
+      highlightProfileChanges: [...changes, { changedAt: new Date().toISOString(), profiles: activeHighlightProfileNames }],
+    });
+  }, [ledger.activeSession, activeHighlightProfileNames.join('\n')]);
+
+  /**
+   * Toggle push-to-talk mode handler
+   * Takes effect the next time recording starts
+   */
+  const handleTogglePushToTalk = () => {
+    const newValue = !settings.pushToTalk;
+    settings.updatePushToTalk(newValue);
+    setNotification({
+      message: newValue ? t.pushToTalkEnabled : t.pushToTalkDisabled,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Hold the push-to-talk key to talk
+   * Ignored while typing in a text field
+   */
+  useEffect(() => {
+    if (!pushToTalk.isOpen) return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(target.tagName) !== -1);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== settings.pushToTalkKey || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) pushToTalk.press();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== settings.pushToTalkKey) return;
+      e.preventDefault();
+      pushToTalk.release();
+    };
+    // A key released in another window never reaches us
+    const handleBlur = () => pushToTalk.release();
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [pushToTalk.isOpen, pushToTalk.press, pushToTalk.release, settings.pushToTalkKey]);
+
+  /**
+   * Play an entry's utterance from the recorded audio, or stop it if playing
+   */
+  const handlePlayEntry = async (entry: TranscriptEntry) => {
+    if (audioRecorder.playingKey === entry.id) {
+      audioRecorder.stopPlayback();
+      return;
+    }
+    if (!entry.audio || entry.audioNotCopied || !await audioRecorder.playSegment(entry.audio, entry.id)) {
+      setNotification({
+        message: t.audioNotAvailable,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 3000);
+    }
+  };
+
   /**
    * Change microphone device
    */
@@ -328,6 +695,119 @@ export default function Page() {
     setTimeout(() => setNotification(null), 2000);
   };
 
+  /**
+   * Change transcription provider
+   * An open connection is closed first, as it belongs to the old provider
+   */
+  const handleTranscriptionProviderChange = (provider: ProviderId) => {
+    if (transcription.isConnected) {
+      userStopRef.current = true;
+      transcription.disconnect();
+    }
+    endReconnect();
+    settings.updateTranscriptionProvider(provider);
+    setNotification({
+      message: `${t.transcriptionProvider}: ${provider === 'simulator' ? t.providerSimulator : t.providerElevenLabs}`,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Load a simulator scenario from a JSON file
+   */
+  const handleLoadScenario = async (file: File) => {
+    try {
+      const json = await file.text();
+      const scenario = parseScenario(json);
+      settings.updateSimulatorScenario(json);
+      setNotification({
+        message: `${t.scenarioLoaded}: ${scenario.name} (${scenario.events.length})`,
+        type: 'success'
+      });
+      setTimeout(() => setNotification(null), 3000);
+    } catch (error) {
+      setNotification({
+        message: `${t.invalidScenario}: ${error instanceof Error ? error.message : t.unknownError}`,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 5000);
+    }
+  };
+
+  /**
+   * Go back to the built-in simulator scenario
+   */
+  const handleResetScenario = () => {
+    settings.updateSimulatorScenario("");
+    setNotification({
+      message: `${t.scenarioLoaded}: ${DEFAULT_SCENARIO.name}`,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Change backup microphone device
+   */
+  const handleBackupMicrophoneChange = (deviceId: string) => {
+    settings.updateBackupMicrophone(deviceId);
+    const device = availableMicrophones.find(m => m.deviceId === deviceId);
+    setNotification({
+      message: `${t.backupMicrophoneChanged}: ${device?.label || t.noBackupMicrophone}`,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  useEffect(() => {
+    microphoneStateRef.current = {
+      isConnected: transcription.isConnected,
+      activeMicrophoneId,
+      selectedMicrophoneId: settings.selectedMicrophoneId,
+      backupMicrophoneId: settings.backupMicrophoneId,
+    };
+  });
+
+  /**
+   * Detect the microphone in use being unplugged while recording
+   * Falls back to the backup microphone when one is configured and present
+   * (or back to the selected one if the backup itself was unplugged), noting
+   * the switch (or the loss) in the ledger. The selected microphone stays in
+   * the settings, so the next recording uses it again once re-plugged.
+   */
+  useEffect(() => {
+    const previousIds = previousMicrophoneIdsRef.current;
+    previousMicrophoneIdsRef.current = availableMicrophones.map(m => m.deviceId);
+
+    const { isConnected, activeMicrophoneId: activeId, selectedMicrophoneId, backupMicrophoneId } = microphoneStateRef.current;
+    const removed = activeId !== ''
+      && previousIds.indexOf(activeId) !== -1
+      && !availableMicrophones.some(m => m.deviceId === activeId);
+    if (!removed || !isConnected) return;
+
+    console.warn("🎤 Microphone in use disconnected:", activeId);
+    const fallbackId = activeId === backupMicrophoneId ? selectedMicrophoneId : backupMicrophoneId;
+    const backup = availableMicrophones.find(m => m.deviceId === fallbackId);
+    if (backup) {
+      ledger.addSystemNote(`${t.microphoneSwitchedNote}: ${backup.label || backup.deviceId.substring(0, 8)}`);
+      restartDeviceRef.current = backup.deviceId;
+      transcription.disconnect();
+      setNotification({
+        message: `${t.microphoneSwitchedNote}: ${backup.label || t.backupMicrophone}`,
+        type: 'info'
+      });
+      setTimeout(() => setNotification(null), 5000);
+    } else {
+      // Stays until dismissed: nothing is being transcribed
+      ledger.addSystemNote(t.microphoneLostNote);
+      setNotification({
+        message: `🎤 ${t.microphoneLostNote}`,
+        type: 'error'
+      });
+    }
+  }, [availableMicrophones]);
+
   /**
    * Change UI language
    */
@@ -343,6 +823,62 @@ export default function Page() {
     setTimeout(() => setNotification(null), 2000);
   };
 
+  /**
+   * Format an entry timestamp in the chosen display format
+   * Elapsed time is measured from the start of the given (default: open) session
+   */
+  const formatTime = (timestamp: string, sessionStartedAt = ledger.activeSession?.startedAt) =>
+    formatEntryTime(timestamp, settings.timestampFormat, sessionStartedAt);
+
+  /**
+   * Labelled session details and chain head for the PDF header and CSV comment rows
+   */
+  const getSessionMetadata = (): ExportMetadata[] => {
+    const session = ledger.activeSession;
+    if (!session) return [];
+
+    const rows: ExportMetadata[] = [{ label: t.sessionName, value: session.name }];
+    const chainHead = getChainHead(transcriptsWithTimestamps);
+    if (session.operator) {
+      rows.push({ label: t.sessionOperator, value: session.operator });
+    }
+    rows.push({
+      label: t.sessionPeriod,
+      value: `${new Date(session.startedAt).toLocaleString()} – ${session.endedAt ? new Date(session.endedAt).toLocaleString() : ''}`,
+    });
+    if (session.notes) {
+      rows.push({ label: t.sessionNotes, value: session.notes });
+    }
+    const profileChanges = getHighlightProfileChanges(session);
+    if (profileChanges.length > 0) {
+      rows.push({
+        label: t.activeHighlightProfiles,
+        value: profileChanges
+          .map(change => `${formatTime(change.changedAt)} ${change.profiles.length > 0 ? change.profiles.join(', ') : t.noActiveHighlightProfiles}`)
+          .join('; '),
+      });
+    }
+    if (chainHead) {
+      rows.push({ label: t.chainHead, value: chainHead });
+    }
+    return rows;
+  };
+
+  /**
+   * Entries in display order, with corrected text for edited entries
+   */
+  const getExportItems = () => {
+    const items = toTimeline(transcriptsWithTimestamps).map(entry => ({
+      ...entry,
+      correctedText: entry.revisions?.length ? getEntryText(entry) : undefined,
+      speaker: entry.speakerId ? getSpeakerName(entry.speakerId, ledger.activeSession?.speakerNames, t.speaker) : undefined,
+      lowConfidenceWords: needsReview(entry, settings.confidenceThreshold / 100)
+        ? getLowConfidenceWords(entry.words!, settings.confidenceThreshold / 100).map(word => word.text)
+        : undefined,
+    }));
+    return settings.newestFirst ? items.reverse() : items;
+  };
+
   /**
    * Export transcripts as CSV
    */
@@ -357,11 +893,41 @@ export default function Page() {
     }
 
     // transcripts array is oldest-first, reverse for newest-first export
-    const orderedTranscripts = settings.newestFirst 
-      ? [...transcriptsWithTimestamps].reverse()
-      : transcriptsWithTimestamps;
+    const orderedTranscripts = getExportItems();
     
-    exportAsCSV(orderedTranscripts, 'transcripts');
+    exportAsCSV(
+      orderedTranscripts,
+      toFilenameBase(ledger.activeSession?.name ?? ''),
+      settings.exportTextMode,
+      timestamp => formatTime(timestamp),
+      getSessionMetadata()
+    );
+    setNotification({
+      message: t.transcriptsExported,
+      type: 'success'
+    });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Export the session and its entries (ledger order, with word timing) as JSON
+   */
+  const handleExportJSON = () => {
+    if (transcriptsWithTimestamps.length === 0) {
+      setNotification({
+        message: t.noTranscriptsToExport,
+        type: 'info'
+      });
+      setTimeout(() => setNotification(null), 2000);
+      return;
+    }
+
+    exportAsJSON({
+      session: ledger.activeSession,
+      exportedAt: new Date().toISOString(),
+      chainHead: getChainHead(transcriptsWithTimestamps),
+      entries: transcriptsWithTimestamps,
+    }, toFilenameBase(ledger.activeSession?.name ?? ''));
     setNotification({
       message: t.transcriptsExported,
       type: 'success'
@@ -369,6 +935,46 @@ export default function Page() {
     setTimeout(() => setNotification(null), 3000);
   };
 
+  /**
+   * Export timed entries as SRT or WebVTT subtitles
+   */
+  const handleExportSubtitles = (format: 'srt' | 'vtt') => {
+    // Cues are sorted by time, so the display order does not matter here
+    const cueCount = exportAsSubtitles(
+      getExportItems(),
+      format,
+      toFilenameBase(ledger.activeSession?.name ?? ''),
+      settings.exportTextMode
+    );
+    setNotification({
+      message: cueCount > 0 ? t.transcriptsExported : t.noTimedEntries,
+      type: cueCount > 0 ? 'success' : 'info'
+    });
+    setTimeout(() => setNotification(null), cueCount > 0 ? 3000 : 2000);
+  };
+
+  /**
+   * Export the recorded audio of the open session, one file per recording
+   */
+  const handleExportAudio = async () => {
+    const session = ledger.activeSession;
+    const recordings = session ? await loadRecordings(session.id) : [];
+    let exported = 0;
+    for (const recording of recordings) {
+      const audio = await loadRecordingAudio(recording);
+      if (audio) {
+        exported++;
+        exportAudio(audio, `${toFilenameBase(session!.name)}_audio_${exported}`);
+      }
+    }
+
+    setNotification({
+      message: exported > 0 ? t.transcriptsExported : t.noAudioToExport,
+      type: exported > 0 ? 'success' : 'info'
+    });
+    setTimeout(() => setNotification(null), exported > 0 ? 3000 : 2000);
+  };
+
   /**
    * Export transcripts as PDF
    */
@@ -383,9 +989,7 @@ export default function Page() {
     }
 
     // transcripts array is oldest-first, reverse for newest-first export
-    const orderedTranscripts = settings.newestFirst 
-      ? [...transcriptsWithTimestamps].reverse()
-      : transcriptsWithTimestamps;
+    const orderedTranscripts = getExportItems();
 
     const success = exportAsPDF(
       orderedTranscripts, 
@@ -394,7 +998,20 @@ export default function Page() {
       t.pdfDate,
       t.pdfTotalTranscripts,
       settings.highlightRules,
-      settings.partialMatchHighlight
+      settings.partialMatchHighlight,
+      getSessionMetadata(),
+      settings.exportTextMode,
+      {
+        original: t.originalText,
+        voided: t.entryVoided,
+        manual: t.manualSource,
+        system: t.systemSource,
+        loggedAt: t.loggedAt,
+        language: t.entryLanguage,
+        speaker: t.speaker,
+        lowConfidence: t.lowConfidenceWords,
+      },
+      timestamp => formatTime(timestamp)
     );
     if (!success) {
       setNotification({
@@ -415,8 +1032,19 @@ export default function Page() {
   /**
    * Add highlight rule handler
    */
-  const handleAddHighlight = (word: string, color: string) => {
-    settings.addHighlightRule(word, color);
+  const handleAddHighlight = (
+    profileId: string,
+    word: string,
+    color: string,
+    matchType: HighlightMatchType,
+    partialMatchMode: PartialMatchMode,
+    fuzzyTolerance: number,
+    alert?: HighlightAlert
+  ) => {
+    settings.addHighlightRule(profileId, word, color, matchType, partialMatchMode, fuzzyTolerance, alert);
+    if (alert?.notification) {
+      requestNotificationPermission();
+    }
     setNotification({
       message: t.highlightAdded,
       type: 'success'
@@ -437,21 +1065,198 @@ export default function Page() {
   };
 
   /**
-   * Clear all transcripts handler
+   * Add highlight profile handler
+   * Returns the new profile's id so its rules can be edited right away
    */
-  const handleClearTranscripts = () => {
-    if (window.confirm(t.language === 'en' 
-      ? 'Are you sure you want to clear all transcripts? This cannot be undone.' 
-      : 'Haluatko varmasti tyhjentää kaikki transkriptiot? Tätä ei voi perua.')) {
-      setTranscriptsWithTimestamps([]);
+  const handleAddHighlightProfile = (name: string): string => {
+    const id = settings.addHighlightProfile(name);
+    setNotification({
+      message: `${t.highlightProfileAdded}: ${name.trim()}`,
+      type: 'success'
+    });
+    setTimeout(() => setNotification(null), 2000);
+    return id;
+  };
+
+  /**
+   * Remove highlight profile handler
+   */
+  const handleRemoveHighlightProfile = (id: string) => {
+    settings.removeHighlightProfile(id);
+    setNotification({
+      message: t.highlightProfileRemoved,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Import a highlight rule set from a JSON or CSV file
+   */
+  const handleImportHighlightRules = async (file: File, mode: RuleSetImportMode) => {
+    try {
+      const groups = parseRuleSet(await file.text(), file.name);
+      const { added, duplicates } = settings.importHighlightRules(groups, mode);
       setNotification({
-        message: t.language === 'en' ? 'All transcripts cleared' : 'Kaikki transkriptiot tyhjennetty',
-        type: 'info'
+        message: `${t.highlightRulesImported}: ${added}${duplicates > 0 ? ` (${t.duplicateRulesSkipped}: ${duplicates})` : ''}`,
+        type: 'success'
+      });
+      setTimeout(() => setNotification(null), 3000);
+    } catch (error) {
+      setNotification({
+        message: `${t.invalidRuleSet}: ${error instanceof Error ? error.message : t.unknownError}`,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 5000);
+    }
+  };
+
+  /**
+   * Export all highlight profiles as a rule set file
+   */
+  const handleExportHighlightRules = (format: 'json' | 'csv') => {
+    exportHighlightRules(settings.highlightProfiles, format);
+    setNotification({
+      message: t.highlightRulesExported,
+      type: 'success'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Add recognition vocabulary term handler
+   * Takes effect from the next connection
+   */
+  const handleAddVocabularyTerm = (term: string) => {
+    settings.addVocabularyTerm(term);
+    setNotification({
+      message: transcription.isConnected ? t.vocabularyNextRecording : t.vocabularyTermAdded,
+      type: 'success'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Remove recognition vocabulary term handler
+   */
+  const handleRemoveVocabularyTerm = (term: string) => {
+    settings.removeVocabularyTerm(term);
+    setNotification({
+      message: t.vocabularyTermRemoved,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Start a new session handler
+   * The current session is closed and kept in the library
+   */
+  const handleNewSession = () => {
+    ledger.newSession();
+    setNotification({
+      message: t.sessionCreated,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Open a session from the library
+   */
+  const handleOpenSession = async (id: string) => {
+    if (transcription.isConnected) {
+      setNotification({
+        message: t.stopRecordingFirst,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 3000);
+      return;
+    }
+
+    try {
+      await ledger.openSession(id);
+      setNotification({
+        message: t.sessionOpened,
+        type: 'success'
       });
       setTimeout(() => setNotification(null), 2000);
+    } catch (error) {
+      console.error("Error opening session:", error);
+      setNotification({
+        message: t.unknownError,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 3000);
     }
   };
 
+  /**
+   * Duplicate a session in the library
+   */
+  const handleDuplicateSession = async (id: string) => {
+    try {
+      await ledger.duplicateSession(id, t.sessionCopySuffix);
+      setNotification({
+        message: t.sessionDuplicated,
+        type: 'success'
+      });
+      setTimeout(() => setNotification(null), 2000);
+    } catch (error) {
+      console.error("Error duplicating session:", error);
+      setNotification({
+        message: t.unknownError,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 3000);
+    }
+  };
+
+  /**
+   * Delete a session from the library
+   */
+  const handleDeleteSession = (id: string) => {
+    if (transcription.isConnected && id === ledger.activeSession?.id) {
+      setNotification({
+        message: t.stopRecordingFirst,
+        type: 'error'
+      });
+      setTimeout(() => setNotification(null), 3000);
+      return;
+    }
+
+    ledger.deleteSession(id);
+    setNotification({
+      message: t.sessionDeleted,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
+  /**
+   * Restore the ledger recovered from IndexedDB
+   */
+  const handleRestoreSession = () => {
+    ledger.restoreRecoverable();
+    setNotification({
+      message: t.sessionRecovered,
+      type: 'success'
+    });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  /**
+   * Discard the ledger recovered from IndexedDB
+   */
+  const handleDiscardSession = () => {
+    ledger.discardRecoverable();
+    setNotification({
+      message: t.sessionDiscarded,
+      type: 'info'
+    });
+    setTimeout(() => setNotification(null), 2000);
+  };
+
   /**
    * Toggle partial match highlight handler
    */
@@ -465,6 +1270,83 @@ export default function Page() {
     setTimeout(() => setNotification(null), 2000);
   };
 
+  /**
+   * Export text mode handler
+   */
+  const handleExportTextModeChange = (mode: ExportTextMode) => {
+    settings.updateExportTextMode(mode);
+  };
+
+  /**
+   * Save a correction to a confirmed entry
+   */
+  const handleEditEntry = async (id: string, text: string) => {
+    const updated = await ledger.reviseEntry(id, text, ledger.activeSession?.operator ?? '');
+    if (updated) {
+      setNotification({
+        message: t.entryUpdated,
+        type: 'success'
+      });
+      setTimeout(() => setNotification(null), 2000);
+    }
+  };
+
+  /**
+   * Add an entry typed by the operator
+   */
+  const handleAddManualEntry = (text: string, timestamp?: string) => {
+    if (ledger.addManualEntry(text, timestamp)) {
+      setNotification({
+        message: t.manualEntryAdded,
+        type: 'success'
+      });
+      setTimeout(() => setNotification(null), 2000);
+    }
+  };
+
+  /**
+   * Void entries with a mandatory reason, keeping them in the ledger
+   */
+  const handleVoidEntries = async (ids: string[], reason: string) => {
+    const count = await ledger.voidEntries(ids, reason, ledger.activeSession?.operator ?? '');
+    if (count > 0) {
+      setNotification({
+        message: `${t.entriesVoided}: ${count}`,
+        type: 'info'
+      });
+      setTimeout(() => setNotification(null), 2000);
+    }
+  };
+
+  /**
+   * Timestamp display format handler
+   */
+  const handleTimestampFormatChange = (format: TimestampFormat) => {
+    settings.updateTimestampFormat(format);
+  };
+
+  /**
+   * Change transcription language handler
+   * Takes effect from the next connection
+   */
+  const handleTranscriptionLanguageChange = (code: string) => {
+    settings.updateTranscriptionLanguage(code);
+    if (transcription.isConnected) {
+      setNotification({
+        message: t.transcriptionLanguageNextRecording,
+        type: 'info'
+      });
+      setTimeout(() => setNotification(null), 3000);
+    }
+  };
+
+  /**
+   * Toggle voided entry visibility handler
+   */
+  const handleToggleHideVoided = () => {
+    settings.updateHideVoided(!settings.hideVoided);
+  };
+
   /**
    * Toggle transcript order handler
    */
@@ -482,8 +1364,11 @@ export default function Page() {
    * Toggle recording on/off
    */
   const handleToggle = () => {
-    if (scribe.isConnected) {
-      scribe.disconnect();
+    if (reconnectRef.current) {
+      endReconnect();
+    } else if (transcription.isConnected) {
+      userStopRef.current = true;
+      transcription.disconnect();
     } else {
       handleStart();
     }
@@ -503,9 +1388,14 @@ export default function Page() {
       {/* Fixed Header */}
       <Header
         t={t}
-        isConnected={scribe.isConnected}
+        isConnected={transcription.isConnected}
+        isReconnecting={reconnectAttempt !== null}
         onToggle={handleToggle}
         onSettingsClick={() => setShowSettings(!showSettings)}
+        onLibraryClick={() => setShowLibrary(!showLibrary)}
+        highlightProfiles={settings.highlightProfiles}
+        activeHighlightProfileIds={settings.activeHighlightProfileIds}
+        onToggleHighlightProfile={settings.toggleHighlightProfile}
       />
 
       {/* Main Content */}
@@ -541,9 +1431,31 @@ export default function Page() {
             onToggleEchoCancellation={handleToggleEchoCancellation}
             noiseSuppression={settings.noiseSuppression}
             onToggleNoiseSuppression={handleToggleNoiseSuppression}
+            recordAudio={settings.recordAudio}
+            onToggleRecordAudio={handleToggleRecordAudio}
+            pushToTalk={settings.pushToTalk}
+            onTogglePushToTalk={handleTogglePushToTalk}
+            pushToTalkKey={settings.pushToTalkKey}
+            onPushToTalkKeyChange={settings.updatePushToTalkKey}
             selectedMicrophoneId={settings.selectedMicrophoneId}
             availableMicrophones={availableMicrophones}
             onMicrophoneChange={handleMicrophoneChange}
+            backupMicrophoneId={settings.backupMicrophoneId}
+            onBackupMicrophoneChange={handleBackupMicrophoneChange}
+            inputWatchdogSeconds={settings.inputWatchdogSeconds}
+            onInputWatchdogSecondsChange={settings.updateInputWatchdogSeconds}
+            transcriptionProvider={settings.transcriptionProvider}
+            onTranscriptionProviderChange={handleTranscriptionProviderChange}
+            transcriptionLanguage={settings.transcriptionLanguage}
+            onTranscriptionLanguageChange={handleTranscriptionLanguageChange}
+            diarization={settings.diarization}
+            onToggleDiarization={handleToggleDiarization}
+            confidenceThreshold={settings.confidenceThreshold}
+            onConfidenceThresholdChange={settings.updateConfidenceThreshold}
+            simulatorScenarioName={simulatorScenario.name}
+            hasCustomScenario={settings.simulatorScenario !== ""}
+            onLoadScenario={handleLoadScenario}
+            onResetScenario={handleResetScenario}
             apiKey={settings.apiKey}
             onShowApiKeyModal={() => {
               setTempApiKey(settings.apiKey);
@@ -553,30 +1465,100 @@ export default function Page() {
             transcriptsCount={transcriptsWithTimestamps.length}
             onExportPDF={handleExportPDF}
             onExportCSV={handleExportCSV}
-            onClearTranscripts={handleClearTranscripts}
+            onExportJSON={handleExportJSON}
+            onExportSubtitles={handleExportSubtitles}
+            onExportAudio={handleExportAudio}
+            onNewSession={handleNewSession}
+            onVerifyLedger={() => setShowVerification(true)}
+            exportTextMode={settings.exportTextMode}
+            onExportTextModeChange={handleExportTextModeChange}
             highlightRules={settings.highlightRules}
+            highlightProfiles={settings.highlightProfiles}
+            activeHighlightProfileIds={settings.activeHighlightProfileIds}
             partialMatchHighlight={settings.partialMatchHighlight}
             onAddHighlight={handleAddHighlight}
             onRemoveHighlight={handleRemoveHighlight}
+            onAddHighlightProfile={handleAddHighlightProfile}
+            onRenameHighlightProfile={settings.renameHighlightProfile}
+            onRemoveHighlightProfile={handleRemoveHighlightProfile}
+            onMoveHighlightProfile={settings.moveHighlightProfile}
+            onToggleHighlightProfile={settings.toggleHighlightProfile}
+            onImportHighlightRules={handleImportHighlightRules}
+            onExportHighlightRules={handleExportHighlightRules}
             onTogglePartialMatch={handleTogglePartialMatch}
+            vocabularyTerms={settings.vocabularyTerms}
+            onAddVocabularyTerm={handleAddVocabularyTerm}
+            onRemoveVocabularyTerm={handleRemoveVocabularyTerm}
             newestFirst={settings.newestFirst}
             onToggleNewestFirst={handleToggleNewestFirst}
+            hideVoided={settings.hideVoided}
+            onToggleHideVoided={handleToggleHideVoided}
+            timestampFormat={settings.timestampFormat}
+            onTimestampFormatChange={handleTimestampFormatChange}
+          />
+        )}
+
+        {/* Session Library */}
+        {showLibrary && (
+          <SessionLibrary
+            t={t}
+            sessions={ledger.sessions}
+            activeSessionId={ledger.activeSession?.id ?? null}
+            onOpenSession={handleOpenSession}
+            onNewSession={handleNewSession}
+            onUpdateSession={ledger.updateSession}
+            onDuplicateSession={handleDuplicateSession}
+            onDeleteSession={handleDeleteSession}
           />
         )}
 
         {/* Status Indicator */}
-        {scribe.isConnected && (
-          <StatusIndicator t={t} />
+        {(transcription.isConnected || reconnectAttempt !== null) && (
+          <StatusIndicator t={t} level={inputLevel.level} warning={inputLevel.warning} reconnectAttempt={reconnectAttempt} />
         )}
 
+        {/* Keyword Alert Log */}
+        {keywordAlerts.alertLog.length > 0 && (
+          <KeywordAlertLog
+            t={t}
+            alerts={keywordAlerts.alertLog}
+            formatTime={timestamp => formatTime(timestamp)}
+            onClear={keywordAlerts.clearAlertLog}
+          />
+        )}
+
+        {/* Push-to-Talk Button */}
+        {transcription.isConnected && pushToTalk.isOpen && (
+          <PushToTalkButton
+            t={t}
+            isTalking={pushToTalk.isTalking}
+            pushToTalkKey={settings.pushToTalkKey}
+            onPress={pushToTalk.press}
+            onRelease={pushToTalk.release}
+          />
+        )}
+
+        {/* Manual Entry Composer */}
+        <ManualEntryComposer t={t} onAddEntry={handleAddManualEntry} />
+
         {/* Transcript Display */}
         <TranscriptDisplay
           t={t}
           transcripts={transcriptsWithTimestamps}
-          partialTranscript={scribe.partialTranscript}
+          sessionName={ledger.activeSession?.name}
+          partialTranscript={transcription.partialTranscript}
           highlightRules={settings.highlightRules}
           partialMatchHighlight={settings.partialMatchHighlight}
+          confidenceThreshold={settings.confidenceThreshold / 100}
           newestFirst={settings.newestFirst}
+          hideVoided={settings.hideVoided}
+          formatTime={timestamp => formatTime(timestamp)}
+          playingEntryId={audioRecorder.playingKey}
+          onPlayEntry={handlePlayEntry}
+          onEditEntry={handleEditEntry}
+          onVoidEntries={handleVoidEntries}
+          speakerNames={ledger.activeSession?.speakerNames}
+          onRenameSpeaker={handleRenameSpeaker}
         />
       </main>
 
@@ -594,6 +1576,44 @@ export default function Page() {
         />
       )}
 
+      {/* Ledger Integrity Verification */}
+      {showVerification && (
+        <ChainVerification
+          t={t}
+          entries={transcriptsWithTimestamps}
+          formatTime={timestamp => formatTime(timestamp)}
+          onClose={() => setShowVerification(false)}
+        />
+      )}
+
+      {/* Unsaved Session Recovery Prompt */}
+      {ledger.recoverable && (
+        <RecoveryPrompt
+          t={t}
+          recoverable={ledger.recoverable}
+          formatTime={timestamp => formatTime(timestamp, ledger.recoverable?.session.startedAt)}
+          onRestore={handleRestoreSession}
+          onDiscard={handleDiscardSession}
+        />
+      )}
+
+      {/* Keyword Alert Flash */}
+      {keywordAlerts.flashColor && (
+        <div
+          aria-hidden="true"
+          className="alert-flash"
+          style={{
+            position: "fixed",
+            inset: 0,
+            pointerEvents: "none",
+            zIndex: 2000,
+            boxShadow: `inset 0 0 0 12px ${keywordAlerts.flashColor}`,
+            backgroundColor: keywordAlerts.flashColor,
+            animation: `alertFlash ${ALERT_FLASH_MS}ms ease-out forwards`,
+          }}
+        />
+      )}
+
       {/* Global Styles and Animations */}
       <style jsx global>{`
         /* Pulse animation for recording indicator and button */
@@ -642,6 +1662,24 @@ export default function Page() {
           }
         }
 
+        /* Keyword alert flash: two fading blinks */
+        @keyframes alertFlash {
+          0%, 50% {
+            opacity: 0.35;
+          }
+          25%, 100% {
+            opacity: 0;
+          }
+        }
+
+        /* Keep only the colored frame when motion is reduced */
+        @media (prefers-reduced-motion: reduce) {
+          .alert-flash {
+            animation: none !important;
+            background-color: transparent !important;
+          }
+        }
+
         /* Responsive styles for mobile devices */
         @media (max-width: 640px) {
           /* Hide title text on small screens */
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react';
+import { useScribe, AudioFormat, CommitStrategy } from '@elevenlabs/react';
+import { toWordTimings, ScribeCommittedTranscript } from '../utils/wordTimings';
+import { TranscriptionCallbacks, TranscriptionProvider, TranscriptionConnectOptions } from './types';
+
+/**
+ * Sample rate of audio pushed with `sendAudio` (PCM_16000)
+ */
+const PUSHED_AUDIO_SAMPLE_RATE = 16000;
+
+/**
+ * Fetches a single-use authentication token from the ElevenLabs API
+ *
+ * @param customApiKey - Optional custom API key provided by user through UI
+ * @returns Promise resolving to authentication token
+ * @throws Error if token fetch fails
+ */
+export async function fetchTokenFromServer(customApiKey?: string): Promise<string> {
+  const response = await fetch("/api/token", {
+    method: "GET",
+    headers: customApiKey ? {
+      'X-Custom-API-Key': customApiKey
+    } : {}
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch token");
+  }
+
+  return data.token;
+}
+
+/**
+ * Turn an error reported by Scribe into an Error
+ * Server errors arrive as messages (`{ message_type: 'quota_exceeded', error: '...' }`),
+ * so their type is kept in the message for telling fatal errors from drops
+ */
+function toError(error: unknown): Error {
+  if (error instanceof Error) return error;
+  if (error && typeof error === 'object' && 'message_type' in error) {
+    const message = error as { message_type: string; error?: string };
+    return new Error(`${message.message_type}: ${message.error ?? ''}`);
+  }
+  return new Error(String(error));
+}
+
+/**
+ * ElevenLabs Scribe v2 Realtime Adapter
+ *
+ * Wraps `useScribe` as a `TranscriptionProvider`. Every connection fetches a
+ * single-use token through `/api/token` (with the user's own API key when
+ * set), so the API key never reaches the browser's WebSocket.
+ *
+ * Callbacks are read at the time of each event, so the latest render's
+ * handlers are always the ones called.
+ *
+ * Keyterms are not supported: the realtime connection of @elevenlabs/react
+ * has no option for them yet (see `PROVIDER_CAPABILITIES`). Diarization cannot
+ * be requested either, so the page never asks for it and speaker ids are
+ * dropped should Scribe send any.
+ *
+ * @param callbacks - Transcription event handlers
+ * @param apiKey - Custom ElevenLabs API key, or empty for the server's key
+ * @returns The provider
+ */
+export function useElevenLabsProvider(callbacks: TranscriptionCallbacks, apiKey: string): TranscriptionProvider {
+  const callbacksRef = useRef(callbacks);
+  // Whether the open connection keeps speaker ids
+  const diarizeRef = useRef(false);
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  });
+
+  const scribe = useScribe({
+    modelId: "scribe_v2_realtime",
+    onSessionStarted: () => {
+      callbacksRef.current.onSessionStarted?.();
+    },
+    onDisconnect: () => {
+      callbacksRef.current.onDisconnect?.();
+    },
+    onError: (error) => {
+      callbacksRef.current.onError?.(toError(error));
+    },
+    onPartialTranscript: (data) => {
+      callbacksRef.current.onPartialTranscript?.(data.text);
+    },
+    onCommittedTranscriptWithTimestamps: (payload) => {
+      // The payload carries `words`, not the `timestamps` declared by @elevenlabs/react
+      const data = payload as ScribeCommittedTranscript;
+      const words = toWordTimings(data.words);
+      callbacksRef.current.onCommittedTranscript?.({
+        text: data.text,
+        words: diarizeRef.current ? words : words.map(({ speakerId, ...word }) => word),
+        ...(data.language_code && { languageCode: data.language_code }),
+      });
+    },
+  });
+
+  const connect = async (options: TranscriptionConnectOptions) => {
+    const token = await fetchTokenFromServer(apiKey || undefined);
+    console.log("✅ Token received:", token.substring(0, 20) + "...");
+
+    diarizeRef.current = !!options.diarize;
+    const commitStrategy = options.manualCommit ? CommitStrategy.MANUAL : undefined;
+    const languageCode = options.languageCode;
+    if (options.microphone) {
+      await scribe.connect({ token, commitStrategy, languageCode, microphone: options.microphone });
+    } else {
+      await scribe.connect({
+        token,
+        commitStrategy,
+        languageCode,
+        audioFormat: AudioFormat.PCM_16000,
+        sampleRate: PUSHED_AUDIO_SAMPLE_RATE,
+      });
+    }
+  };
+
+  return {
+    isConnected: scribe.isConnected,
+    partialTranscript: scribe.partialTranscript,
+    usesMicrophone: true,
+    connect,
+    disconnect: scribe.disconnect,
+    sendAudio: (audioBase64: string) => scribe.sendAudio(audioBase64),
+    commit: scribe.commit,
+  };
+}
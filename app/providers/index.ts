@@ -0,0 +1,94 @@
+/**
+ * Speech-to-Text Providers
+ *
+ * Entry point of the provider layer. `useTranscriptionProvider` returns the
+ * backend the page transcribes with; adapters live next to this file, one
+ * per backend, and implement `TranscriptionProvider` (see ./types).
+ *
+ * Providers:
+ * - 'elevenlabs': ElevenLabs Scribe v2 Realtime
+ * - 'simulator': offline replay of a scripted scenario
+ *
+ * @module providers
+ */
+
+import { useElevenLabsProvider } from './elevenLabsProvider';
+import { useSimulatorProvider } from './simulatorProvider';
+import { SimulatorScenario } from './simulatorScenario';
+import { TranscriptionCallbacks, TranscriptionProvider } from './types';
+
+export type {
+  ProviderMicrophone,
+  TranscriptionConnectOptions,
+  CommittedTranscript,
+  TranscriptionCallbacks,
+  TranscriptionProvider,
+} from './types';
+
+/**
+ * Available transcription providers
+ */
+export type ProviderId = 'elevenlabs' | 'simulator';
+
+/**
+ * Optional features a provider supports
+ */
+export interface ProviderCapabilities {
+  /** Biases recognition towards the vocabulary (`TranscriptionConnectOptions.keyterms`) */
+  keyterms: boolean;
+  /** Attributes words to speakers (`TranscriptionConnectOptions.diarize`) */
+  diarization: boolean;
+}
+
+/**
+ * Features supported by each provider, so the settings can tell the
+ * operator which options have no effect with the selected provider
+ */
+export const PROVIDER_CAPABILITIES: { [id in ProviderId]: ProviderCapabilities } = {
+  // The realtime connection of @elevenlabs/react has no keyterms or diarization option yet
+  elevenlabs: { keyterms: false, diarization: false },
+  // Near-misses of the terms in the script are spelled as the terms; scripted speakers are reported
+  simulator: { keyterms: true, diarization: true },
+};
+
+/**
+ * Languages offered for transcription, besides automatic detection
+ * Codes are ISO 639-1, as accepted by the providers
+ */
+export const TRANSCRIPTION_LANGUAGES = [
+  { code: 'fi', name: 'Finnish', nameFi: 'Suomi' },
+  { code: 'en', name: 'English', nameFi: 'Englanti' },
+  { code: 'sv', name: 'Swedish', nameFi: 'Ruotsi' },
+  { code: 'et', name: 'Estonian', nameFi: 'Viro' },
+  { code: 'ru', name: 'Russian', nameFi: 'Venäjä' },
+  { code: 'de', name: 'German', nameFi: 'Saksa' },
+  { code: 'fr', name: 'French', nameFi: 'Ranska' },
+];
+
+/**
+ * Configuration shared by the providers
+ */
+export interface ProviderConfig {
+  /** Provider to transcribe with */
+  provider: ProviderId;
+  /** Custom ElevenLabs API key, or empty for the server's key */
+  apiKey: string;
+  /** Scenario replayed by the simulator */
+  simulatorScenario: SimulatorScenario;
+}
+
+/**
+ * Custom React Hook for the Active Transcription Provider
+ *
+ * Every adapter hook is called on each render (hooks cannot be called
+ * conditionally); only the selected one is ever connected.
+ *
+ * @param callbacks - Transcription event handlers
+ * @param config - Provider configuration
+ * @returns The provider to connect with
+ */
+export function useTranscriptionProvider(callbacks: TranscriptionCallbacks, config: ProviderConfig): TranscriptionProvider {
+  const elevenLabs = useElevenLabsProvider(callbacks, config.apiKey);
+  const simulator = useSimulatorProvider(callbacks, config.simulatorScenario);
+  return config.provider === 'simulator' ? simulator : elevenLabs;
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SimulatorScenario, getCommitWords, applyKeyterms } from './simulatorScenario';
+import { TranscriptionCallbacks, TranscriptionProvider, TranscriptionConnectOptions } from './types';
+
+/**
+ * Delay before the simulated session starts, like a real connection handshake
+ */
+const CONNECT_DELAY_MS = 300;
+
+/**
+ * Offline Simulator Adapter
+ *
+ * Replays a scripted scenario through the same callbacks as a real
+ * provider: partials, commits with word timing, errors and disconnects.
+ * Nothing leaves the browser and no microphone is opened; pushed audio and
+ * commits are ignored, the script alone decides what is transcribed.
+ * Scripted speakers are reported only when diarization is requested, and
+ * scripted near-misses of the vocabulary terms are spelled as the terms.
+ *
+ * After a scripted disconnect or fatal error the next connection resumes
+ * the scenario where it dropped (as a reconnect would); disconnecting on
+ * purpose starts it over.
+ *
+ * @param callbacks - Transcription event handlers
+ * @param scenario - Scenario to replay on every connection
+ * @returns The provider
+ */
+export function useSimulatorProvider(callbacks: TranscriptionCallbacks, scenario: SimulatorScenario): TranscriptionProvider {
+  const [isConnected, setIsConnected] = useState(false);
+  const [partialTranscript, setPartialTranscript] = useState('');
+  const callbacksRef = useRef(callbacks);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const connectedRef = useRef(false);
+  // Where the next connection picks up the scenario after a scripted drop
+  const resumeRef = useRef({ index: 0, at: 0 });
+  // Whether the open connection keeps speaker ids
+  const diarizeRef = useRef(false);
+  // Vocabulary terms of the open connection
+  const keytermsRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  });
+
+  const clearTimers = () => {
+    timersRef.current.forEach(timer => clearTimeout(timer));
+    timersRef.current = [];
+  };
+
+  // A new scenario always starts from the beginning
+  useEffect(() => {
+    resumeRef.current = { index: 0, at: 0 };
+  }, [scenario]);
+
+  const drop = useCallback(() => {
+    if (!connectedRef.current) return;
+    connectedRef.current = false;
+    clearTimers();
+    setIsConnected(false);
+    setPartialTranscript('');
+    // Real connections report the close asynchronously too
+    setTimeout(() => callbacksRef.current.onDisconnect?.(), 0);
+  }, []);
+
+  const disconnect = useCallback(() => {
+    resumeRef.current = { index: 0, at: 0 };
+    drop();
+  }, [drop]);
+
+  const connect = async (options: TranscriptionConnectOptions) => {
+    if (connectedRef.current) {
+      console.warn('Already connected');
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, CONNECT_DELAY_MS));
+    diarizeRef.current = !!options.diarize;
+    keytermsRef.current = options.keyterms ?? [];
+    connectedRef.current = true;
+    setIsConnected(true);
+    callbacksRef.current.onSessionStarted?.();
+    console.log(`🎬 Replaying scenario "${scenario.name}"`);
+
+    // Event times and word offsets count from where this connection picks up
+    const resume = resumeRef.current;
+    let previousAt = resume.at;
+    scenario.events.slice(resume.index).forEach((event, offset) => {
+      const index = resume.index + offset;
+      const eventStart = previousAt;
+      previousAt = event.at;
+      timersRef.current.push(setTimeout(() => {
+        if (!connectedRef.current) return;
+        switch (event.type) {
+          case 'partial': {
+            const text = applyKeyterms(event.text, keytermsRef.current);
+            setPartialTranscript(text);
+            callbacksRef.current.onPartialTranscript?.(text);
+            break;
+          }
+          case 'commit':
+            setPartialTranscript('');
+            callbacksRef.current.onCommittedTranscript?.({
+              text: applyKeyterms(event.text, keytermsRef.current),
+              words: getCommitWords(event, eventStart).map(({ speakerId, ...word }) => ({
+                ...word,
+                text: applyKeyterms(word.text, keytermsRef.current),
+                start: word.start - resume.at,
+                end: word.end - resume.at,
+                ...(diarizeRef.current && speakerId && { speakerId }),
+              })),
+              ...(event.languageCode && { languageCode: event.languageCode }),
+            });
+            break;
+          case 'error':
+            callbacksRef.current.onError?.(new Error(event.message));
+            if (event.fatal) {
+              resumeRef.current = { index: index + 1, at: event.at };
+              drop();
+            }
+            break;
+          case 'disconnect':
+            resumeRef.current = { index: index + 1, at: event.at };
+            drop();
+            break;
+        }
+      }, (event.at - resume.at) * 1000));
+    });
+  };
+
+  // Stop replaying on unmount
+  useEffect(() => () => clearTimers(), []);
+
+  return {
+    isConnected,
+    partialTranscript,
+    usesMicrophone: false,
+    connect,
+    disconnect,
+    sendAudio: () => {},
+    commit: () => {},
+  };
+}
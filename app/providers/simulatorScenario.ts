@@ -0,0 +1,241 @@
+/**
+ * Simulator Scenarios
+ *
+ * A scenario is a script of transcription events replayed by the simulator
+ * provider, so the app can be demoed, trained on and regression-tested
+ * without a microphone, network or ElevenLabs credits.
+ *
+ * Scenario JSON:
+ * ```json
+ * {
+ *   "name": "Radio check",
+ *   "events": [
+ *     { "at": 0.8, "type": "partial", "text": "Base, this is" },
+ *     { "at": 2.1, "type": "commit", "text": "Base, this is Alpha 1, radio check.",
+ *       "speaker": "speaker_0",
+ *       "words": [{ "text": "Base,", "start": 0.4, "end": 0.7 }, ...] },
+ *     { "at": 9, "type": "error", "message": "Quota exceeded", "fatal": true },
+ *     { "at": 12, "type": "disconnect" }
+ *   ]
+ * }
+ * ```
+ * - `at`: seconds from the start of the session
+ * - `commit` words are optional; without them the words are spread evenly
+ *   between the previous event and the commit
+ * - `speaker` attributes the commit's words to a speaker when diarizing
+ *   (words can also carry their own `speakerId`)
+ * - words may carry a `logprob` to script low-confidence recognition
+ * - a `fatal` error closes the connection after reporting the error
+ * - near-misses of vocabulary terms are spelled as the vocabulary spells
+ *   them, as by a recognizer biased towards the terms (see `applyKeyterms`)
+ *
+ * @module providers/simulatorScenario
+ */
+
+import { WordTiming } from '../utils/wordTimings';
+import { isFuzzyMatch } from '../utils/fuzzyMatch';
+
+/**
+ * Edits per word by which a scripted word may miss a vocabulary term
+ */
+const KEYTERM_TOLERANCE = 1;
+
+/**
+ * Shortest term word near-misses are corrected to (shorter words would
+ * match unrelated words by sound)
+ */
+const MIN_KEYTERM_WORD_LENGTH = 4;
+
+/**
+ * Single scripted event
+ */
+export type SimulatorEvent =
+  | { at: number; type: 'partial'; text: string }
+  | { at: number; type: 'commit'; text: string; words?: WordTiming[]; languageCode?: string; speaker?: string }
+  | { at: number; type: 'error'; message: string; fatal?: boolean }
+  | { at: number; type: 'disconnect' };
+
+/**
+ * Script replayed by the simulator
+ */
+export interface SimulatorScenario {
+  name: string;
+  /** Events in replay order */
+  events: SimulatorEvent[];
+}
+
+/**
+ * Scenario used when no custom scenario has been loaded
+ */
+export const DEFAULT_SCENARIO: SimulatorScenario = {
+  name: 'Radio exercise',
+  events: [
+    { at: 1.0, type: 'partial', text: 'Base, this is' },
+    { at: 1.8, type: 'partial', text: 'Base, this is Alpha 1,' },
+    {
+      at: 2.6,
+      type: 'commit',
+      text: 'Base, this is Alpha 1, radio check, over.',
+      languageCode: 'en',
+      speaker: 'speaker_0',
+      words: [
+        { text: 'Base,', start: 0.4, end: 0.8 },
+        { text: 'this', start: 0.9, end: 1.0 },
+        { text: 'is', start: 1.1, end: 1.2 },
+        { text: 'Alpha', start: 1.3, end: 1.6, logprob: -1.2 },
+        { text: '1,', start: 1.6, end: 1.8, logprob: -0.9 },
+        { text: 'radio', start: 1.9, end: 2.1 },
+        { text: 'check,', start: 2.1, end: 2.3 },
+        { text: 'over.', start: 2.3, end: 2.5 },
+      ],
+    },
+    { at: 4.5, type: 'partial', text: 'Alpha 1, this is Base,' },
+    { at: 5.6, type: 'commit', text: 'Alpha 1, this is Base, loud and clear, over.', languageCode: 'en', speaker: 'speaker_1' },
+    { at: 8.0, type: 'partial', text: 'Base, Alpha 1, urgent,' },
+    { at: 9.2, type: 'partial', text: 'Base, Alpha 1, urgent, casualty at' },
+    {
+      at: 11.0,
+      type: 'commit',
+      text: 'Base, Alpha 1, urgent, casualty at checkpoint 3, request medivac, over.',
+      languageCode: 'en',
+      speaker: 'speaker_0',
+    },
+    { at: 13.5, type: 'commit', text: 'Alpha 1, Base, medevac on the way, ETA 10 minutes, out.', languageCode: 'en', speaker: 'speaker_1' },
+    { at: 17.0, type: 'commit', text: 'Base, this is Bravo 2, in position at checkpoint 5, over.', languageCode: 'en', speaker: 'speaker_2' },
+    { at: 19.5, type: 'partial', text: 'Bravo 2, Base, copy' },
+  ],
+};
+
+/**
+ * Spell near-misses of vocabulary terms the way the vocabulary does
+ * ("medivac" becomes "medevac" when "medevac" is a term), word by word,
+ * keeping the punctuation around each word
+ *
+ * @param text - Scripted text
+ * @param keyterms - Vocabulary terms sent on connect
+ * @returns The text as a recognizer biased towards the terms would write it
+ */
+export function applyKeyterms(text: string, keyterms: string[]): string {
+  const termWords: string[] = [];
+  keyterms.forEach(term => term.split(/\s+/).forEach(word => {
+    if (word.length >= MIN_KEYTERM_WORD_LENGTH) termWords.push(word);
+  }));
+  if (termWords.length === 0) return text;
+
+  return text.replace(/\S+/g, token => {
+    const match = /^([("'«]*)(.*?)([)"'».,!?;:]*)$/.exec(token)!;
+    const word = match[2];
+    if (!word || termWords.some(term => term.toLowerCase() === word.toLowerCase())) return token;
+    const term = termWords.find(candidate => isFuzzyMatch(word, candidate, KEYTERM_TOLERANCE));
+    return term ? match[1] + term + match[3] : token;
+  });
+}
+
+/**
+ * Spread the words of a text evenly over a span of seconds
+ */
+function spreadWords(text: string, start: number, end: number): WordTiming[] {
+  const words = text.split(/\s+/).filter(word => word !== '');
+  const step = words.length > 0 ? (end - start) / words.length : 0;
+  return words.map((word, index) => ({
+    text: word,
+    start: start + index * step,
+    end: start + (index + 1) * step,
+  }));
+}
+
+/**
+ * Words of a commit event, spread over the time since the previous event if not scripted
+ * Words without a speaker of their own are attributed to the event's speaker
+ *
+ * @param event - Commit event
+ * @param previousAt - Time of the previous event in seconds
+ * @returns Word timings
+ */
+export function getCommitWords(event: Extract<SimulatorEvent, { type: 'commit' }>, previousAt: number): WordTiming[] {
+  const words = event.words && event.words.length > 0
+    ? event.words
+    : spreadWords(event.text, previousAt, event.at);
+  const speaker = event.speaker;
+  return speaker ? words.map(word => (word.speakerId ? word : { ...word, speakerId: speaker })) : words;
+}
+
+/**
+ * Check the scripted words of a commit event
+ *
+ * @param words - Words as found in the scenario
+ * @param eventNumber - 1-based number of the event, for error messages
+ * @throws Error describing the first problem found
+ */
+function validateWords(words: unknown[], eventNumber: number) {
+  words.forEach((value, index) => {
+    const word = value as Record<string, unknown> | null;
+    const prefix = `Event ${eventNumber}: word ${index + 1}`;
+    if (!word || typeof word !== 'object' || typeof word.text !== 'string') {
+      throw new Error(`${prefix}: "text" must be a string`);
+    }
+    if (typeof word.start !== 'number' || !isFinite(word.start) || word.start < 0) {
+      throw new Error(`${prefix}: "start" must be a non-negative number of seconds`);
+    }
+    if (typeof word.end !== 'number' || !isFinite(word.end) || word.end < word.start) {
+      throw new Error(`${prefix}: "end" must be a number of seconds no earlier than "start"`);
+    }
+    if (word.speakerId !== undefined && typeof word.speakerId !== 'string') {
+      throw new Error(`${prefix}: "speakerId" must be a string`);
+    }
+    if (word.logprob !== undefined && (typeof word.logprob !== 'number' || !isFinite(word.logprob))) {
+      throw new Error(`${prefix}: "logprob" must be a number`);
+    }
+  });
+}
+
+/**
+ * Parse and validate a scenario
+ *
+ * @param json - Scenario JSON text
+ * @returns The scenario, events sorted by time
+ * @throws Error describing the first problem found
+ */
+export function parseScenario(json: string): SimulatorScenario {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.events)) {
+    throw new Error('Scenario must have an "events" array');
+  }
+
+  const events: SimulatorEvent[] = data.events.map((event: Record<string, unknown>, index: number) => {
+    if (typeof event?.at !== 'number' || event.at < 0) {
+      throw new Error(`Event ${index + 1}: "at" must be a non-negative number of seconds`);
+    }
+    switch (event.type) {
+      case 'partial':
+      case 'commit':
+        if (typeof event.text !== 'string') {
+          throw new Error(`Event ${index + 1}: "text" is required`);
+        }
+        if (event.type === 'commit' && event.words !== undefined && !Array.isArray(event.words)) {
+          throw new Error(`Event ${index + 1}: "words" must be an array`);
+        }
+        if (event.type === 'commit' && Array.isArray(event.words)) {
+          validateWords(event.words, index + 1);
+        }
+        if (event.type === 'commit' && event.speaker !== undefined && typeof event.speaker !== 'string') {
+          throw new Error(`Event ${index + 1}: "speaker" must be a string`);
+        }
+        return event as SimulatorEvent;
+      case 'error':
+        if (typeof event.message !== 'string') {
+          throw new Error(`Event ${index + 1}: "message" is required`);
+        }
+        return event as SimulatorEvent;
+      case 'disconnect':
+        return event as SimulatorEvent;
+      default:
+        throw new Error(`Event ${index + 1}: unknown type "${String(event.type)}"`);
+    }
+  });
+
+  return {
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Scenario',
+    events: events.slice().sort((a, b) => a.at - b.at),
+  };
+}
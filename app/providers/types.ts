@@ -0,0 +1,96 @@
+/**
+ * Speech-to-Text Provider Interface
+ *
+ * The page talks to transcription backends only through these types, so a
+ * backend (ElevenLabs Scribe, a self-hosted Whisper/Vosk WebSocket server,
+ * ...) is an adapter hook returning a `TranscriptionProvider`.
+ *
+ * Audio either comes from a microphone the provider opens itself, or is
+ * pushed by the page with `sendAudio` as base64 16-bit little-endian mono
+ * PCM at 16 kHz (push-to-talk).
+ *
+ * @module providers/types
+ */
+
+import { WordTiming } from '../utils/wordTimings';
+
+/**
+ * Microphone a provider streams from
+ */
+export interface ProviderMicrophone {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  deviceId?: string;
+}
+
+/**
+ * Options for opening a transcription connection
+ */
+export interface TranscriptionConnectOptions {
+  /** Microphone to stream; omitted when audio is pushed with `sendAudio` */
+  microphone?: ProviderMicrophone;
+  /** Commit only when `commit` is called instead of at pauses in speech */
+  manualCommit?: boolean;
+  /** ISO 639 code of the spoken language; omitted to let the provider detect it */
+  languageCode?: string;
+  /** Terms to bias recognition towards (callsigns, jargon), most important first */
+  keyterms?: string[];
+  /** Attribute words to speakers (`WordTiming.speakerId`) */
+  diarize?: boolean;
+}
+
+/**
+ * Final transcript of an utterance
+ */
+export interface CommittedTranscript {
+  text: string;
+  /** Spoken words, timed from the start of the audio the provider received */
+  words: WordTiming[];
+  /** Language the provider detected, if it reports one */
+  languageCode?: string;
+}
+
+/**
+ * Events a provider reports while connected
+ */
+export interface TranscriptionCallbacks {
+  /** The provider started receiving audio (word offsets count from here) */
+  onSessionStarted?: () => void;
+  /** Interim text of the utterance in progress */
+  onPartialTranscript?: (text: string) => void;
+  /** Final text of an utterance */
+  onCommittedTranscript?: (transcript: CommittedTranscript) => void;
+  /** Any error during the connection */
+  onError?: (error: Error) => void;
+  /** The connection closed, whether asked to or not */
+  onDisconnect?: () => void;
+}
+
+/**
+ * A connected (or connectable) transcription backend
+ */
+export interface TranscriptionProvider {
+  /** Whether a connection is open */
+  isConnected: boolean;
+  /** Interim text of the utterance in progress, for display */
+  partialTranscript: string;
+  /** Whether the provider transcribes real microphone audio (false for the simulator) */
+  usesMicrophone: boolean;
+  /**
+   * Open a connection
+   * @throws Error if the connection cannot be opened
+   */
+  connect: (options: TranscriptionConnectOptions) => Promise<void>;
+  /** Close the connection */
+  disconnect: () => void;
+  /**
+   * Send a chunk of pushed audio
+   * @throws Error if not connected
+   */
+  sendAudio: (audioBase64: string) => void;
+  /**
+   * Commit the audio sent so far as an utterance
+   * @throws Error if not connected
+   */
+  commit: () => void;
+}
@@ -67,7 +67,6 @@ export interface Translations {
   partialMatchingEnabled: string;
   partialMatchingDisabled: string;
   partialMatchTooltip: string;
-  clearTranscripts: string;
   viewOnGithub: string;
   firstTimeNotice0Title: string;
   firstTimeNotice0Text: string;
@@ -83,6 +82,225 @@ export interface Translations {
   newestFirst: string;
   oldestFirst: string;
   transcriptOrderChanged: string;
+  recoverSessionTitle: string;
+  recoverSessionDesc: string;
+  recoverPendingPartial: string;
+  recoverSession: string;
+  discardSession: string;
+  sessionRecovered: string;
+  sessionDiscarded: string;
+  sessionLibrary: string;
+  newSession: string;
+  currentSession: string;
+  sessionOperator: string;
+  sessionOperatorPlaceholder: string;
+  sessionNotes: string;
+  showArchivedSessions: string;
+  noSessions: string;
+  sessionOpen: string;
+  sessionArchived: string;
+  openSession: string;
+  renameSession: string;
+  duplicateSession: string;
+  archiveSession: string;
+  unarchiveSession: string;
+  deleteSession: string;
+  deleteSessionConfirm: string;
+  sessionCopySuffix: string;
+  sessionCreated: string;
+  sessionOpened: string;
+  sessionDuplicated: string;
+  sessionDeleted: string;
+  stopRecordingFirst: string;
+  sessionName: string;
+  sessionPeriod: string;
+  verifyLedger: string;
+  ledgerIntegrity: string;
+  verifyingLedger: string;
+  chainValid: string;
+  chainBroken: string;
+  sealedEntries: string;
+  chainHead: string;
+  chainEntryValid: string;
+  chainEntryAltered: string;
+  chainEntryBrokenLink: string;
+  chainEntryUnsealed: string;
+  close: string;
+  editEntry: string;
+  entryEdited: string;
+  revisionHistory: string;
+  originalText: string;
+  entryUpdated: string;
+  exportTextMode: string;
+  exportTextCorrected: string;
+  exportTextOriginal: string;
+  exportTextBoth: string;
+  unknownOperator: string;
+  voidEntry: string;
+  entryVoided: string;
+  voidReason: string;
+  voidReasonPlaceholder: string;
+  selectEntry: string;
+  entriesSelected: string;
+  voidSelected: string;
+  entriesVoided: string;
+  hideVoided: string;
+  hideVoidedDesc: string;
+  manualEntry: string;
+  manualEntryPlaceholder: string;
+  backdateEntry: string;
+  entryTime: string;
+  addManualEntry: string;
+  manualEntryAdded: string;
+  manualSource: string;
+  loggedAt: string;
+  exportJSON: string;
+  exportSRT: string;
+  exportVTT: string;
+  noTimedEntries: string;
+  wordTimeOffset: string;
+  timestampFormat: string;
+  timestampLocal: string;
+  timestampUtc: string;
+  timestampElapsed: string;
+  recordAudio: string;
+  recordAudioDesc: string;
+  recordAudioEnabled: string;
+  recordAudioDisabled: string;
+  playAudio: string;
+  stopAudio: string;
+  audioNotAvailable: string;
+  audioRecordingUnavailable: string;
+  exportAudio: string;
+  noAudioToExport: string;
+  inputLevel: string;
+  inputWatchdog: string;
+  inputWatchdogDesc: string;
+  inputSilentWarning: string;
+  inputClippingWarning: string;
+  pushToTalk: string;
+  pushToTalkDesc: string;
+  pushToTalkEnabled: string;
+  pushToTalkDisabled: string;
+  pushToTalkKey: string;
+  pushToTalkKeyDesc: string;
+  holdToTalk: string;
+  talking: string;
+  backupMicrophone: string;
+  backupMicrophoneDesc: string;
+  noBackupMicrophone: string;
+  backupMicrophoneChanged: string;
+  microphoneSwitchedNote: string;
+  microphoneLostNote: string;
+  systemSource: string;
+  transcriptionProvider: string;
+  providerElevenLabs: string;
+  providerSimulator: string;
+  simulatorDesc: string;
+  simulatorScenario: string;
+  loadScenario: string;
+  useBuiltInScenario: string;
+  scenarioLoaded: string;
+  invalidScenario: string;
+  reconnecting: string;
+  reconnectAttempt: string;
+  reconnected: string;
+  gapNote: string;
+  transcriptionLanguage: string;
+  transcriptionLanguageDesc: string;
+  autoDetectLanguage: string;
+  transcriptionLanguageNextRecording: string;
+  entryLanguage: string;
+  filterByLanguage: string;
+  allLanguages: string;
+  vocabulary: string;
+  vocabularyDesc: string;
+  vocabularyTerm: string;
+  vocabularyTermPlaceholder: string;
+  addVocabularyTerm: string;
+  removeVocabularyTerm: string;
+  vocabularyFromHighlights: string;
+  vocabularyTermsSent: string;
+  vocabularyTermAdded: string;
+  vocabularyTermRemoved: string;
+  vocabularyNextRecording: string;
+  diarization: string;
+  diarizationDesc: string;
+  diarizationEnabled: string;
+  diarizationDisabled: string;
+  speaker: string;
+  filterBySpeaker: string;
+  allSpeakers: string;
+  renameSpeakers: string;
+  speakerNamePlaceholder: string;
+  confidenceThreshold: string;
+  confidenceThresholdDesc: string;
+  wordConfidence: string;
+  needsReview: string;
+  lowConfidenceWords: string;
+  matchType: string;
+  matchTypeWord: string;
+  matchTypePhrase: string;
+  matchTypeRegex: string;
+  invalidRegex: string;
+  regexMatchesEmpty: string;
+  stemMatchTooltip: string;
+  partialMatchMode: string;
+  partialMatchSubstring: string;
+  partialMatchFinnish: string;
+  partialMatchEnglish: string;
+  fuzzyMatchTooltip: string;
+  fuzzyTolerance: string;
+  fuzzyToleranceDesc: string;
+  fuzzyOff: string;
+  highlightProfiles: string;
+  highlightProfilesDesc: string;
+  defaultHighlightProfile: string;
+  profileActive: string;
+  editProfileRules: string;
+  raiseProfilePriority: string;
+  lowerProfilePriority: string;
+  removeHighlightProfile: string;
+  profileName: string;
+  newHighlightProfile: string;
+  newProfilePlaceholder: string;
+  profileRules: string;
+  activeHighlightProfiles: string;
+  noActiveHighlightProfiles: string;
+  highlightProfileAdded: string;
+  highlightProfileRemoved: string;
+  importMode: string;
+  importMerge: string;
+  importReplace: string;
+  importMergeDesc: string;
+  importReplaceDesc: string;
+  importReplaceConfirm: string;
+  importHighlightRules: string;
+  exportHighlightRules: string;
+  highlightRulesImported: string;
+  duplicateRulesSkipped: string;
+  invalidRuleSet: string;
+  highlightRulesExported: string;
+  keywordAlert: string;
+  keywordAlertLog: string;
+  clearAlertLog: string;
+  alertSound: string;
+  alertSoundDesc: string;
+  alertNotification: string;
+  alertNotificationDesc: string;
+  alertFlash: string;
+  alertFlashDesc: string;
+  alertOnPartial: string;
+  alertOnPartialDesc: string;
+  alertCooldown: string;
+  alertCooldownDesc: string;
+  alertPartialSource: string;
+  vocabularyUnsupported: string;
+  diarizationUnsupported: string;
+  chainUnverifiable: string;
+  sealingFailed: string;
+  audioNotCopied: string;
+  audioNotCopiedDesc: string;
 }
 
 export const translations: Record<Language, Translations> = {
@@ -153,7 +371,6 @@ export const translations: Record<Language, Translations> = {
     partialMatchingEnabled: "Partial matching enabled",
     partialMatchingDisabled: "Partial matching disabled",
     partialMatchTooltip: "Partial match",
-    clearTranscripts: "Clear All Transcripts",
     viewOnGithub: "View on GitHub",
     firstTimeNotice0Title: "Get Your Free API Key",
     firstTimeNotice0Text: "ElevenLabs offers free API keys with generous usage limits. Get your personal key to start transcribing!",
@@ -162,13 +379,232 @@ export const translations: Record<Language, Translations> = {
     firstTimeNotice1Title: "Privacy Notice",
     firstTimeNotice1Text: "Transcriptions are not saved on any server. All data stays in your browser.",
     firstTimeNotice2Title: "Data Persistence",
-    firstTimeNotice2Text: "Transcriptions will disappear if you reload the page. Download them before closing!",
+    firstTimeNotice2Text: "Transcriptions are saved in this browser and can be recovered after a reload or crash. Download them to keep a permanent copy!",
     dismiss: "Dismiss",
-    reloadWarning: "You have unsaved transcriptions. They will be lost if you reload the page. Download them first!",
+    reloadWarning: "You have transcriptions that have not been downloaded. They can be recovered from this browser, but download them to keep a permanent copy!",
     transcriptOrder: "Transcript Order",
     newestFirst: "Newest First",
     oldestFirst: "Oldest First",
     transcriptOrderChanged: "Transcript order changed",
+    recoverSessionTitle: "Recover Unsaved Session",
+    recoverSessionDesc: "A session that was still open was found in this browser. It may have been interrupted by a crash or reload. Closing it keeps it in the session library.",
+    recoverPendingPartial: "Includes an unfinished real-time transcript",
+    recoverSession: "Recover Session",
+    discardSession: "Close Session",
+    sessionRecovered: "Session recovered",
+    sessionDiscarded: "Previous session closed and kept in the library",
+    sessionLibrary: "Session Library",
+    newSession: "New Session",
+    currentSession: "Open session",
+    sessionOperator: "Operator",
+    sessionOperatorPlaceholder: "Name or callsign",
+    sessionNotes: "Notes",
+    showArchivedSessions: "Show archived sessions",
+    noSessions: "No sessions yet. Start recording to create one.",
+    sessionOpen: "Open",
+    sessionArchived: "Archived",
+    openSession: "Open",
+    renameSession: "Rename",
+    duplicateSession: "Duplicate",
+    archiveSession: "Archive",
+    unarchiveSession: "Unarchive",
+    deleteSession: "Delete session",
+    deleteSessionConfirm: "Permanently delete this session and all of its transcripts? This cannot be undone:",
+    sessionCopySuffix: "(copy)",
+    sessionCreated: "New session started",
+    sessionOpened: "Session opened",
+    sessionDuplicated: "Session duplicated",
+    sessionDeleted: "Session deleted",
+    stopRecordingFirst: "Stop recording before switching sessions",
+    sessionName: "Session",
+    sessionPeriod: "Period",
+    verifyLedger: "Verify Integrity",
+    ledgerIntegrity: "Ledger Integrity",
+    verifyingLedger: "Verifying hash chain...",
+    chainValid: "Hash chain intact. No entry has been altered.",
+    chainBroken: "Hash chain broken! Entries below have been altered, removed or reordered.",
+    sealedEntries: "Sealed entries",
+    chainHead: "Chain head",
+    chainEntryValid: "Valid",
+    chainEntryAltered: "Content altered",
+    chainEntryBrokenLink: "Chain link broken (entry removed or reordered)",
+    chainEntryUnsealed: "Not sealed",
+    close: "Close",
+    editEntry: "Edit",
+    entryEdited: "Edited",
+    revisionHistory: "Revision history",
+    originalText: "Original",
+    entryUpdated: "Entry corrected",
+    exportTextMode: "Text for corrected entries",
+    exportTextCorrected: "Corrected text",
+    exportTextOriginal: "Original text",
+    exportTextBoth: "Both original and corrected",
+    unknownOperator: "Unknown operator",
+    voidEntry: "Void",
+    entryVoided: "Voided",
+    voidReason: "Reason for voiding",
+    voidReasonPlaceholder: "Reason for voiding (required)",
+    selectEntry: "Select entry",
+    entriesSelected: "selected",
+    voidSelected: "Void selected",
+    entriesVoided: "Entries voided",
+    hideVoided: "Hide voided entries",
+    hideVoidedDesc: "Voided entries stay in the ledger and exports",
+    manualEntry: "Manual entry",
+    manualEntryPlaceholder: "Phone call, written message, decision… (Ctrl+Enter to add)",
+    backdateEntry: "Back-date",
+    entryTime: "Entry time",
+    addManualEntry: "Add entry",
+    manualEntryAdded: "Manual entry added",
+    manualSource: "Manual",
+    loggedAt: "logged at",
+    exportJSON: "JSON",
+    exportSRT: "SRT subtitles",
+    exportVTT: "WebVTT subtitles",
+    noTimedEntries: "No entries with word timing to export",
+    wordTimeOffset: "into recording",
+    timestampFormat: "Timestamp format",
+    timestampLocal: "Local",
+    timestampUtc: "UTC (Zulu)",
+    timestampElapsed: "Session elapsed",
+    recordAudio: "Record audio",
+    recordAudioDesc: "Keep a local recording of the microphone for per-entry playback",
+    recordAudioEnabled: "Audio recording enabled",
+    recordAudioDisabled: "Audio recording disabled",
+    playAudio: "Play audio",
+    stopAudio: "Stop audio",
+    audioNotAvailable: "No recorded audio for this entry",
+    audioRecordingUnavailable: "Transcribing, but audio could not be recorded",
+    exportAudio: "Audio",
+    noAudioToExport: "No recorded audio to export",
+    inputLevel: "Input level",
+    inputWatchdog: "Microphone watchdog (seconds)",
+    inputWatchdogDesc: "Warn when the input has been silent or clipping this long (0 = off)",
+    inputSilentWarning: "No sound from the microphone. Check that it is connected, unmuted and selected.",
+    inputClippingWarning: "Microphone input is clipping. Lower the input gain or move further from the microphone.",
+    pushToTalk: "Push-to-talk",
+    pushToTalkDesc: "Transcribe only while a key or the on-screen button is held",
+    pushToTalkEnabled: "Push-to-talk enabled (applies from the next recording)",
+    pushToTalkDisabled: "Push-to-talk disabled (applies from the next recording)",
+    pushToTalkKey: "Talk key",
+    pushToTalkKeyDesc: "Focus the field and press the key to use",
+    holdToTalk: "Hold to talk",
+    talking: "Talking…",
+    backupMicrophone: "Backup microphone",
+    backupMicrophoneDesc: "Switched to automatically if the selected microphone is unplugged while recording",
+    noBackupMicrophone: "No backup",
+    backupMicrophoneChanged: "Backup microphone",
+    microphoneSwitchedNote: "Microphone disconnected, switched to backup microphone",
+    microphoneLostNote: "Microphone disconnected, no backup microphone available",
+    systemSource: "System",
+    transcriptionProvider: "Transcription provider",
+    providerElevenLabs: "ElevenLabs Scribe (online)",
+    providerSimulator: "Simulator (offline, scripted)",
+    simulatorDesc: "Replays a scripted scenario instead of transcribing the microphone. No network or credits are used.",
+    simulatorScenario: "Scenario",
+    loadScenario: "Load scenario",
+    useBuiltInScenario: "Use built-in scenario",
+    scenarioLoaded: "Scenario",
+    invalidScenario: "Invalid scenario",
+    reconnecting: "Reconnecting…",
+    reconnectAttempt: "attempt",
+    reconnected: "Reconnected",
+    gapNote: "Gap in coverage",
+    transcriptionLanguage: "Transcription language",
+    transcriptionLanguageDesc: "Language spoken on the channel, independent of the interface language. Auto-detect lets the engine recognize it for every utterance.",
+    autoDetectLanguage: "Auto-detect",
+    transcriptionLanguageNextRecording: "The transcription language applies from the next recording",
+    entryLanguage: "Language",
+    filterByLanguage: "Language",
+    allLanguages: "All languages",
+    vocabulary: "Recognition vocabulary",
+    vocabularyDesc: "Callsigns and jargon sent to the transcription engine on connect so they are recognized more reliably. Highlighted words are included automatically.",
+    vocabularyTerm: "Vocabulary term",
+    vocabularyTermPlaceholder: "e.g. callsign or term",
+    addVocabularyTerm: "Add",
+    removeVocabularyTerm: "Remove term",
+    vocabularyFromHighlights: "From highlight rules",
+    vocabularyTermsSent: "Terms sent",
+    vocabularyTermAdded: "Vocabulary term added",
+    vocabularyTermRemoved: "Vocabulary term removed",
+    vocabularyNextRecording: "Vocabulary term added, it applies from the next recording",
+    diarization: "Speaker diarization",
+    diarizationDesc: "Tell speakers apart and label each entry with its speaker. Applies from the next recording.",
+    diarizationEnabled: "Speaker diarization enabled",
+    diarizationDisabled: "Speaker diarization disabled",
+    speaker: "Speaker",
+    filterBySpeaker: "Speaker",
+    allSpeakers: "All speakers",
+    renameSpeakers: "Rename speakers",
+    speakerNamePlaceholder: "e.g. callsign",
+    confidenceThreshold: "Word confidence threshold (%)",
+    confidenceThresholdDesc: "Words recognized with lower confidence are underlined and their entries marked for review (0 = off)",
+    wordConfidence: "Confidence",
+    needsReview: "Needs review",
+    lowConfidenceWords: "Low confidence",
+    matchType: "Match type",
+    matchTypeWord: "Word",
+    matchTypePhrase: "Phrase",
+    matchTypeRegex: "Regex",
+    invalidRegex: "Invalid regular expression",
+    regexMatchesEmpty: "The expression matches empty text and would highlight everything",
+    stemMatchTooltip: "Inflected form",
+    partialMatchMode: "Inflection",
+    partialMatchSubstring: "Substring",
+    partialMatchFinnish: "Finnish stemming",
+    partialMatchEnglish: "English stemming",
+    fuzzyMatchTooltip: "Near match",
+    fuzzyTolerance: "Fuzzy",
+    fuzzyToleranceDesc: "Also highlight near-misses of the word, e.g. misrecognized callsigns (edits allowed per word)",
+    fuzzyOff: "Fuzzy: off",
+    highlightProfiles: "Highlight Profiles",
+    highlightProfilesDesc: "Keyword sets per operation; several can be active, higher ones take priority",
+    defaultHighlightProfile: "Default",
+    profileActive: "Active",
+    editProfileRules: "Edit the rules of this profile",
+    raiseProfilePriority: "Raise priority",
+    lowerProfilePriority: "Lower priority",
+    removeHighlightProfile: "Remove profile",
+    profileName: "Profile name",
+    newHighlightProfile: "New profile",
+    newProfilePlaceholder: "e.g. SAR, Exercise",
+    profileRules: "Rules of profile",
+    activeHighlightProfiles: "Highlight profiles",
+    noActiveHighlightProfiles: "No highlight profile active",
+    highlightProfileAdded: "Highlight profile added",
+    highlightProfileRemoved: "Highlight profile removed",
+    importMode: "Import mode",
+    importMerge: "Merge",
+    importReplace: "Replace",
+    importMergeDesc: "Add imported rules to the profiles of the same name, skipping duplicates",
+    importReplaceDesc: "Replace the rules of the profiles of the same name with the imported ones",
+    importReplaceConfirm: "Replace the rules of the profiles in the file? Their current rules will be removed.",
+    importHighlightRules: "Import rules",
+    exportHighlightRules: "Export rules",
+    highlightRulesImported: "Highlight rules imported",
+    duplicateRulesSkipped: "duplicates skipped",
+    invalidRuleSet: "Invalid rule set file",
+    highlightRulesExported: "Highlight rules exported",
+    keywordAlert: "Keyword alert",
+    keywordAlertLog: "Keyword alerts",
+    clearAlertLog: "Clear",
+    alertSound: "Sound",
+    alertSoundDesc: "Play a tone when the rule matches",
+    alertNotification: "Notification",
+    alertNotificationDesc: "Show a desktop notification when the rule matches while the tab is in the background",
+    alertFlash: "Flash",
+    alertFlashDesc: "Flash the screen in the rule's color when the rule matches",
+    alertOnPartial: "Partial transcripts",
+    alertOnPartialDesc: "Alert already on partial transcripts, before they are committed",
+    alertCooldown: "Cooldown",
+    alertCooldownDesc: "Seconds after an alert during which the rule does not alert again",
+    alertPartialSource: "partial",
+    vocabularyUnsupported: "The selected transcription provider does not accept a vocabulary, so these terms are not sent and do not affect recognition. They are kept for providers that support them.",
+    diarizationUnsupported: "Not supported by the selected transcription provider.",
+    chainUnverifiable: "Ledger cannot be verified: entries below are not sealed, so changes to them would go unnoticed.",
+    sealingFailed: "Entry could not be sealed and will not pass verification",
+    audioNotCopied: "Audio not copied",
+    audioNotCopiedDesc: "The recorded audio stays with the session this one was copied from",
   },
   fi: {
     title: "comLedger",
@@ -237,7 +673,6 @@ export const translations: Record<Language, Translations> = {
     partialMatchingEnabled: "Osaosumien korostus päällä",
     partialMatchingDisabled: "Osaosumien korostus pois",
     partialMatchTooltip: "Osaosuma",
-    clearTranscripts: "Tyhjennä kaikki transkriptiot",
     viewOnGithub: "Näytä GitHubissa",
     firstTimeNotice0Title: "Hanki ilmainen API-avain",
     firstTimeNotice0Text: "ElevenLabs tarjoaa ilmaisia API-avaimia n. 15 minuutin käännösrajalla. Hanki henkilökohtainen avaimesi aloittaaksesi transkriptoinnin!",
@@ -246,12 +681,231 @@ export const translations: Record<Language, Translations> = {
     firstTimeNotice1Title: "Tietosuojailmoitus",
     firstTimeNotice1Text: "Transkriptioita ei tallenneta palvelimelle. Kaikki data pysyy selaimessasi.",
     firstTimeNotice2Title: "Datan säilyvyys",
-    firstTimeNotice2Text: "Transkriptiot katoavat sivun päivittäessä. Muista ladata ne ennen sivun sulkemista!",
+    firstTimeNotice2Text: "Transkriptiot tallennetaan selaimeesi ja ne voi palauttaa sivun päivityksen tai kaatumisen jälkeen. Lataa ne pysyvää kopiota varten!",
     dismiss: "Sulje",
-    reloadWarning: "Sinulla on tallentamattomia transkriptioita. Ne katoavat sivun päivittäessä. Lataa ne ensin!",
+    reloadWarning: "Sinulla on lataamattomia transkriptioita. Ne voi palauttaa tästä selaimesta, mutta lataa ne pysyvää kopiota varten!",
     transcriptOrder: "Transkriptioiden järjestys",
     newestFirst: "Uusin ylimpänä",
     oldestFirst: "Vanhin ylimpänä",
     transcriptOrderChanged: "Transkriptioiden järjestys vaihdettu",
+    recoverSessionTitle: "Palauta tallentamaton istunto",
+    recoverSessionDesc: "Selaimesta löytyi istunto, joka oli vielä avoinna. Istunto on voinut keskeytyä kaatumisen tai sivun päivityksen vuoksi. Suljettu istunto säilyy istuntokirjastossa.",
+    recoverPendingPartial: "Sisältää keskeneräisen reaaliaikaisen transkription",
+    recoverSession: "Palauta istunto",
+    discardSession: "Sulje istunto",
+    sessionRecovered: "Istunto palautettu",
+    sessionDiscarded: "Aiempi istunto suljettu ja säilytetty kirjastossa",
+    sessionLibrary: "Istuntokirjasto",
+    newSession: "Uusi istunto",
+    currentSession: "Avoin istunto",
+    sessionOperator: "Operaattori",
+    sessionOperatorPlaceholder: "Nimi tai kutsutunnus",
+    sessionNotes: "Muistiinpanot",
+    showArchivedSessions: "Näytä arkistoidut istunnot",
+    noSessions: "Ei vielä istuntoja. Aloita nauhoitus luodaksesi istunnon.",
+    sessionOpen: "Avoinna",
+    sessionArchived: "Arkistoitu",
+    openSession: "Avaa",
+    renameSession: "Nimeä uudelleen",
+    duplicateSession: "Monista",
+    archiveSession: "Arkistoi",
+    unarchiveSession: "Palauta arkistosta",
+    deleteSession: "Poista istunto",
+    deleteSessionConfirm: "Poistetaanko istunto ja kaikki sen transkriptiot pysyvästi? Tätä ei voi perua:",
+    sessionCopySuffix: "(kopio)",
+    sessionCreated: "Uusi istunto aloitettu",
+    sessionOpened: "Istunto avattu",
+    sessionDuplicated: "Istunto monistettu",
+    sessionDeleted: "Istunto poistettu",
+    stopRecordingFirst: "Lopeta nauhoitus ennen istunnon vaihtamista",
+    sessionName: "Istunto",
+    sessionPeriod: "Ajanjakso",
+    verifyLedger: "Tarkista eheys",
+    ledgerIntegrity: "Lokin eheys",
+    verifyingLedger: "Tarkistetaan tiivisteketjua...",
+    chainValid: "Tiivisteketju on ehjä. Yhtäkään merkintää ei ole muutettu.",
+    chainBroken: "Tiivisteketju on katkennut! Alla olevia merkintöjä on muutettu, poistettu tai järjestetty uudelleen.",
+    sealedEntries: "Sinetöidyt merkinnät",
+    chainHead: "Ketjun pää",
+    chainEntryValid: "Kelvollinen",
+    chainEntryAltered: "Sisältöä muutettu",
+    chainEntryBrokenLink: "Ketju katkennut (merkintä poistettu tai siirretty)",
+    chainEntryUnsealed: "Ei sinetöity",
+    close: "Sulje",
+    editEntry: "Muokkaa",
+    entryEdited: "Muokattu",
+    revisionHistory: "Muutoshistoria",
+    originalText: "Alkuperäinen",
+    entryUpdated: "Merkintä korjattu",
+    exportTextMode: "Korjattujen merkintöjen teksti",
+    exportTextCorrected: "Korjattu teksti",
+    exportTextOriginal: "Alkuperäinen teksti",
+    exportTextBoth: "Sekä alkuperäinen että korjattu",
+    unknownOperator: "Tuntematon operaattori",
+    voidEntry: "Mitätöi",
+    entryVoided: "Mitätöity",
+    voidReason: "Mitätöinnin syy",
+    voidReasonPlaceholder: "Mitätöinnin syy (pakollinen)",
+    selectEntry: "Valitse merkintä",
+    entriesSelected: "valittu",
+    voidSelected: "Mitätöi valitut",
+    entriesVoided: "Merkintöjä mitätöity",
+    hideVoided: "Piilota mitätöidyt merkinnät",
+    hideVoidedDesc: "Mitätöidyt merkinnät säilyvät lokissa ja vienneissä",
+    manualEntry: "Käsin kirjattu merkintä",
+    manualEntryPlaceholder: "Puhelu, kirjallinen viesti, päätös… (Ctrl+Enter lisää)",
+    backdateEntry: "Takautuva aika",
+    entryTime: "Merkinnän aika",
+    addManualEntry: "Lisää merkintä",
+    manualEntryAdded: "Merkintä lisätty",
+    manualSource: "Käsin",
+    loggedAt: "kirjattu",
+    exportJSON: "JSON",
+    exportSRT: "SRT-tekstitys",
+    exportVTT: "WebVTT-tekstitys",
+    noTimedEntries: "Ei vietäviä merkintöjä, joissa on sanakohtainen ajoitus",
+    wordTimeOffset: "nauhoituksen alusta",
+    timestampFormat: "Aikaleiman muoto",
+    timestampLocal: "Paikallinen",
+    timestampUtc: "UTC (Zulu)",
+    timestampElapsed: "Istunnon kesto",
+    recordAudio: "Tallenna ääni",
+    recordAudioDesc: "Tallenna mikrofonin ääni paikallisesti merkintöjen toistoa varten",
+    recordAudioEnabled: "Äänen tallennus käytössä",
+    recordAudioDisabled: "Äänen tallennus pois käytöstä",
+    playAudio: "Toista ääni",
+    stopAudio: "Pysäytä ääni",
+    audioNotAvailable: "Tälle merkinnälle ei ole tallennettua ääntä",
+    audioRecordingUnavailable: "Litterointi käynnissä, mutta ääntä ei voitu tallentaa",
+    exportAudio: "Ääni",
+    noAudioToExport: "Ei tallennettua ääntä vietäväksi",
+    inputLevel: "Tulotaso",
+    inputWatchdog: "Mikrofonin valvonta (sekuntia)",
+    inputWatchdogDesc: "Varoita, kun tulo on ollut hiljaa tai säröillä näin kauan (0 = pois)",
+    inputSilentWarning: "Mikrofonista ei kuulu ääntä. Tarkista, että se on kytketty, mykistys on pois ja oikea laite on valittu.",
+    inputClippingWarning: "Mikrofonin tulo säröytyy. Pienennä tulotasoa tai siirry kauemmas mikrofonista.",
+    pushToTalk: "Puhepainike",
+    pushToTalkDesc: "Litteroi vain, kun näppäintä tai näytön painiketta pidetään pohjassa",
+    pushToTalkEnabled: "Puhepainike käytössä (seuraavasta tallennuksesta alkaen)",
+    pushToTalkDisabled: "Puhepainike pois käytöstä (seuraavasta tallennuksesta alkaen)",
+    pushToTalkKey: "Puhenäppäin",
+    pushToTalkKeyDesc: "Valitse kenttä ja paina haluamaasi näppäintä",
+    holdToTalk: "Pidä pohjassa puhuaksesi",
+    talking: "Puhutaan…",
+    backupMicrophone: "Varamikrofoni",
+    backupMicrophoneDesc: "Otetaan käyttöön automaattisesti, jos valittu mikrofoni irrotetaan tallennuksen aikana",
+    noBackupMicrophone: "Ei varamikrofonia",
+    backupMicrophoneChanged: "Varamikrofoni",
+    microphoneSwitchedNote: "Mikrofoni irrotettiin, vaihdettiin varamikrofoniin",
+    microphoneLostNote: "Mikrofoni irrotettiin, varamikrofonia ei ole saatavilla",
+    systemSource: "Järjestelmä",
+    transcriptionProvider: "Litterointipalvelu",
+    providerElevenLabs: "ElevenLabs Scribe (verkossa)",
+    providerSimulator: "Simulaattori (offline, käsikirjoitettu)",
+    simulatorDesc: "Toistaa käsikirjoitetun skenaarion mikrofonin litteroinnin sijaan. Verkkoa tai krediittejä ei käytetä.",
+    simulatorScenario: "Skenaario",
+    loadScenario: "Lataa skenaario",
+    useBuiltInScenario: "Käytä sisäänrakennettua skenaariota",
+    scenarioLoaded: "Skenaario",
+    invalidScenario: "Virheellinen skenaario",
+    reconnecting: "Yhdistetään uudelleen…",
+    reconnectAttempt: "yritys",
+    reconnected: "Yhteys palautettu",
+    gapNote: "Katkos litteroinnissa",
+    transcriptionLanguage: "Litterointikieli",
+    transcriptionLanguageDesc: "Kanavalla puhuttu kieli, käyttöliittymän kielestä riippumatta. Automaattinen tunnistus tunnistaa kielen jokaisesta puheenvuorosta.",
+    autoDetectLanguage: "Tunnista automaattisesti",
+    transcriptionLanguageNextRecording: "Litterointikieli otetaan käyttöön seuraavasta tallennuksesta",
+    entryLanguage: "Kieli",
+    filterByLanguage: "Kieli",
+    allLanguages: "Kaikki kielet",
+    vocabulary: "Tunnistussanasto",
+    vocabularyDesc: "Kutsutunnukset ja ammattisanasto, jotka lähetetään litterointipalvelulle yhteyttä avattaessa, jotta ne tunnistetaan luotettavammin. Korostetut sanat sisältyvät automaattisesti.",
+    vocabularyTerm: "Sanaston termi",
+    vocabularyTermPlaceholder: "esim. kutsutunnus tai termi",
+    addVocabularyTerm: "Lisää",
+    removeVocabularyTerm: "Poista termi",
+    vocabularyFromHighlights: "Korostussäännöistä",
+    vocabularyTermsSent: "Lähetettäviä termejä",
+    vocabularyTermAdded: "Termi lisätty sanastoon",
+    vocabularyTermRemoved: "Termi poistettu sanastosta",
+    vocabularyNextRecording: "Termi lisätty sanastoon, se otetaan käyttöön seuraavasta tallennuksesta",
+    diarization: "Puhujien tunnistus",
+    diarizationDesc: "Erottele puhujat ja merkitse jokaiseen merkintään sen puhuja. Otetaan käyttöön seuraavasta tallennuksesta.",
+    diarizationEnabled: "Puhujien tunnistus käytössä",
+    diarizationDisabled: "Puhujien tunnistus pois käytöstä",
+    speaker: "Puhuja",
+    filterBySpeaker: "Puhuja",
+    allSpeakers: "Kaikki puhujat",
+    renameSpeakers: "Nimeä puhujat",
+    speakerNamePlaceholder: "esim. kutsutunnus",
+    confidenceThreshold: "Sanojen varmuusraja (%)",
+    confidenceThresholdDesc: "Tätä epävarmemmin tunnistetut sanat alleviivataan ja niiden merkinnät merkitään tarkistettaviksi (0 = pois)",
+    wordConfidence: "Varmuus",
+    needsReview: "Tarkistettava",
+    lowConfidenceWords: "Epävarmat sanat",
+    matchType: "Osumatyyppi",
+    matchTypeWord: "Sana",
+    matchTypePhrase: "Fraasi",
+    matchTypeRegex: "Säännöllinen lauseke",
+    invalidRegex: "Virheellinen säännöllinen lauseke",
+    regexMatchesEmpty: "Lauseke vastaa tyhjää tekstiä ja korostaisi kaiken",
+    stemMatchTooltip: "Taivutusmuoto",
+    partialMatchMode: "Taivutus",
+    partialMatchSubstring: "Osamerkkijono",
+    partialMatchFinnish: "Suomen taivutus",
+    partialMatchEnglish: "Englannin taivutus",
+    fuzzyMatchTooltip: "Lähes osuma",
+    fuzzyTolerance: "Sumea",
+    fuzzyToleranceDesc: "Korosta myös sanan lähes osuvat muodot, esim. väärin tunnistetut kutsunimet (sallitut muutokset sanaa kohden)",
+    fuzzyOff: "Sumea: pois",
+    highlightProfiles: "Korostusprofiilit",
+    highlightProfilesDesc: "Avainsanajoukot tehtävittäin; useampi voi olla käytössä, ylempi on etusijalla",
+    defaultHighlightProfile: "Oletus",
+    profileActive: "Käytössä",
+    editProfileRules: "Muokkaa profiilin sääntöjä",
+    raiseProfilePriority: "Nosta etusijaa",
+    lowerProfilePriority: "Laske etusijaa",
+    removeHighlightProfile: "Poista profiili",
+    profileName: "Profiilin nimi",
+    newHighlightProfile: "Uusi profiili",
+    newProfilePlaceholder: "esim. Etsintä, Harjoitus",
+    profileRules: "Profiilin säännöt",
+    activeHighlightProfiles: "Korostusprofiilit",
+    noActiveHighlightProfiles: "Ei käytössä olevaa korostusprofiilia",
+    highlightProfileAdded: "Korostusprofiili lisätty",
+    highlightProfileRemoved: "Korostusprofiili poistettu",
+    importMode: "Tuontitapa",
+    importMerge: "Yhdistä",
+    importReplace: "Korvaa",
+    importMergeDesc: "Lisää tuodut säännöt samannimisiin profiileihin, kaksoiskappaleet ohitetaan",
+    importReplaceDesc: "Korvaa samannimisten profiilien säännöt tuoduilla",
+    importReplaceConfirm: "Korvataanko tiedoston profiilien säännöt? Niiden nykyiset säännöt poistetaan.",
+    importHighlightRules: "Tuo säännöt",
+    exportHighlightRules: "Vie säännöt",
+    highlightRulesImported: "Korostussääntöjä tuotu",
+    duplicateRulesSkipped: "kaksoiskappaleita ohitettu",
+    invalidRuleSet: "Virheellinen sääntötiedosto",
+    highlightRulesExported: "Korostussäännöt viety",
+    keywordAlert: "Avainsanahälytys",
+    keywordAlertLog: "Avainsanahälytykset",
+    clearAlertLog: "Tyhjennä",
+    alertSound: "Ääni",
+    alertSoundDesc: "Soita merkkiääni, kun sääntö osuu",
+    alertNotification: "Ilmoitus",
+    alertNotificationDesc: "Näytä työpöytäilmoitus, kun sääntö osuu välilehden ollessa taustalla",
+    alertFlash: "Välähdys",
+    alertFlashDesc: "Välähdä näyttöä säännön värillä, kun sääntö osuu",
+    alertOnPartial: "Keskeneräiset tekstit",
+    alertOnPartialDesc: "Hälytä jo keskeneräisistä teksteistä ennen niiden vahvistamista",
+    alertCooldown: "Tauko",
+    alertCooldownDesc: "Sekunnit hälytyksen jälkeen, joiden aikana sääntö ei hälytä uudelleen",
+    alertPartialSource: "keskeneräinen",
+    vocabularyUnsupported: "Valittu litterointipalvelu ei ota vastaan sanastoa, joten näitä termejä ei lähetetä eivätkä ne vaikuta tunnistukseen. Ne säilytetään sanastoa tukevia palveluja varten.",
+    diarizationUnsupported: "Valittu litterointipalvelu ei tue tätä.",
+    chainUnverifiable: "Lokia ei voida todentaa: alla olevia merkintöjä ei ole sinetöity, joten niihin tehdyt muutokset jäisivät huomaamatta.",
+    sealingFailed: "Merkintää ei voitu sinetöidä, eikä se läpäise todennusta",
+    audioNotCopied: "Ääntä ei kopioitu",
+    audioNotCopiedDesc: "Tallennettu ääni jäi istuntoon, josta tämä istunto kopioitiin",
   }
 };
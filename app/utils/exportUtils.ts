@@ -4,19 +4,160 @@
  * Provides functions to export transcripts in multiple formats:
  * - CSV: Excel-compatible with UTF-8 BOM encoding
  * - PDF: Print-ready format with highlights and timestamps
+ * - JSON: Complete ledger data including word timing and hash chain
+ * - SRT/WebVTT: Subtitles timed from the word timing of transcribed entries
+ * - Audio: Recorded session audio, one file per recording
+ * - Highlight rule sets: the highlight profiles as JSON or CSV (see highlightRuleSets)
+ *
+ * Both formats carry each entry's hash-chain values so a printed or
+ * exported log can be audited later (see hashChain). Corrected entries can
+ * be exported with their corrected text, the original machine text, or both.
+ * Voided entries are always exported, marked as voided with their reason.
+ * Manual entries and application notes are marked with their source, and
+ * transcribed entries with the language they were spoken in and their
+ * speaker. The PDF flags entries with words recognized at low confidence.
+ * Timestamps are written as unambiguous ISO 8601 instants next to the
+ * chosen display format.
  * 
  * @module exportUtils
  */
 
-import { HighlightRule } from '../hooks/useSettings';
+import { HighlightRule, HighlightProfile, ExportTextMode } from '../hooks/useSettings';
 import { applyHighlightsToHTML } from './highlightUtils';
+import { toRuleSetData, toRuleSetCSV } from './highlightRuleSets';
+import { WordTiming, formatSubtitleTime } from './wordTimings';
 
 /**
  * Represents a single transcript entry with timestamp
  */
 interface TranscriptItem {
+  /** ISO 8601 instant (bare HH:MM:SS in older ledgers) */
   timestamp: string;
   text: string;
+  /** Current text after corrections (omitted when never edited) */
+  correctedText?: string;
+  /** Entry origin ('manual' for typed entries, 'system' for application notes), transcribed when omitted */
+  source?: string;
+  /** Real logging time of a back-dated entry */
+  loggedAt?: string;
+  /** ISO timestamp of when the recording started */
+  recordingStartedAt?: string;
+  /** Per-word timing, relative to recordingStartedAt */
+  words?: WordTiming[];
+  /** Language the entry was spoken in */
+  languageCode?: string;
+  /** Display name of the diarized speaker */
+  speaker?: string;
+  /** Words recognized below the confidence threshold, when the entry needs review */
+  lowConfidenceWords?: string[];
+  prevHash?: string;
+  hash?: string;
+  /** Void record, set when the entry has been voided */
+  voided?: {
+    voidedBy: string;
+    voidedAt: string;
+    reason: string;
+  };
+}
+
+/**
+ * Labelled metadata row shown in the PDF header and leading the CSV (e.g. session name, operator)
+ */
+export interface ExportMetadata {
+  label: string;
+  value: string;
+}
+
+/**
+ * Localized labels for per-entry details in the PDF
+ */
+export interface ExportEntryLabels {
+  /** Label for the original text line of corrected entries in 'both' mode */
+  original: string;
+  /** Label for voided entries */
+  voided: string;
+  /** Source marker of manual entries */
+  manual: string;
+  /** Source marker of notes written by the application */
+  system: string;
+  /** Label for the real logging time of back-dated entries */
+  loggedAt: string;
+  /** Label for the spoken language of an entry */
+  language: string;
+  /** Label for the speaker of an entry */
+  speaker: string;
+  /** Label for the words recognized with low confidence */
+  lowConfidence: string;
+}
+
+const DEFAULT_ENTRY_LABELS: ExportEntryLabels = {
+  original: 'Original',
+  voided: 'Voided',
+  manual: 'Manual',
+  system: 'System',
+  loggedAt: 'Logged at',
+  language: 'Language',
+  speaker: 'Speaker',
+  lowConfidence: 'Low confidence',
+};
+
+/**
+ * Escape text for safe inclusion in the generated HTML
+ */
+function escapeHTML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Text of an entry for the given export mode ('both' yields the corrected text)
+ */
+function getExportText(item: TranscriptItem, textMode: ExportTextMode): string {
+  return textMode === 'original' ? item.text : (item.correctedText ?? item.text);
+}
+
+/**
+ * Quote a CSV field, escaping embedded quotes
+ */
+function toCSVField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Offer content as a file download
+ */
+function downloadFile(content: BlobPart, mimeType: string, filename: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * Current date for export filenames (YYYY-MM-DD)
+ */
+function getFilenameDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Turn a session name into a filename-safe base name
+ *
+ * @param name - Session name
+ * @param fallback - Base name used when nothing usable remains
+ * @returns Filename-safe string
+ */
+export function toFilenameBase(name: string, fallback: string = 'transcripts'): string {
+  const base = name.trim().replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '');
+  return base || fallback;
 }
 
 /**
@@ -26,48 +167,187 @@ interface TranscriptItem {
  * in Microsoft Excel and other spreadsheet applications.
  * 
  * CSV Format:
- * - Header row: "Timestamp,Text"
- * - Each transcript as a row with timestamp and text
+ * - Leading comment rows "# Label: value", one per metadata row (session
+ *   details, active highlight profiles and chain head), when given
+ * - Header row: "Timestamp (ISO 8601),Display Time,Text,Previous Hash,Hash"
+ *   (Original Text and Corrected Text instead of Text in 'both' mode),
+ *   followed by "Source,Logged At,Language,Speaker,Voided At,Voided By,Void Reason"
+ * - Each transcript as a row with timestamp, text, hash-chain values, source,
+ *   language, speaker and void record
  * - Text fields are quoted and escaped for CSV safety
  * 
  * Filename Format: `{filename}_{YYYY-MM-DD}.csv`
  * 
  * @param transcripts - Array of transcript items to export
  * @param filename - Base filename (default: 'transcripts')
+ * @param textMode - Which text to export for corrected entries (default: 'corrected')
+ * @param formatTime - Formats a timestamp for the Display Time column
+ * @param metadata - Labelled rows written as comments before the header
  * 
  * @example
  * ```typescript
  * const transcripts = [
- *   { timestamp: '14:30:45', text: 'Hello world' },
- *   { timestamp: '14:30:50', text: 'Second transcript' }
+ *   { timestamp: '2025-11-30T12:30:45.000Z', text: 'Hello world' },
+ *   { timestamp: '2025-11-30T12:30:50.000Z', text: 'Second transcript' }
  * ];
  * exportAsCSV(transcripts, 'meeting_notes');
  * // Downloads: meeting_notes_2025-11-30.csv
  * ```
  */
-export function exportAsCSV(transcripts: TranscriptItem[], filename: string = 'transcripts') {
+export function exportAsCSV(
+  transcripts: TranscriptItem[],
+  filename: string = 'transcripts',
+  textMode: ExportTextMode = 'corrected',
+  formatTime: (timestamp: string) => string = timestamp => timestamp,
+  metadata: ExportMetadata[] = []
+) {
   // Create CSV content
-  const headers = ['Timestamp', 'Text'];
+  const headers = textMode === 'both'
+    ? ['Timestamp (ISO 8601)', 'Display Time', 'Original Text', 'Corrected Text', 'Previous Hash', 'Hash']
+    : ['Timestamp (ISO 8601)', 'Display Time', 'Text', 'Previous Hash', 'Hash'];
+  headers.push('Source', 'Logged At', 'Language', 'Speaker', 'Voided At', 'Voided By', 'Void Reason');
   const rows = transcripts.map(item => [
     item.timestamp,
-    `"${item.text.replace(/"/g, '""')}"` // Escape quotes in CSV
+    toCSVField(formatTime(item.timestamp)),
+    ...(textMode === 'both'
+      ? [toCSVField(item.text), toCSVField(item.correctedText ?? item.text)]
+      : [toCSVField(getExportText(item, textMode))]),
+    item.prevHash ?? '',
+    item.hash ?? '',
+    item.source ?? 'transcribed',
+    item.loggedAt ?? '',
+    item.languageCode ?? '',
+    item.speaker ? toCSVField(item.speaker) : '',
+    item.voided?.voidedAt ?? '',
+    item.voided ? toCSVField(item.voided.voidedBy) : '',
+    item.voided ? toCSVField(item.voided.reason) : ''
   ]);
   
   const csvContent = [
+    ...metadata.map(row => toCSVField(`# ${row.label}: ${row.value}`)),
     headers.join(','),
     ...rows.map(row => row.join(','))
   ].join('\n');
 
   // Create blob and download
-  const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', `${filename}_${new Date().toISOString().slice(0, 10)}.csv`);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  downloadFile('\ufeff' + csvContent, 'text/csv;charset=utf-8;', `${filename}_${getFilenameDate()}.csv`);
+}
+
+/**
+ * Export Ledger Data as JSON File
+ *
+ * Writes the data as pretty-printed JSON, e.g. the session with its entries
+ * in ledger (hash-chain) order including revisions, void records and word
+ * timing, so the export can be verified and processed by other tools.
+ *
+ * Filename Format: `{filename}_{YYYY-MM-DD}.json`
+ *
+ * @param data - Data to export
+ * @param filename - Base filename (default: 'transcripts')
+ *
+ * @example
+ * ```typescript
+ * exportAsJSON({ session, entries }, 'exercise_1');
+ * // Downloads: exercise_1_2025-11-30.json
+ * ```
+ */
+export function exportAsJSON(data: unknown, filename: string = 'transcripts') {
+  downloadFile(JSON.stringify(data, null, 2), 'application/json;charset=utf-8;', `${filename}_${getFilenameDate()}.json`);
+}
+
+/**
+ * Export Highlight Rules as a Rule Set File
+ *
+ * Writes the rules of the given profiles, grouped by profile, so they can be
+ * shared with other operators and imported again.
+ *
+ * Filename Format: `{filename}_{YYYY-MM-DD}.json` or `.csv`
+ *
+ * @param profiles - Highlight profiles to export
+ * @param format - 'json' or 'csv'
+ * @param filename - Base filename (default: 'highlight_rules')
+ */
+export function exportHighlightRules(profiles: HighlightProfile[], format: 'json' | 'csv', filename: string = 'highlight_rules') {
+  if (format === 'json') {
+    exportAsJSON(toRuleSetData(profiles), filename);
+  } else {
+    downloadFile('\ufeff' + toRuleSetCSV(profiles), 'text/csv;charset=utf-8;', `${filename}_${getFilenameDate()}.csv`);
+  }
+}
+
+/**
+ * Export Transcripts as Subtitles (SRT or WebVTT)
+ *
+ * Creates one cue per transcribed entry with word timing, from its first
+ * word's start to its last word's end. Cue times are measured from the start
+ * of the earliest recording in the export, so cues from several recordings
+ * of a session line up on one timeline. Voided entries and entries without
+ * word timing (e.g. manual entries) are left out.
+ *
+ * Filename Format: `{filename}_{YYYY-MM-DD}.srt` or `.vtt`
+ *
+ * @param transcripts - Array of transcript items to export
+ * @param format - 'srt' or 'vtt'
+ * @param filename - Base filename (default: 'transcripts')
+ * @param textMode - Which text to export for corrected entries (default: 'corrected')
+ * @returns Number of cues written
+ */
+export function exportAsSubtitles(
+  transcripts: TranscriptItem[],
+  format: 'srt' | 'vtt',
+  filename: string = 'transcripts',
+  textMode: ExportTextMode = 'corrected'
+): number {
+  const timed = transcripts
+    .filter(item => !item.voided && item.recordingStartedAt && item.words && item.words.length > 0)
+    .map(item => {
+      const recordingOffset = new Date(item.recordingStartedAt!).getTime() / 1000;
+      const words = item.words!;
+      return {
+        start: recordingOffset + words[0].start,
+        end: recordingOffset + words[words.length - 1].end,
+        text: getExportText(item, textMode),
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  if (timed.length === 0) {
+    return 0;
+  }
+
+  const origin = timed[0].start;
+  const separator = format === 'srt' ? ',' : '.';
+  const cues = timed.map((cue, index) => {
+    const timing = `${formatSubtitleTime(cue.start - origin, separator)} --> ${formatSubtitleTime(cue.end - origin, separator)}`;
+    return format === 'srt'
+      ? `${index + 1}\n${timing}\n${cue.text}`
+      : `${timing}\n${cue.text}`;
+  });
+
+  const content = format === 'srt'
+    ? cues.join('\n\n') + '\n'
+    : `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  downloadFile(content, format === 'srt' ? 'application/x-subrip;charset=utf-8;' : 'text/vtt;charset=utf-8;',
+    `${filename}_${getFilenameDate()}.${format}`);
+  return timed.length;
+}
+
+/**
+ * Export a Recording of the Session Audio
+ *
+ * Downloads the audio as recorded by MediaRecorder, with a file extension
+ * matching its container format.
+ *
+ * Filename Format: `{filename}_{YYYY-MM-DD}.{webm|ogg|m4a}`
+ *
+ * @param audio - Recorded audio
+ * @param filename - Base filename (default: 'audio')
+ */
+export function exportAudio(audio: Blob, filename: string = 'audio') {
+  const extension = audio.type.indexOf('ogg') !== -1 ? 'ogg'
+    : audio.type.indexOf('mp4') !== -1 ? 'm4a'
+    : 'webm';
+  downloadFile(audio, audio.type, `${filename}_${getFilenameDate()}.${extension}`);
 }
 
 /**
@@ -82,6 +362,10 @@ export function exportAsCSV(transcripts: TranscriptItem[], filename: string = 't
  * - Timestamped filename for easy organization
  * - Print-optimized styling (margins, page breaks, fonts)
  * - Partial match indicators preserved in PDF
+ * - Per-entry SHA-256 hash for auditing
+ * - Corrected text, original text, or both for edited entries
+ * - Voided entries struck through with their reason
+ * - Source marker on manual entries
  * 
  * Filename Format: `comLedger_{YYYY-MM-DD}_{HH-MM-SS}.pdf`
  * 
@@ -98,6 +382,10 @@ export function exportAsCSV(transcripts: TranscriptItem[], filename: string = 't
  * @param totalLabel - Label for transcript count (localized)
  * @param highlightRules - Array of highlight rules to apply
  * @param partialMatchHighlight - Enable partial word matching
+ * @param metadata - Extra labelled rows for the header (e.g. session name, operator)
+ * @param textMode - Which text to export for corrected entries (default: 'corrected')
+ * @param entryLabels - Labels for per-entry details (localized)
+ * @param formatTime - Formats a timestamp for display (the ISO instant is shown alongside)
  * @returns true if print window opened successfully, false if blocked
  * 
  * @example
@@ -123,7 +411,11 @@ export function exportAsPDF(
   dateLabel: string = 'Date',
   totalLabel: string = 'Total Transcripts',
   highlightRules: HighlightRule[] = [],
-  partialMatchHighlight: boolean = true
+  partialMatchHighlight: boolean = true,
+  metadata: ExportMetadata[] = [],
+  textMode: ExportTextMode = 'corrected',
+  entryLabels: ExportEntryLabels = DEFAULT_ENTRY_LABELS,
+  formatTime: (timestamp: string) => string = timestamp => timestamp
 ): boolean {
   const printWindow = window.open('', '', 'width=800,height=600');
   if (!printWindow) {
@@ -191,10 +483,45 @@ export function exportAsPDF(
           font-size: 13px;
           margin-bottom: 8px;
         }
+        .iso {
+          color: #888;
+          font-weight: normal;
+          font-size: 11px;
+        }
         .text {
           font-size: 14px;
           line-height: 1.8;
         }
+        .transcript.voided {
+          border-left-color: #f44336;
+        }
+        .transcript.voided .text {
+          text-decoration: line-through;
+          color: #888;
+        }
+        .void-note {
+          color: #f44336;
+          font-size: 12px;
+          margin-top: 6px;
+        }
+        .low-confidence {
+          color: #E65100;
+          font-size: 12px;
+          margin-top: 6px;
+        }
+        .original {
+          color: #666;
+          font-size: 12px;
+          font-style: italic;
+          margin-top: 6px;
+        }
+        .hash {
+          color: #888;
+          font-family: 'Courier New', monospace;
+          font-size: 9px;
+          margin-top: 8px;
+          word-break: break-all;
+        }
         /* Print-specific styles to ensure colors show */
         @media print {
           body {
@@ -213,11 +540,32 @@ export function exportAsPDF(
       <div class="meta">
         <strong>${dateLabel}:</strong> ${currentDate}<br>
         <strong>${totalLabel}:</strong> ${transcripts.length}
+        ${metadata.map(row => `<br><strong>${escapeHTML(row.label)}:</strong> ${escapeHTML(row.value)}`).join('')}
       </div>
       ${transcripts.map((item, index) => `
-        <div class="transcript">
-          <div class="timestamp">🕒 ${item.timestamp}</div>
-          <div class="text">${applyHighlightsToHTML(item.text, highlightRules, partialMatchHighlight)}</div>
+        <div class="transcript${item.voided ? ' voided' : ''}">
+          <div class="timestamp">🕒 ${escapeHTML(formatTime(item.timestamp))}${formatTime(item.timestamp) !== item.timestamp
+            ? ` <span class="iso">${escapeHTML(item.timestamp)}</span>`
+            : ''}${item.source === 'manual'
+            ? ` · ✍️ ${escapeHTML(entryLabels.manual)}${item.loggedAt ? ` (${escapeHTML(entryLabels.loggedAt)} ${escapeHTML(formatTime(item.loggedAt))})` : ''}`
+            : ''}${item.source === 'system'
+            ? ` · ⚙️ ${escapeHTML(entryLabels.system)}`
+            : ''}${item.languageCode
+            ? ` · 🌐 ${escapeHTML(entryLabels.language)}: ${escapeHTML(item.languageCode.toUpperCase())}`
+            : ''}${item.speaker
+            ? ` · 🗣️ ${escapeHTML(entryLabels.speaker)}: ${escapeHTML(item.speaker)}`
+            : ''}</div>
+          <div class="text">${applyHighlightsToHTML(getExportText(item, textMode), highlightRules, partialMatchHighlight)}</div>
+          ${textMode === 'both' && item.correctedText !== undefined && item.correctedText !== item.text
+            ? `<div class="original"><strong>${escapeHTML(entryLabels.original)}:</strong> ${escapeHTML(item.text)}</div>`
+            : ''}
+          ${item.lowConfidenceWords && item.lowConfidenceWords.length > 0
+            ? `<div class="low-confidence">⚠️ <strong>${escapeHTML(entryLabels.lowConfidence)}:</strong> ${escapeHTML(item.lowConfidenceWords.join(', '))}</div>`
+            : ''}
+          ${item.voided
+            ? `<div class="void-note"><strong>${escapeHTML(entryLabels.voided)}:</strong> ${escapeHTML(item.voided.reason)} (${escapeHTML(item.voided.voidedBy)}${item.voided.voidedBy ? ', ' : ''}${escapeHTML(new Date(item.voided.voidedAt).toLocaleString())})</div>`
+            : ''}
+          ${item.hash ? `<div class="hash">SHA-256 ${item.hash}</div>` : ''}
         </div>
       `).join('')}
     </body>
@@ -0,0 +1,106 @@
+/**
+ * Fuzzy Word Matching for Highlight Rules
+ *
+ * Speech recognition often produces near-misses of callsigns and names
+ * ("Hotel Kilo" as "hotel kilos", "Ponsse" as "ponse"). A word matches a
+ * rule fuzzily when it is within a few edits of the rule's word, either as
+ * written or after both are reduced to a rough phonetic key.
+ *
+ * @module fuzzyMatch
+ */
+
+/**
+ * Most edits a rule's tolerance may allow per word
+ */
+export const MAX_FUZZY_TOLERANCE = 2;
+
+/**
+ * Characters per allowed edit: shorter words allow fewer edits so that
+ * e.g. "tie" does not match "the"
+ */
+const CHARACTERS_PER_EDIT = 4;
+
+/**
+ * Spellings that sound alike, replaced in order by a common spelling
+ */
+const PHONETIC_REPLACEMENTS: [RegExp, string][] = [
+  [/ph/g, 'f'],
+  [/ck/g, 'k'],
+  [/[cq]/g, 'k'],
+  [/x/g, 'ks'],
+  [/w/g, 'v'],
+  [/z/g, 's'],
+  [/(.)\1+/g, '$1'],
+];
+
+/**
+ * Number of single-character insertions, deletions, substitutions and
+ * transpositions of adjacent characters needed to turn one word into another
+ *
+ * @param a - First word
+ * @param b - Second word
+ * @returns Edit distance (optimal string alignment)
+ *
+ * @example
+ * ```typescript
+ * editDistance('kilos', 'kilo');  // 1
+ * editDistance('ponse', 'ponsse'); // 1
+ * ```
+ */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      rows[i].push(i === 0 ? j : 0);
+    }
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a.charAt(i - 1) === b.charAt(j - 2) && a.charAt(i - 2) === b.charAt(j - 1)) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * Rough phonetic key of a word: lowercase, with alike-sounding spellings
+ * unified and repeated letters collapsed ("Ponsse" → "ponse")
+ *
+ * @param word - Word in any case
+ * @returns Phonetic key
+ */
+export function phoneticKey(word: string): string {
+  return PHONETIC_REPLACEMENTS.reduce((key, [pattern, replacement]) => key.replace(pattern, replacement), word.toLowerCase());
+}
+
+/**
+ * Whether a word is a near-miss of a rule's word
+ *
+ * @param word - Word of the transcript
+ * @param ruleWord - Word of the highlight rule
+ * @param tolerance - Most edits allowed (capped by the length of the rule's word)
+ * @returns true if the word is within the allowed edits as written or by sound
+ *
+ * @example
+ * ```typescript
+ * isFuzzyMatch('kilos', 'Kilo', 1);  // true
+ * isFuzzyMatch('ponse', 'Ponsse', 1); // true
+ * isFuzzyMatch('the', 'tie', 1);      // false (too short for an edit)
+ * ```
+ */
+export function isFuzzyMatch(word: string, ruleWord: string, tolerance: number): boolean {
+  if (tolerance <= 0 || !word || !ruleWord) return false;
+  const allowed = Math.min(tolerance, MAX_FUZZY_TOLERANCE, Math.floor(ruleWord.length / CHARACTERS_PER_EDIT));
+  const wordLower = word.toLowerCase();
+  const ruleLower = ruleWord.toLowerCase();
+  if (Math.abs(wordLower.length - ruleLower.length) <= allowed && editDistance(wordLower, ruleLower) <= allowed) {
+    return true;
+  }
+  return editDistance(phoneticKey(wordLower), phoneticKey(ruleLower)) <= allowed;
+}
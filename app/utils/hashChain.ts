@@ -0,0 +1,266 @@
+/**
+ * Tamper-Evident Hash Chain for Ledger Entries
+ *
+ * Each committed entry is sealed with a SHA-256 hash (WebCrypto) of its
+ * content and the hash of the previous entry in the session. Altering,
+ * removing or reordering an entry afterwards breaks the chain, which
+ * verifyChain() reports entry by entry. An entry without a hash cannot be
+ * verified, so it fails verification too: otherwise an inserted entry or a
+ * stripped hash would pass unnoticed.
+ *
+ * Hashed Content:
+ * - Previous entry hash (genesis hash for the first entry)
+ * - Entry timestamp and original text
+ * - Source marker and real logging time of manual entries
+ * - Recording start, word timing, audio link, detected language and
+ *   speaker of transcribed entries
+ *
+ * Corrections never change the sealed original text. Each revision is
+ * hashed together with the hash before it (the entry hash for the first
+ * revision), so the edit history is tamper-evident as well. Voiding an
+ * entry is recorded the same way, chained after its last revision.
+ *
+ * The storage id is deliberately left out, so a duplicated session keeps
+ * verifiable hashes.
+ *
+ * @module hashChain
+ */
+
+/**
+ * Previous hash used for the first entry of a session
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Revision fields covered by the hash chain
+ */
+export interface ChainRevision {
+  editedBy: string;
+  editedAt: string;
+  before: string;
+  after: string;
+  /** SHA-256 hash of this revision */
+  hash?: string;
+}
+
+/**
+ * Void record fields covered by the hash chain
+ */
+export interface ChainVoid {
+  voidedBy: string;
+  voidedAt: string;
+  reason: string;
+  /** SHA-256 hash of this void record */
+  hash?: string;
+}
+
+/**
+ * Entry fields covered by the hash chain
+ */
+export interface ChainEntry {
+  timestamp: string;
+  text: string;
+  source?: string;
+  loggedAt?: string;
+  recordingStartedAt?: string;
+  words?: { text: string; start: number; end: number }[];
+  audio?: { recordingId: string; start: number; end: number };
+  languageCode?: string;
+  speakerId?: string;
+  revisions?: ChainRevision[];
+  voided?: ChainVoid;
+  /** Hash of the previous sealed entry */
+  prevHash?: string;
+  /** SHA-256 hash of this entry */
+  hash?: string;
+}
+
+/**
+ * Verification status of a single entry
+ * - 'valid': hash matches content and links to the previous entry
+ * - 'altered': content, revision history or void record no longer matches the stored hashes
+ * - 'broken-link': previous hash does not match (entry removed or reordered)
+ * - 'unsealed': entry has no hash (recorded before sealing, sealing failed or
+ *   the hash was stripped), so it cannot be verified
+ */
+export type EntryChainStatus = 'valid' | 'altered' | 'broken-link' | 'unsealed';
+
+/**
+ * Result of verifying a session's hash chain
+ */
+export interface ChainVerificationResult {
+  /** True when every entry is sealed and valid */
+  valid: boolean;
+  /** Status of each entry, in ledger order */
+  statuses: EntryChainStatus[];
+  /** Hash of the last sealed entry */
+  head: string | null;
+}
+
+/**
+ * Hex-encoded SHA-256 digest of a string
+ *
+ * @param value - String to hash
+ * @returns Promise resolving to the lowercase hex digest
+ * @throws Error if WebCrypto is not available (insecure context)
+ */
+export async function sha256(value: string): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('WebCrypto is not available. Use HTTPS to seal ledger entries.');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compute the chained hash of an entry
+ *
+ * @param entry - Entry to hash
+ * @param prevHash - Hash of the previous sealed entry
+ * @returns Promise resolving to the entry hash
+ */
+export function computeEntryHash(entry: ChainEntry, prevHash: string): Promise<string> {
+  return sha256(JSON.stringify({
+    prevHash,
+    timestamp: entry.timestamp,
+    text: entry.text,
+    // Undefined fields are left out, so transcribed entries hash as before
+    source: entry.source,
+    loggedAt: entry.loggedAt,
+    recordingStartedAt: entry.recordingStartedAt,
+    words: entry.words,
+    audio: entry.audio,
+    languageCode: entry.languageCode,
+    speakerId: entry.speakerId,
+  }));
+}
+
+/**
+ * Compute the hash of a revision
+ *
+ * @param revision - Revision to hash
+ * @param prevHash - Hash of the previous revision, or of the entry itself
+ * @returns Promise resolving to the revision hash
+ */
+export function computeRevisionHash(revision: ChainRevision, prevHash: string): Promise<string> {
+  return sha256(JSON.stringify({
+    prevHash,
+    editedBy: revision.editedBy,
+    editedAt: revision.editedAt,
+    before: revision.before,
+    after: revision.after,
+  }));
+}
+
+/**
+ * Compute the hash of a void record
+ *
+ * @param record - Void record to hash
+ * @param prevHash - Hash of the entry's last revision, or of the entry itself
+ * @returns Promise resolving to the void record hash
+ */
+export function computeVoidHash(record: ChainVoid, prevHash: string): Promise<string> {
+  return sha256(JSON.stringify({
+    prevHash,
+    voidedBy: record.voidedBy,
+    voidedAt: record.voidedAt,
+    reason: record.reason,
+  }));
+}
+
+/**
+ * Hash that the next revision or void record of an entry chains to
+ *
+ * @param entry - Sealed entry
+ * @returns Hash of the last revision, or of the entry itself
+ */
+export function getEntryHistoryHead(entry: ChainEntry): string | undefined {
+  const revisions = entry.revisions;
+  return revisions && revisions.length > 0 ? revisions[revisions.length - 1].hash : entry.hash;
+}
+
+/**
+ * Check that an entry's revision history and void record are intact
+ *
+ * @param entry - Sealed entry to check
+ * @returns Promise resolving to true if every revision and the void record match their hashes
+ */
+async function verifyHistory(entry: ChainEntry): Promise<boolean> {
+  let prevHash = entry.hash!;
+  let currentText = entry.text;
+
+  for (const revision of entry.revisions ?? []) {
+    if (revision.before !== currentText || !revision.hash ||
+        await computeRevisionHash(revision, prevHash) !== revision.hash) {
+      return false;
+    }
+    prevHash = revision.hash;
+    currentText = revision.after;
+  }
+
+  const record = entry.voided;
+  if (record && (!record.hash || await computeVoidHash(record, prevHash) !== record.hash)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Hash of the last sealed entry
+ *
+ * @param entries - Entries in ledger order
+ * @returns The chain head, or null if nothing is sealed
+ */
+export function getChainHead(entries: ChainEntry[]): string | null {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const hash = entries[i].hash;
+    if (hash) {
+      return hash;
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify the hash chain of a session
+ *
+ * @param entries - Entries in ledger order
+ * @returns Promise resolving to the per-entry verification result
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyChain(ledger.entries);
+ * if (!result.valid) {
+ *   console.warn('Ledger has been altered', result.statuses);
+ * }
+ * ```
+ */
+export async function verifyChain(entries: ChainEntry[]): Promise<ChainVerificationResult> {
+  const statuses: EntryChainStatus[] = [];
+  let prevHash = GENESIS_HASH;
+
+  for (const entry of entries) {
+    if (!entry.hash) {
+      statuses.push('unsealed');
+      continue;
+    }
+
+    if (entry.prevHash !== prevHash) {
+      statuses.push('broken-link');
+    } else if (await computeEntryHash(entry, entry.prevHash) !== entry.hash ||
+               !await verifyHistory(entry)) {
+      statuses.push('altered');
+    } else {
+      statuses.push('valid');
+    }
+    prevHash = entry.hash;
+  }
+
+  return {
+    valid: statuses.every(status => status === 'valid'),
+    statuses,
+    head: getChainHead(entries),
+  };
+}
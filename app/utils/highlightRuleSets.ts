@@ -0,0 +1,374 @@
+/**
+ * Highlight Rule Sets
+ *
+ * Highlight rules travel between operators as rule set files, so a team can
+ * distribute and version a shared keyword list instead of typing it in by
+ * hand. A rule set holds rules with their word, color and match options,
+ * grouped by the highlight profile they belong to, as JSON or CSV:
+ *
+ * JSON: `{ "format": "comledger-highlight-rules", "version": 1, "profiles":
+ * [{ "name": "SAR", "rules": [{ "word": "medevac", "color": "#F44336",
+ * "matchType": "word", "partialMatchMode": "english", "fuzzyTolerance": 1,
+ * "alert": { "sound": true, "notification": false, "flash": true,
+ * "onPartial": false, "cooldownSeconds": 30 } }] }] }`
+ * (a plain array of rules is accepted too)
+ *
+ * CSV: header `Word,Color,Match Type,Partial Match Mode,Fuzzy Tolerance,Group,Alert,Alert Cooldown`
+ * with one rule per row, separated by commas or semicolons; only Word is
+ * required, columns are found by their header and may come in any order.
+ * Colors are hex codes or palette color names in English or Finnish.
+ * Alert lists the alert options separated by spaces (e.g. `sound flash partial`).
+ *
+ * @module highlightRuleSets
+ */
+
+import { HighlightRule, HighlightProfile, HighlightMatchType, PartialMatchMode, HighlightAlert } from '../hooks/useSettings';
+import { DEFAULT_ALERT_COOLDOWN_SECONDS } from '../hooks/useKeywordAlerts';
+import { HIGHLIGHT_COLORS, validateRegexPattern } from './highlightUtils';
+import { MAX_FUZZY_TOLERANCE } from './fuzzyMatch';
+
+/**
+ * Format marker of rule set JSON files
+ */
+const RULE_SET_FORMAT = 'comledger-highlight-rules';
+
+const MATCH_TYPES: HighlightMatchType[] = ['word', 'phrase', 'regex'];
+const PARTIAL_MATCH_MODES: PartialMatchMode[] = ['substring', 'finnish', 'english'];
+
+const CSV_HEADERS = ['Word', 'Color', 'Match Type', 'Partial Match Mode', 'Fuzzy Tolerance', 'Group', 'Alert', 'Alert Cooldown'];
+
+/**
+ * Alert options by their name in CSV rule sets
+ */
+const ALERT_OPTIONS: { [name: string]: 'sound' | 'notification' | 'flash' | 'onPartial' } = {
+  sound: 'sound',
+  notification: 'notification',
+  flash: 'flash',
+  partial: 'onPartial',
+};
+
+/**
+ * Longest alert cooldown, in seconds
+ */
+const MAX_ALERT_COOLDOWN_SECONDS = 3600;
+
+/**
+ * Rule of a rule set: a highlight rule without its local id
+ */
+export type HighlightRuleData = Omit<HighlightRule, 'id'>;
+
+/**
+ * Rules of one profile in a rule set
+ */
+export interface HighlightRuleGroup {
+  /** Profile name ('' for the default profile) */
+  name: string;
+  rules: HighlightRuleData[];
+}
+
+/**
+ * How imported rules are combined with the existing ones
+ * - 'merge': added to the profile of the same name, skipping duplicates
+ * - 'replace': the profile of the same name gets exactly the imported rules
+ */
+export type RuleSetImportMode = 'merge' | 'replace';
+
+/**
+ * Whether two rules highlight the same thing (same word, ignoring case, and match type)
+ */
+export function isDuplicateRule(a: HighlightRuleData, b: HighlightRuleData): boolean {
+  return a.word.trim().toLowerCase() === b.word.trim().toLowerCase()
+    && (a.matchType ?? 'word') === (b.matchType ?? 'word');
+}
+
+/**
+ * Rule without its id, leaving out options at their defaults
+ */
+function toRuleData(rule: HighlightRule): HighlightRuleData {
+  return {
+    word: rule.word,
+    color: rule.color,
+    ...(rule.matchType && rule.matchType !== 'word' && { matchType: rule.matchType }),
+    ...(rule.partialMatchMode && rule.partialMatchMode !== 'substring' && { partialMatchMode: rule.partialMatchMode }),
+    ...(rule.fuzzyTolerance && { fuzzyTolerance: rule.fuzzyTolerance }),
+    ...(rule.alert && { alert: rule.alert }),
+  };
+}
+
+/**
+ * Build the JSON rule set of highlight profiles
+ *
+ * @param profiles - Profiles to include
+ * @returns Rule set data, ready for JSON.stringify
+ */
+export function toRuleSetData(profiles: HighlightProfile[]) {
+  return {
+    format: RULE_SET_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.map(profile => ({ name: profile.name, rules: profile.rules.map(toRuleData) })),
+  };
+}
+
+/**
+ * Quote a CSV field, escaping embedded quotes
+ */
+function toCSVField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build the CSV rule set of highlight profiles
+ *
+ * @param profiles - Profiles to include, one row per rule
+ * @returns CSV text with a header row
+ */
+export function toRuleSetCSV(profiles: HighlightProfile[]): string {
+  const rows: string[] = [CSV_HEADERS.join(',')];
+  profiles.forEach(profile => {
+    profile.rules.forEach(rule => {
+      rows.push([
+        toCSVField(rule.word),
+        rule.color,
+        rule.matchType ?? 'word',
+        rule.partialMatchMode ?? 'substring',
+        String(rule.fuzzyTolerance ?? 0),
+        toCSVField(profile.name),
+        rule.alert ? Object.keys(ALERT_OPTIONS).filter(name => rule.alert![ALERT_OPTIONS[name]]).join(' ') : '',
+        rule.alert ? String(rule.alert.cooldownSeconds) : '',
+      ].join(','));
+    });
+  });
+  return rows.join('\n');
+}
+
+/**
+ * Split CSV text into rows of fields (quoted fields may hold commas, quotes and newlines)
+ */
+function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charAt(i);
+    if (inQuotes) {
+      if (char === '"' && content.charAt(i + 1) === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content.charAt(i + 1) === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Lowercase a header or option, dropping spaces, dashes and underscores
+ */
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Validate the alert of a rule: an object in JSON, a list of option names in CSV
+ *
+ * @returns The alert, or undefined if the rule has none
+ * @throws Error describing the problem
+ */
+function parseAlert(raw: Record<string, unknown>, label: string): HighlightAlert | undefined {
+  const alert: HighlightAlert = {
+    sound: false,
+    notification: false,
+    flash: false,
+    onPartial: false,
+    cooldownSeconds: DEFAULT_ALERT_COOLDOWN_SECONDS,
+  };
+  let cooldown = raw.alertCooldown;
+
+  if (typeof raw.alert === 'string') {
+    raw.alert.split(/[\s,|]+/).filter(Boolean).forEach(name => {
+      const option = ALERT_OPTIONS[normalizeKey(name)];
+      if (!option) {
+        throw new Error(`${label}: unknown alert option "${name}"`);
+      }
+      alert[option] = true;
+    });
+  } else if (raw.alert && typeof raw.alert === 'object') {
+    const options = raw.alert as Record<string, unknown>;
+    alert.sound = options.sound === true;
+    alert.notification = options.notification === true;
+    alert.flash = options.flash === true;
+    alert.onPartial = options.onPartial === true;
+    cooldown = options.cooldownSeconds;
+  } else if (raw.alert !== undefined && raw.alert !== null) {
+    throw new Error(`${label}: "alert" must be an object`);
+  }
+
+  if (!alert.sound && !alert.notification && !alert.flash) return undefined;
+
+  if (cooldown !== undefined && cooldown !== '') {
+    const seconds = Number(cooldown);
+    if (!(seconds >= 0 && seconds <= MAX_ALERT_COOLDOWN_SECONDS)) {
+      throw new Error(`${label}: alert cooldown must be from 0 to ${MAX_ALERT_COOLDOWN_SECONDS} seconds`);
+    }
+    alert.cooldownSeconds = seconds;
+  }
+  return alert;
+}
+
+/**
+ * Validate one rule of a rule set
+ *
+ * @param raw - Rule fields as read from the file
+ * @param label - Where the rule is, for error messages (e.g. 'Rule 3')
+ * @returns The rule with defaults filled in
+ * @throws Error describing the problem
+ */
+function parseRule(raw: Record<string, unknown>, label: string): HighlightRuleData {
+  if (typeof raw.word !== 'string' || !raw.word.trim()) {
+    throw new Error(`${label}: "word" is required`);
+  }
+
+  const matchType = raw.matchType === undefined || raw.matchType === '' ? 'word' : normalizeKey(String(raw.matchType));
+  if (MATCH_TYPES.indexOf(matchType as HighlightMatchType) === -1) {
+    throw new Error(`${label}: unknown match type "${String(raw.matchType)}"`);
+  }
+  if (matchType === 'regex' && validateRegexPattern(raw.word) !== null) {
+    throw new Error(`${label}: invalid regular expression "${raw.word}"`);
+  }
+
+  let color: string = HIGHLIGHT_COLORS[0].value;
+  if (raw.color !== undefined && raw.color !== '') {
+    const value = String(raw.color).trim();
+    const named = HIGHLIGHT_COLORS.find(c =>
+      c.value.toLowerCase() === value.toLowerCase()
+      || c.name.toLowerCase() === value.toLowerCase()
+      || c.nameFi.toLowerCase() === value.toLowerCase());
+    if (named) {
+      color = named.value;
+    } else if (/^#[0-9a-f]{6}$/i.test(value)) {
+      color = value.toUpperCase();
+    } else {
+      throw new Error(`${label}: unknown color "${value}"`);
+    }
+  }
+
+  const partialMatchMode = raw.partialMatchMode === undefined || raw.partialMatchMode === ''
+    ? 'substring'
+    : normalizeKey(String(raw.partialMatchMode));
+  if (PARTIAL_MATCH_MODES.indexOf(partialMatchMode as PartialMatchMode) === -1) {
+    throw new Error(`${label}: unknown partial match mode "${String(raw.partialMatchMode)}"`);
+  }
+
+  const fuzzyTolerance = raw.fuzzyTolerance === undefined || raw.fuzzyTolerance === '' ? 0 : Number(raw.fuzzyTolerance);
+  if (!(fuzzyTolerance >= 0 && fuzzyTolerance <= MAX_FUZZY_TOLERANCE && Math.round(fuzzyTolerance) === fuzzyTolerance)) {
+    throw new Error(`${label}: fuzzy tolerance must be a whole number from 0 to ${MAX_FUZZY_TOLERANCE}`);
+  }
+
+  const alert = parseAlert(raw, label);
+
+  return {
+    word: matchType === 'regex' ? raw.word : raw.word.trim(),
+    color,
+    matchType: matchType as HighlightMatchType,
+    ...(matchType !== 'regex' && { partialMatchMode: partialMatchMode as PartialMatchMode }),
+    ...(matchType !== 'regex' && fuzzyTolerance > 0 && { fuzzyTolerance }),
+    ...(alert && { alert }),
+  };
+}
+
+/**
+ * Add a rule to the group of the given name (names compared ignoring case)
+ */
+function addToGroup(groups: HighlightRuleGroup[], name: string, rule: HighlightRuleData) {
+  let group = groups.find(g => g.name.toLowerCase() === name.toLowerCase());
+  if (!group) {
+    group = { name, rules: [] };
+    groups.push(group);
+  }
+  group.rules.push(rule);
+}
+
+/**
+ * Parse a rule set file
+ * JSON is recognised by its .json extension or content; anything else is read as CSV
+ *
+ * @param content - File content
+ * @param filename - File name, to tell JSON from CSV
+ * @returns Rules grouped by profile name, in file order (duplicates are
+ *   detected when the rules are imported)
+ * @throws Error describing the first problem found
+ */
+export function parseRuleSet(content: string, filename: string = ''): HighlightRuleGroup[] {
+  const text = content.replace(/^\ufeff/, '');
+  const groups: HighlightRuleGroup[] = [];
+  const isJSON = /\.json$/i.test(filename) || /^\s*[[{]/.test(text);
+
+  if (isJSON) {
+    const data = JSON.parse(text);
+    const profiles: unknown[] = Array.isArray(data)
+      ? [{ name: '', rules: data }]
+      : data && Array.isArray(data.profiles) ? data.profiles : [];
+    if (profiles.length === 0) {
+      throw new Error('Rule set must have a "profiles" array or be an array of rules');
+    }
+    profiles.forEach((profile, profileIndex) => {
+      const { name, rules } = (profile ?? {}) as { name?: unknown; rules?: unknown };
+      if (!Array.isArray(rules)) {
+        throw new Error(`Profile ${profileIndex + 1}: "rules" must be an array`);
+      }
+      const groupName = typeof name === 'string' ? name.trim() : '';
+      rules.forEach((rule, ruleIndex) => {
+        addToGroup(groups, groupName, parseRule((rule ?? {}) as Record<string, unknown>, `Profile ${profileIndex + 1}, rule ${ruleIndex + 1}`));
+      });
+    });
+    return groups;
+  }
+
+  const rows = parseCSV(text);
+  if (rows.length === 0) {
+    throw new Error('The file has no rules');
+  }
+
+  // Columns by header, or in the default order if there is no header row
+  const fields = ['word', 'color', 'matchType', 'partialMatchMode', 'fuzzyTolerance', 'group', 'alert', 'alertCooldown'];
+  const hasHeader = rows[0].some(header => fields.some(field => normalizeKey(field) === normalizeKey(header)));
+  const columns = hasHeader
+    ? rows[0].map(header => fields.find(field => normalizeKey(field) === normalizeKey(header)))
+    : fields;
+  if (columns.indexOf('word') === -1) {
+    throw new Error('CSV must have a "Word" column');
+  }
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((field, column) => {
+      if (field && row[column] !== undefined) raw[field] = row[column];
+    });
+    const rule = parseRule(raw, `Row ${index + (hasHeader ? 2 : 1)}`);
+    addToGroup(groups, typeof raw.group === 'string' ? raw.group.trim() : '', rule);
+  });
+  return groups;
+}
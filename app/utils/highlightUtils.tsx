@@ -1,4 +1,7 @@
 import { HighlightRule } from '../hooks/useSettings';
+import { WordTiming, isLowConfidence } from './wordTimings';
+import { stem } from './stemming';
+import { isFuzzyMatch } from './fuzzyMatch';
 
 /**
  * Predefined Color Palette for Text Highlighting
@@ -24,27 +27,398 @@ export const HIGHLIGHT_COLORS = [
   { name: 'Teal', nameFi: 'Turkoosi', value: '#009688', textColor: '#FFFFFF' },
 ];
 
+/**
+ * How a word matched a rule other than as written
+ * - 'substring': the word contains the rule's word
+ * - 'stem': the word has the same stem as the rule's word
+ * - 'fuzzy': the word is a near-miss of the rule's word
+ */
+export type PartialMatchKind = 'substring' | 'stem' | 'fuzzy';
+
+/**
+ * Kinds of partial match from the closest to the loosest
+ */
+const PARTIAL_MATCH_ORDER: PartialMatchKind[] = ['substring', 'stem', 'fuzzy'];
+
+/**
+ * Tooltip of the partial-match indicator for each kind of partial match
+ */
+export type PartialMatchTooltips = { [kind in PartialMatchKind]: string };
+
+/**
+ * Indicator shown in the corner of a partial match, by kind
+ */
+const PARTIAL_MATCH_INDICATORS: { [kind in PartialMatchKind]: string } = {
+  substring: '˚',
+  stem: '˜',
+  fuzzy: '≈',
+};
+
+/**
+ * Timed words of a text, annotated while highlighting
+ */
+export interface TimedWords {
+  /** Word timings, paired in order with the words of the text */
+  words: WordTiming[];
+  /** Lowest acceptable confidence, 0–1; words below it are underlined */
+  confidenceThreshold: number;
+  /** Tooltip label for the confidence of underlined words */
+  confidenceTooltip: string;
+  /** Tooltip of every timed word, e.g. when it was spoken */
+  describeWord?: (word: WordTiming) => string;
+}
+
+/**
+ * Highlighted range of a text
+ */
+export interface HighlightMatch {
+  /** Offset of the first matched character */
+  start: number;
+  /** Offset after the last matched character */
+  end: number;
+  /** Rule that matched */
+  rule: HighlightRule;
+  /** How an inflected form or near-miss matched, or undefined if the rule matched as written */
+  partial?: PartialMatchKind;
+}
+
+/**
+ * Word or whitespace run of a text, with its offsets
+ */
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  isWord: boolean;
+}
+
+/**
+ * Piece of a text rendered as one unit: a whole token, or the part of a
+ * token inside or outside a match
+ */
+interface Segment {
+  text: string;
+  /** Timing of the word the segment belongs to */
+  word?: WordTiming;
+  match?: HighlightMatch;
+}
+
+/**
+ * Letters and digits, including accented Latin, Greek and Cyrillic letters
+ */
+const WORD_CHAR = /[0-9A-Za-zÀ-ɏͰ-ϿЀ-ӿ]/;
+
+/**
+ * Split text into words and whitespace runs, keeping their offsets
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\S+|\s+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+      isWord: /\S/.test(match[0]),
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Whether the character at an offset is part of a word (false outside the text)
+ */
+function isWordCharAt(text: string, index: number): boolean {
+  return index >= 0 && index < text.length && WORD_CHAR.test(text.charAt(index));
+}
+
+/**
+ * Word without the punctuation around it ("Bravo," → "Bravo")
+ */
+function trimToWord(text: string): string {
+  let start = 0;
+  let end = text.length;
+  while (start < end && !isWordCharAt(text, start)) start++;
+  while (end > start && !isWordCharAt(text, end - 1)) end--;
+  return text.slice(start, end);
+}
+
+/**
+ * Escape Special RegEx Characters
+ * 
+ * Escapes special regular expression characters in a string to make it
+ * safe for use in RegEx patterns.
+ * 
+ * @param str - String to escape
+ * @returns Escaped string safe for RegEx
+ */
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Escape text for safe inclusion in generated HTML
+ */
+function escapeHTML(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Check the pattern of a regex highlight rule before it is saved
+ *
+ * @param pattern - Regular expression source
+ * @returns null if the pattern is usable, 'invalid' if it does not compile,
+ *   'matches-empty' if it matches the empty string (and so would match anywhere)
+ *
+ * @example
+ * ```typescript
+ * validateRegexPattern('[A-Z]{2}\\d{4}'); // null
+ * validateRegexPattern('(grid');          // 'invalid'
+ * validateRegexPattern('\\d*');           // 'matches-empty'
+ * ```
+ */
+export function validateRegexPattern(pattern: string): 'invalid' | 'matches-empty' | null {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'i');
+  } catch (e) {
+    return 'invalid';
+  }
+  return regex.test('') ? 'matches-empty' : null;
+}
+
+/**
+ * Compare words of a text with one word of a rule
+ * Punctuation around the words is ignored when stemming or within phrases
+ *
+ * @returns Function telling how a word matched ('exact' or a kind of partial
+ *   match), or null if it did not
+ */
+function createWordMatcher(
+  ruleWord: string,
+  rule: HighlightRule,
+  partialMatch: boolean,
+  ignorePunctuation: boolean
+): (text: string) => 'exact' | PartialMatchKind | null {
+  const stemmer = rule.partialMatchMode && rule.partialMatchMode !== 'substring' ? rule.partialMatchMode : null;
+  const ruleLower = ruleWord.toLowerCase();
+  const ruleBare = trimToWord(ruleLower);
+  const ruleStem = stemmer ? stem(ruleBare, stemmer) : '';
+
+  return text => {
+    const lower = text.toLowerCase();
+    const bare = trimToWord(lower);
+    if (lower === ruleLower || ((stemmer || ignorePunctuation) && bare === ruleBare)) {
+      return 'exact';
+    }
+    if (partialMatch && stemmer && bare && stem(bare, stemmer) === ruleStem) {
+      // Inflected form with the same stem
+      return 'stem';
+    }
+    if (partialMatch && !stemmer && lower.includes(ruleLower)) {
+      // Word stem found in inflected form
+      return 'substring';
+    }
+    if (rule.fuzzyTolerance && isFuzzyMatch(bare, ruleBare, rule.fuzzyTolerance)) {
+      // Near-miss of the rule, e.g. a misrecognized callsign
+      return 'fuzzy';
+    }
+    return null;
+  };
+}
+
+/**
+ * Ranges of a text matched by a single rule, possibly overlapping
+ */
+function findRuleMatches(text: string, tokens: Token[], rule: HighlightRule, partialMatch: boolean): Omit<HighlightMatch, 'rule'>[] {
+  const matches: Omit<HighlightMatch, 'rule'>[] = [];
+  const matchType = rule.matchType ?? 'word';
+
+  if (matchType === 'regex') {
+    // Patterns are validated when saved, but stored rules may predate that
+    if (validateRegexPattern(rule.word) !== null) return matches;
+    const regex = new RegExp(rule.word, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      // Step over empty matches (e.g. \b) instead of looping on them
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return matches;
+  }
+
+  const stemmer = rule.partialMatchMode && rule.partialMatchMode !== 'substring' ? rule.partialMatchMode : null;
+
+  if (matchType === 'phrase' && !stemmer && !rule.fuzzyTolerance) {
+    // Words of the phrase may be separated by any whitespace
+    const regex = new RegExp(rule.word.trim().split(/\s+/).map(escapeRegex).join('\\s+'), 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (!isWordCharAt(text, start - 1) && !isWordCharAt(text, end)) {
+        matches.push({ start, end });
+      } else if (partialMatch) {
+        // Highlight the whole words the inflected phrase is part of
+        const first = tokens.filter(token => token.start <= start && start < token.end)[0];
+        const last = tokens.filter(token => token.start < end && end <= token.end)[0];
+        matches.push({ start: first ? first.start : start, end: last ? last.end : end, partial: 'substring' });
+      }
+    }
+    return matches;
+  }
+
+  // Word rules, and phrases matched word by word: every word of the rule in
+  // a row, each as written, as an inflected form or as a near-miss
+  const ruleWords = matchType === 'phrase' ? rule.word.trim().split(/\s+/) : [rule.word];
+  const wordMatchers = ruleWords.map(ruleWord => createWordMatcher(ruleWord, rule, partialMatch, matchType === 'phrase'));
+  const wordTokens = tokens.filter(token => token.isWord);
+  for (let i = 0; i + wordMatchers.length <= wordTokens.length; i++) {
+    let partial: PartialMatchKind | undefined;
+    const matched = wordMatchers.every((matchWord, j) => {
+      const kind = matchWord(wordTokens[i + j].text);
+      if (kind === null) return false;
+      // A phrase is as loose a match as its loosest word
+      if (kind !== 'exact' && (!partial || PARTIAL_MATCH_ORDER.indexOf(kind) > PARTIAL_MATCH_ORDER.indexOf(partial))) {
+        partial = kind;
+      }
+      return true;
+    });
+    if (matched) {
+      matches.push({ start: wordTokens[i].start, end: wordTokens[i + wordMatchers.length - 1].end, partial });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Find the Highlighted Ranges of a Text
+ *
+ * Matches every rule against the text by its match type:
+ * - 'word' (default): whole whitespace-separated tokens, or with partial
+ *   matching any token containing the word
+ * - 'phrase': several words in a row, across any whitespace; with partial
+ *   matching also inside longer (inflected) words, which are highlighted whole
+ * - 'regex': a case-insensitive regular expression, anywhere in the text
+ *
+ * Word and phrase rules with a Finnish or English partial match mode match
+ * inflected forms by stem instead of by substring: "katu" finds "kadulla"
+ * but "tie" no longer finds "tietokone". Rules with a fuzzy tolerance also
+ * match near-misses ("kilos" for "Kilo"), whether partial matching is on or not.
+ *
+ * Ranges never overlap: where rules compete, the earlier rule in the list wins.
+ *
+ * @param text - The text string to match
+ * @param rules - Array of highlight rules to apply
+ * @param partialMatch - Enable partial word matching (default: true)
+ * @returns Matched ranges in text order
+ *
+ * @example
+ * ```typescript
+ * findHighlightMatches('request medical evacuation now', [
+ *   { id: '1', word: 'medical evacuation', color: '#F44336', matchType: 'phrase' },
+ * ]);
+ * // Returns: [{ start: 8, end: 26, rule: ... }]
+ * ```
+ */
+export function findHighlightMatches(text: string, rules: HighlightRule[], partialMatch: boolean = true): HighlightMatch[] {
+  const tokens = tokenize(text);
+  const accepted: HighlightMatch[] = [];
+
+  rules.forEach(rule => {
+    if (!rule.word.trim()) return;
+    findRuleMatches(text, tokens, rule, partialMatch).forEach(match => {
+      if (accepted.some(other => match.start < other.end && other.start < match.end)) return;
+      accepted.push({ ...match, rule });
+    });
+  });
+
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cut a text into segments at token and match boundaries
+ * Timed words are paired with the word tokens in order
+ */
+function toSegments(text: string, matches: HighlightMatch[], words?: WordTiming[]): Segment[] {
+  const segments: Segment[] = [];
+  let wordIndex = 0;
+
+  tokenize(text).forEach(token => {
+    const word = token.isWord && words ? words[wordIndex++] : undefined;
+    const cuts = [token.start, token.end];
+    matches.forEach(match => {
+      if (match.start > token.start && match.start < token.end) cuts.push(match.start);
+      if (match.end > token.start && match.end < token.end) cuts.push(match.end);
+    });
+    cuts.sort((a, b) => a - b);
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+      if (cuts[i] === cuts[i + 1]) continue;
+      segments.push({
+        text: text.slice(cuts[i], cuts[i + 1]),
+        word,
+        match: matches.filter(match => match.start <= cuts[i] && cuts[i] < match.end)[0],
+      });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Group consecutive segments that belong to the same match (or to none)
+ */
+function groupByMatch(segments: Segment[]): { match?: HighlightMatch; segments: Segment[] }[] {
+  const groups: { match?: HighlightMatch; segments: Segment[] }[] = [];
+  segments.forEach(segment => {
+    const last = groups[groups.length - 1];
+    if (last && last.match === segment.match) {
+      last.segments.push(segment);
+    } else {
+      groups.push({ match: segment.match, segments: [segment] });
+    }
+  });
+  return groups;
+}
+
 /**
  * Apply Highlights to Text for React UI
  * 
  * Processes text and returns an array of React nodes with highlighted words
- * according to the provided highlight rules. Supports both exact and partial
- * word matching (useful for inflected forms in languages like Finnish).
+ * and phrases according to the provided highlight rules (see
+ * findHighlightMatches). Supports both exact and partial word matching
+ * (useful for inflected forms in languages like Finnish).
  * 
  * Algorithm:
- * 1. Split text into tokens (words and whitespace)
- * 2. For each word token, check against all highlight rules
- * 3. If match found (exact or partial), wrap in styled span
+ * 1. Find the highlighted ranges of the text
+ * 2. Split text into tokens (words and whitespace), cut at range boundaries
+ * 3. Wrap each range in a styled span, even across several tokens
  * 4. Preserve whitespace and original text structure
  * 
  * Partial Matching:
  * When enabled, "run" will match: running, runner, runs, etc.
- * Partial matches are indicated with a ˚ symbol in the top-right corner
+ * Partial matches are indicated with a symbol in the top-right corner:
+ * ˚ for a substring match, ˜ for a match by stem, ≈ for a fuzzy match
+ * 
+ * Timed Words:
+ * With word timings, every word can carry a tooltip (e.g. when it was
+ * spoken), and words recognized below the confidence threshold get a wavy
+ * underline (whether highlighted or not) with their confidence as tooltip
  * 
  * @param text - The text string to process
  * @param rules - Array of highlight rules to apply
  * @param partialMatch - Enable partial word matching (default: true)
- * @param partialMatchTooltip - Tooltip text for partial match indicator
+ * @param partialMatchTooltips - Tooltip text for partial match indicators, by kind
+ * @param timedWords - Word timings to annotate the words with
  * @returns Array of React nodes with highlights applied
  * 
  * @example
@@ -54,111 +428,100 @@ export const HIGHLIGHT_COLORS = [
  *   'This is important and importance matters',
  *   rules,
  *   true,
- *   'Partial match'
+ *   { substring: 'Partial match', stem: 'Inflected form', fuzzy: 'Near match' }
  * );
- * // Returns: ['This is ', <span>important</span>, ' and ', <span>importance˚</span>, ' matters']
+ * // Returns: ['This', ' ', 'is', ' ', <span>important</span>, ' ', 'and', ' ', <span>importance˚</span>, ' ', 'matters']
  * ```
  */
 export function applyHighlights(
   text: string, 
   rules: HighlightRule[], 
   partialMatch: boolean = true,
-  partialMatchTooltip: string = "Partial match"
+  partialMatchTooltips: PartialMatchTooltips = { substring: "Partial match", stem: "Inflected form", fuzzy: "Near match" },
+  timedWords?: TimedWords
 ): React.ReactNode[] {
-  if (rules.length === 0) {
+  if (rules.length === 0 && !timedWords) {
     return [text];
   }
 
-  // Split text into words while preserving whitespace
-  const wordPattern = /(\S+|\s+)/g;
-  const tokens = text.match(wordPattern) || [];
-  const parts: React.ReactNode[] = [];
+  const segments = toSegments(text, findHighlightMatches(text, rules, partialMatch), timedWords?.words);
   let keyIndex = 0;
 
-  tokens.forEach((token, index) => {
-    // Skip whitespace
-    if (/^\s+$/.test(token)) {
-      parts.push(token);
-      return;
+  const renderSegment = (segment: Segment): React.ReactNode => {
+    const word = segment.word;
+    if (!word || !timedWords) {
+      return segment.text;
+    }
+    const lowConfidence = isLowConfidence(word, timedWords.confidenceThreshold);
+    const titles: string[] = [];
+    if (timedWords.describeWord) {
+      titles.push(timedWords.describeWord(word));
     }
+    if (lowConfidence) {
+      titles.push(`${timedWords.confidenceTooltip}: ${Math.round(Math.exp(word.logprob!) * 100)} %`);
+    }
+    if (titles.length === 0) {
+      return segment.text;
+    }
+    return (
+      <span
+        key={`word-${keyIndex++}`}
+        title={titles.join(' · ')}
+        style={{
+          ...(timedWords.describeWord && { cursor: 'help' }),
+          ...(lowConfidence && { textDecoration: 'underline wavy #FF9800', textUnderlineOffset: '4px' }),
+        }}
+      >
+        {segment.text}
+      </span>
+    );
+  };
 
-    // Check if token matches any rule
-    let matched = false;
-    for (const rule of rules) {
-      const ruleWord = rule.word.toLowerCase();
-      const tokenLower = token.toLowerCase();
-      
-      let isMatch = false;
-      let isPartialMatch = false;
-
-      if (tokenLower === ruleWord) {
-        // Exact match
-        isMatch = true;
-      } else if (partialMatch && tokenLower.includes(ruleWord)) {
-        // Partial match (word stem found in inflected form)
-        isMatch = true;
-        isPartialMatch = true;
-      }
+  const parts: React.ReactNode[] = [];
+  groupByMatch(segments).forEach(group => {
+    const match = group.match;
+    if (!match) {
+      group.segments.forEach(segment => parts.push(renderSegment(segment)));
+      return;
+    }
 
-      if (isMatch) {
-        matched = true;
-        const colorConfig = HIGHLIGHT_COLORS.find(c => c.value === rule.color);
-        parts.push(
+    const colorConfig = HIGHLIGHT_COLORS.find(c => c.value === match.rule.color);
+    parts.push(
+      <span
+        key={`highlight-${keyIndex++}`}
+        style={{
+          position: 'relative',
+          backgroundColor: match.rule.color,
+          color: colorConfig?.textColor || '#000000',
+          padding: '2px 4px',
+          borderRadius: '3px',
+          fontWeight: '600',
+          display: 'inline-block',
+        }}
+      >
+        {group.segments.map(renderSegment)}
+        {match.partial && (
           <span
-            key={`highlight-${keyIndex++}`}
             style={{
-              position: 'relative',
-              backgroundColor: rule.color,
-              color: colorConfig?.textColor || '#000000',
-              padding: '2px 4px',
-              borderRadius: '3px',
-              fontWeight: '600',
-              display: 'inline-block',
+              position: 'absolute',
+              top: '-7px',
+              right: '-5px',
+              fontSize: '2em',
+              lineHeight: '1',
+              opacity: 0.7,
             }}
+            title={partialMatchTooltips[match.partial]}
           >
-            {token}
-            {isPartialMatch && (
-              <span
-                style={{
-                  position: 'absolute',
-                  top: '-7px',
-                  right: '-5px',
-                  fontSize: '2em',
-                  lineHeight: '1',
-                  opacity: 0.7,
-                }}
-                title={partialMatchTooltip}
-              >
-                ˚
-              </span>
-            )}
+            {PARTIAL_MATCH_INDICATORS[match.partial]}
           </span>
-        );
-        break;
-      }
-    }
-
-    if (!matched) {
-      parts.push(token);
-    }
+        )}
+      </span>
+    );
   });
 
   return parts.length > 0 ? parts : [text];
 }
 
-/**
- * Escape Special RegEx Characters
- * 
- * Escapes special regular expression characters in a string to make it
- * safe for use in RegEx patterns.
- * 
- * @param str - String to escape
- * @returns Escaped string safe for RegEx
- */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
 /**
  * Generate HTML with Highlights for PDF Export
  * 
@@ -169,6 +532,7 @@ function escapeRegex(str: string): string {
  * - Inline CSS styles for print compatibility
  * - Partial match indicator using positioned span
  * - Print-specific CSS to preserve colors in PDF
+ * - Text is HTML-escaped
  * 
  * @param text - The text string to process
  * @param rules - Array of highlight rules to apply
@@ -184,45 +548,20 @@ function escapeRegex(str: string): string {
  */
 export function applyHighlightsToHTML(text: string, rules: HighlightRule[], partialMatch: boolean = true): string {
   if (rules.length === 0) {
-    return text;
+    return escapeHTML(text);
   }
 
-  // Split text into words while preserving whitespace
-  const wordPattern = /(\S+|\s+)/g;
-  const tokens = text.match(wordPattern) || [];
-  
-  return tokens.map(token => {
-    // Skip whitespace
-    if (/^\s+$/.test(token)) {
-      return token;
-    }
-
-    // Check if token matches any rule
-    for (const rule of rules) {
-      const ruleWord = rule.word.toLowerCase();
-      const tokenLower = token.toLowerCase();
-      
-      let isMatch = false;
-      let isPartialMatch = false;
-
-      if (tokenLower === ruleWord) {
-        // Exact match
-        isMatch = true;
-      } else if (partialMatch && tokenLower.includes(ruleWord)) {
-        // Partial match
-        isMatch = true;
-        isPartialMatch = true;
-      }
-
-      if (isMatch) {
-        const colorConfig = HIGHLIGHT_COLORS.find(c => c.value === rule.color);
-        const partialIndicator = isPartialMatch 
-          ? '<span style="position: absolute; top: -7px; right: -5px; font-size: 2em; line-height: 1; opacity: 0.7;">˚</span>' 
-          : '';
-        return `<span style="background-color: ${rule.color}; color: ${colorConfig?.textColor || '#000000'}; padding: 2px 4px; border-radius: 3px; font-weight: 600; position: relative; display: inline-block;">${token}${partialIndicator}</span>`;
-      }
+  return groupByMatch(toSegments(text, findHighlightMatches(text, rules, partialMatch))).map(group => {
+    const content = escapeHTML(group.segments.map(segment => segment.text).join(''));
+    const match = group.match;
+    if (!match) {
+      return content;
     }
 
-    return token;
+    const colorConfig = HIGHLIGHT_COLORS.find(c => c.value === match.rule.color);
+    const partialIndicator = match.partial
+      ? `<span style="position: absolute; top: -7px; right: -5px; font-size: 2em; line-height: 1; opacity: 0.7;">${PARTIAL_MATCH_INDICATORS[match.partial]}</span>`
+      : '';
+    return `<span style="background-color: ${match.rule.color}; color: ${colorConfig?.textColor || '#000000'}; padding: 2px 4px; border-radius: 3px; font-weight: 600; position: relative; display: inline-block;">${content}${partialIndicator}</span>`;
   }).join('');
 }
@@ -0,0 +1,415 @@
+/**
+ * IndexedDB Storage for the Live Ledger
+ *
+ * Persists every committed transcript entry (and the pending partial
+ * transcript) as it arrives, so a browser crash, killed tab or accidental
+ * reload does not lose the shift. Entries belong to named sessions which
+ * are kept in the library until deleted. The microphone audio of each
+ * recording is stored alongside in small chunks as it is captured.
+ *
+ * Database Layout:
+ * - 'sessions' - One record per session, keyed by session id
+ * - 'entries' - One record per committed entry, keyed by entry id and
+ *   indexed by session id
+ * - 'meta' - Key-value store for ledger state (active session, pending partial)
+ * - 'recordings' - One record per audio recording, indexed by session id
+ * - 'audioChunks' - Recorded audio chunks, indexed by recording id and session id
+ *
+ * @module ledgerStorage
+ */
+
+import type { TranscriptEntry, LedgerSession } from '../hooks/useLedger';
+
+const DB_NAME = 'comLedger';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const RECORDINGS_STORE = 'recordings';
+const AUDIO_CHUNKS_STORE = 'audioChunks';
+const SESSION_INDEX = 'sessionId';
+const RECORDING_INDEX = 'recordingId';
+const PENDING_PARTIAL_KEY = 'pending_partial';
+const ACTIVE_SESSION_KEY = 'active_session_id';
+
+/**
+ * Entry as stored in IndexedDB
+ * `seq` preserves the original ledger order when records are read back
+ */
+interface StoredEntry extends TranscriptEntry {
+  sessionId: string;
+  seq: number;
+}
+
+/**
+ * Audio recording of (part of) a session
+ */
+export interface AudioRecording {
+  /** Unique identifier for the recording */
+  id: string;
+  /** Session the recording belongs to */
+  sessionId: string;
+  /** ISO timestamp of when the first audio was captured */
+  startedAt: string;
+  /** MIME type reported by MediaRecorder (e.g. 'audio/webm;codecs=opus') */
+  mimeType: string;
+}
+
+/**
+ * Chunk of recorded audio as stored in IndexedDB
+ */
+interface StoredAudioChunk {
+  id: string;
+  recordingId: string;
+  sessionId: string;
+  seq: number;
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IDBRequest in a Promise
+ *
+ * @param request - Request to wait for
+ * @returns Promise resolving to the request result
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to complete
+ *
+ * @param transaction - Transaction to wait for
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Move entries stored before sessions existed into a session of their own
+ *
+ * @param transaction - The version change transaction
+ */
+function migrateUnassignedEntries(transaction: IDBTransaction) {
+  const entries = transaction.objectStore(ENTRIES_STORE);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const sessionId = `${Date.now()}-${Math.random()}`;
+  const startedAt = new Date().toISOString();
+  let count = 0;
+
+  entries.openCursor().onsuccess = event => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (cursor) {
+      cursor.update({ ...cursor.value, sessionId });
+      count++;
+      cursor.continue();
+      return;
+    }
+    if (count > 0) {
+      const session: LedgerSession = {
+        id: sessionId,
+        name: startedAt.slice(0, 16).replace('T', ' '),
+        startedAt,
+        endedAt: null,
+        operator: '',
+        notes: '',
+        archived: false,
+        entryCount: count,
+      };
+      sessions.put(session);
+      transaction.objectStore(META_STORE).put(sessionId, ACTIVE_SESSION_KEY);
+    }
+  };
+}
+
+/**
+ * Open (and create or upgrade if needed) the ledger database
+ * The connection is shared between calls
+ *
+ * @returns Promise resolving to the open database
+ * @throws Error if IndexedDB is not available in this browser
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const transaction = request.transaction!;
+
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' }).createIndex(SESSION_INDEX, SESSION_INDEX);
+      }
+      if (!db.objectStoreNames.contains(AUDIO_CHUNKS_STORE)) {
+        const chunks = db.createObjectStore(AUDIO_CHUNKS_STORE, { keyPath: 'id' });
+        chunks.createIndex(SESSION_INDEX, SESSION_INDEX);
+        chunks.createIndex(RECORDING_INDEX, RECORDING_INDEX);
+      }
+
+      const entries = transaction.objectStore(ENTRIES_STORE);
+      if (!entries.indexNames.contains(SESSION_INDEX)) {
+        entries.createIndex(SESSION_INDEX, SESSION_INDEX);
+      }
+
+      // Version 1 stored a single anonymous ledger
+      if (event.oldVersion === 1) {
+        migrateUnassignedEntries(transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request against an object store
+ *
+ * @param storeName - Object store to use
+ * @param mode - Transaction mode
+ * @param run - Callback creating the request
+ * @returns Promise resolving to the request result
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(run(transaction.objectStore(storeName)));
+}
+
+/**
+ * Persist a session record
+ *
+ * @param session - Session to store
+ */
+export async function saveSession(session: LedgerSession): Promise<void> {
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put(session));
+}
+
+/**
+ * Load all sessions in the library
+ *
+ * @returns Promise resolving to the stored sessions
+ */
+export async function loadSessions(): Promise<LedgerSession[]> {
+  return withStore<LedgerSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+}
+
+/**
+ * Delete every record of a session from a store indexed by session id
+ *
+ * @param transaction - Read-write transaction covering the store
+ * @param storeName - Object store to delete from
+ * @param sessionId - Session whose records are deleted
+ */
+function deleteSessionRecords(transaction: IDBTransaction, storeName: string, sessionId: string) {
+  const store = transaction.objectStore(storeName);
+  store.index(SESSION_INDEX).openKeyCursor(IDBKeyRange.only(sessionId)).onsuccess = event => {
+    const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+/**
+ * Delete a session together with all of its entries and recorded audio
+ *
+ * @param sessionId - Session to delete
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, ENTRIES_STORE, RECORDINGS_STORE, AUDIO_CHUNKS_STORE],
+    'readwrite'
+  );
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+  deleteSessionRecords(transaction, ENTRIES_STORE, sessionId);
+  deleteSessionRecords(transaction, RECORDINGS_STORE, sessionId);
+  deleteSessionRecords(transaction, AUDIO_CHUNKS_STORE, sessionId);
+  await transactionDone(transaction);
+}
+
+/**
+ * Persist a committed entry
+ *
+ * @param entry - Entry to store
+ * @param sessionId - Session the entry belongs to
+ * @param seq - Position of the entry in the session's ledger
+ */
+export async function saveEntry(entry: TranscriptEntry, sessionId: string, seq: number): Promise<void> {
+  const record: StoredEntry = { ...entry, sessionId, seq };
+  await withStore(ENTRIES_STORE, 'readwrite', store => store.put(record));
+}
+
+/**
+ * Load all persisted entries of a session in their original ledger order
+ *
+ * @param sessionId - Session to load
+ * @returns Promise resolving to the stored entries
+ */
+export async function loadEntries(sessionId: string): Promise<TranscriptEntry[]> {
+  const records = await withStore<StoredEntry[]>(ENTRIES_STORE, 'readonly', store =>
+    store.index(SESSION_INDEX).getAll(IDBKeyRange.only(sessionId))
+  );
+  return records
+    .sort((a, b) => a.seq - b.seq)
+    .map(({ sessionId, seq, ...entry }) => entry);
+}
+
+/**
+ * Persist the pending (not yet committed) partial transcript
+ *
+ * @param partial - Pending partial entry, or null to clear it
+ */
+export async function savePendingPartial(partial: TranscriptEntry | null): Promise<void> {
+  if (partial) {
+    await withStore(META_STORE, 'readwrite', store => store.put(partial, PENDING_PARTIAL_KEY));
+  } else {
+    await withStore(META_STORE, 'readwrite', store => store.delete(PENDING_PARTIAL_KEY));
+  }
+}
+
+/**
+ * Load the pending partial transcript saved before the page was closed
+ *
+ * @returns Promise resolving to the pending partial entry, if any
+ */
+export async function loadPendingPartial(): Promise<TranscriptEntry | null> {
+  const partial = await withStore<TranscriptEntry | undefined>(META_STORE, 'readonly', store =>
+    store.get(PENDING_PARTIAL_KEY)
+  );
+  return partial ?? null;
+}
+
+/**
+ * Remember which session is open, so it can be recovered after a crash
+ *
+ * @param sessionId - Open session, or null when no session is open
+ */
+export async function saveActiveSessionId(sessionId: string | null): Promise<void> {
+  if (sessionId) {
+    await withStore(META_STORE, 'readwrite', store => store.put(sessionId, ACTIVE_SESSION_KEY));
+  } else {
+    await withStore(META_STORE, 'readwrite', store => store.delete(ACTIVE_SESSION_KEY));
+  }
+}
+
+/**
+ * Load the id of the session that was open when the page was closed
+ *
+ * @returns Promise resolving to the session id, if any
+ */
+export async function loadActiveSessionId(): Promise<string | null> {
+  const sessionId = await withStore<string | undefined>(META_STORE, 'readonly', store =>
+    store.get(ACTIVE_SESSION_KEY)
+  );
+  return sessionId ?? null;
+}
+
+/**
+ * Persist an audio recording record
+ *
+ * @param recording - Recording to store
+ */
+export async function saveRecording(recording: AudioRecording): Promise<void> {
+  await withStore(RECORDINGS_STORE, 'readwrite', store => store.put(recording));
+}
+
+/**
+ * Load the audio recordings of a session, oldest first
+ *
+ * @param sessionId - Session to load
+ * @returns Promise resolving to the stored recordings
+ */
+export async function loadRecordings(sessionId: string): Promise<AudioRecording[]> {
+  const recordings = await withStore<AudioRecording[]>(RECORDINGS_STORE, 'readonly', store =>
+    store.index(SESSION_INDEX).getAll(IDBKeyRange.only(sessionId))
+  );
+  return recordings.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * Persist a chunk of recorded audio
+ *
+ * @param recording - Recording the chunk belongs to
+ * @param seq - Position of the chunk in the recording
+ * @param data - Audio data from MediaRecorder
+ */
+export async function saveAudioChunk(recording: AudioRecording, seq: number, data: Blob): Promise<void> {
+  const chunk: StoredAudioChunk = {
+    id: `${recording.id}:${seq}`,
+    recordingId: recording.id,
+    sessionId: recording.sessionId,
+    seq,
+    data,
+  };
+  await withStore(AUDIO_CHUNKS_STORE, 'readwrite', store => store.put(chunk));
+}
+
+/**
+ * Load the complete audio of a recording
+ *
+ * @param recording - Recording to load
+ * @returns Promise resolving to the audio, or null if no chunks are stored
+ */
+export async function loadRecordingAudio(recording: AudioRecording): Promise<Blob | null> {
+  const chunks = await withStore<StoredAudioChunk[]>(AUDIO_CHUNKS_STORE, 'readonly', store =>
+    store.index(RECORDING_INDEX).getAll(IDBKeyRange.only(recording.id))
+  );
+  if (chunks.length === 0) {
+    return null;
+  }
+  return new Blob(
+    chunks.sort((a, b) => a.seq - b.seq).map(chunk => chunk.data),
+    { type: recording.mimeType }
+  );
+}
+
+/**
+ * Load a single audio recording record
+ *
+ * @param recordingId - Recording to load
+ * @returns Promise resolving to the recording, if stored
+ */
+export async function loadRecording(recordingId: string): Promise<AudioRecording | null> {
+  const recording = await withStore<AudioRecording | undefined>(RECORDINGS_STORE, 'readonly', store =>
+    store.get(recordingId)
+  );
+  return recording ?? null;
+}
@@ -0,0 +1,243 @@
+/**
+ * Word Stemming for Highlight Matching
+ *
+ * Light stemmers used for partial matching of highlight rules: a word
+ * matches a rule when both reduce to the same stem, so inflected forms are
+ * found without matching unrelated words that merely contain the rule
+ * ("tie" no longer matches "tietokone").
+ *
+ * The Finnish stemmer strips clitics, possessive suffixes, case endings and
+ * plural markers, then evens out the common consonant gradation pairs
+ * (kk/k, pp/p, tt/t, t/d, p/v, nk/ng, mp/mm, lt/ll, nt/nn, rt/rr), so that
+ * "katu", "kadulla" and "katuja" share a stem. The English stemmer is a
+ * reduced Porter stemmer covering plurals, -ed/-ing forms and the most
+ * common derivational suffixes.
+ *
+ * Both are approximations tuned for short radio phrases, not full
+ * morphological analysers.
+ *
+ * @module stemming
+ */
+
+/**
+ * Language whose inflection a stemmer understands
+ */
+export type StemmerLanguage = 'finnish' | 'english';
+
+const FINNISH_VOWELS = 'aeiouyäö';
+
+/**
+ * Clitic particles, removed first when they follow a vowel ("kadullakin" → "kadulla")
+ */
+const FINNISH_CLITICS = ['kaan', 'kään', 'kin', 'han', 'hän', 'ko', 'kö', 'pa', 'pä'];
+
+/**
+ * Possessive suffixes, removed when they follow a vowel ("autoni" → "auto")
+ */
+const FINNISH_POSSESSIVES = ['mme', 'nne', 'nsa', 'nsä', 'ni', 'si'];
+
+/**
+ * Case endings, longest first so that e.g. "ssa" is tried before "a"
+ * (the partitive "ta"/"tä" only after a long vowel or diphthong, as in
+ * "maata" and "tietä", and the partitive/abessive "tta"/"ttä" only after a
+ * vowel, as in "huonetta", so that "sota", "ranta" and "kenttä" keep the
+ * consonants that gradation works on)
+ */
+const FINNISH_CASE_ENDINGS = [
+  'seen', 'siin', 'tten',
+  'ssa', 'ssä', 'sta', 'stä', 'lla', 'llä', 'lta', 'ltä', 'lle', 'ksi', 'tta', 'ttä', 'den',
+  'ta', 'tä',
+  'a', 'ä', 'n', 't',
+];
+
+/**
+ * Consonant gradation pairs, weak (or doubled) grade → canonical grade
+ */
+const FINNISH_GRADATION: { [cluster: string]: string } = {
+  kk: 'k',
+  pp: 'p',
+  tt: 't',
+  d: 't',
+  v: 'p',
+  ng: 'nk',
+  mm: 'mp',
+  ll: 'lt',
+  nn: 'nt',
+  rr: 'rt',
+};
+
+const MIN_STEM_LENGTH = 2;
+
+/**
+ * Remove the first listed suffix the word ends with, keeping at least
+ * MIN_STEM_LENGTH characters
+ *
+ * @param word - Word to strip
+ * @param suffixes - Suffixes in the order they are tried
+ * @param isAllowed - Whether the suffix may be removed from what precedes it
+ */
+function stripSuffix(word: string, suffixes: string[], isAllowed?: (rest: string, suffix: string) => boolean): string {
+  for (let i = 0; i < suffixes.length; i++) {
+    const suffix = suffixes[i];
+    const rest = word.slice(0, -suffix.length);
+    if (rest.length >= MIN_STEM_LENGTH && word.slice(-suffix.length) === suffix && (!isAllowed || isAllowed(rest, suffix))) {
+      return rest;
+    }
+  }
+  return word;
+}
+
+function isFinnishVowel(char: string): boolean {
+  return FINNISH_VOWELS.indexOf(char) !== -1;
+}
+
+function endsInFinnishVowel(word: string): boolean {
+  return isFinnishVowel(word.slice(-1));
+}
+
+/**
+ * Whether a case ending can follow the rest of the word
+ */
+function isFinnishCaseEndingAllowed(rest: string, suffix: string): boolean {
+  if (suffix === 'tta' || suffix === 'ttä') return endsInFinnishVowel(rest);
+  if (suffix !== 'ta' && suffix !== 'tä') return true;
+  const last = rest.slice(-1);
+  return isFinnishVowel(last) && (rest.charAt(rest.length - 2) === last || /(ie|uo|yö)$/.test(rest));
+}
+
+/**
+ * Reduce a Finnish word to its stem
+ *
+ * @param word - Word in any case
+ * @returns Lowercase stem
+ *
+ * @example
+ * ```typescript
+ * stemFinnish('kadulla'); // 'kat'
+ * stemFinnish('katu');    // 'kat'
+ * stemFinnish('tietokone'); // 'tietokon'
+ * ```
+ */
+export function stemFinnish(word: string): string {
+  let stem = stripSuffix(word.toLowerCase(), FINNISH_CLITICS, endsInFinnishVowel);
+  stem = stripSuffix(stem, FINNISH_POSSESSIVES, endsInFinnishVowel);
+
+  // Illative with a lengthened vowel ("taloon", "kylään")
+  const illative = stem.match(/([aeiouyäö])\1n$/);
+  if (illative && stem.length - 3 >= MIN_STEM_LENGTH) {
+    stem = stem.slice(0, -3);
+  } else {
+    stem = stripSuffix(stem, FINNISH_CASE_ENDINGS, isFinnishCaseEndingAllowed);
+  }
+
+  // Plural markers ("kaduilla" → "kadui" → "kadu", "katuja" → "katuj" → "katu")
+  if (stem.length > MIN_STEM_LENGTH + 1 && (stem.slice(-1) === 'i' || stem.slice(-1) === 'j') && endsInFinnishVowel(stem.slice(0, -1))) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Stem vowel, which varies between forms
+  if (stem.length > MIN_STEM_LENGTH && isFinnishVowel(stem.slice(-1))) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Consonant gradation in the last consonant cluster
+  const cluster = stem.match(/[^aeiouyäö]+$/);
+  if (cluster) {
+    const last = cluster[0];
+    for (const weak in FINNISH_GRADATION) {
+      if (last.slice(-weak.length) === weak) {
+        return stem.slice(0, -weak.length) + FINNISH_GRADATION[weak];
+      }
+    }
+  }
+  return stem;
+}
+
+/**
+ * Derivational suffixes and their replacements, longest first
+ */
+const ENGLISH_DERIVATIONS: [string, string][] = [
+  ['ational', 'ate'],
+  ['ization', 'ize'],
+  ['fulness', 'ful'],
+  ['iveness', 'ive'],
+  ['ation', 'ate'],
+  ['ness', ''],
+  ['ment', ''],
+  ['ful', ''],
+  ['ly', ''],
+];
+
+function isEnglishVowel(char: string): boolean {
+  return 'aeiou'.indexOf(char) !== -1;
+}
+
+function hasEnglishVowel(word: string): boolean {
+  return /[aeiouy]/.test(word);
+}
+
+/**
+ * Reduce an English word to its stem
+ *
+ * @param word - Word in any case
+ * @returns Lowercase stem
+ *
+ * @example
+ * ```typescript
+ * stemEnglish('running');    // 'run'
+ * stemEnglish('evacuation'); // 'evacuat'
+ * stemEnglish('evacuated');  // 'evacuat'
+ * ```
+ */
+export function stemEnglish(word: string): string {
+  let stem = word.toLowerCase().replace(/['’]s$/, '');
+
+  // Plurals
+  if (stem.slice(-4) === 'sses') {
+    stem = stem.slice(0, -2);
+  } else if (stem.slice(-3) === 'ies' && stem.length > 4) {
+    stem = stem.slice(0, -3) + 'i';
+  } else if (stem.slice(-1) === 's' && stem.slice(-2) !== 'ss' && stem.slice(-2) !== 'us' && stem.length > 3) {
+    stem = stem.slice(0, -1);
+  }
+
+  // -ed and -ing forms
+  const inflection = stem.match(/(ed|ing)$/);
+  if (inflection && hasEnglishVowel(stem.slice(0, -inflection[0].length)) && stem.length - inflection[0].length >= MIN_STEM_LENGTH + 1) {
+    stem = stem.slice(0, -inflection[0].length);
+    if (/(at|bl|iz)$/.test(stem)) {
+      stem += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(stem)) {
+      stem = stem.slice(0, -1);
+    }
+  }
+
+  // Final y after a consonant ("happy" / "happiness")
+  if (stem.slice(-1) === 'y' && stem.length > 2 && !isEnglishVowel(stem.charAt(stem.length - 2))) {
+    stem = stem.slice(0, -1) + 'i';
+  }
+
+  for (let i = 0; i < ENGLISH_DERIVATIONS.length; i++) {
+    const [suffix, replacement] = ENGLISH_DERIVATIONS[i];
+    if (stem.slice(-suffix.length) === suffix && stem.length - suffix.length >= MIN_STEM_LENGTH + 1) {
+      stem = stem.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  if (stem.slice(-1) === 'e' && stem.length > MIN_STEM_LENGTH + 1) {
+    stem = stem.slice(0, -1);
+  }
+  return stem;
+}
+
+/**
+ * Reduce a word to its stem in the given language
+ *
+ * @param word - Word in any case
+ * @param language - Language whose inflection to remove
+ * @returns Lowercase stem
+ */
+export function stem(word: string, language: StemmerLanguage): string {
+  return language === 'finnish' ? stemFinnish(word) : stemEnglish(word);
+}
@@ -0,0 +1,106 @@
+/**
+ * Entry Timestamp Formatting
+ *
+ * Entries store their time as an ISO 8601 instant (UTC). This module turns
+ * those instants into the display format chosen in the settings:
+ * - 'local': full date and time in the browser's locale and time zone
+ * - 'utc': full date and time in UTC (Zulu)
+ * - 'elapsed': time since the session started (T+mm:ss)
+ *
+ * Entries recorded before timestamps were stored as instants only have a
+ * bare HH:MM:SS string; those are shown unchanged in every format.
+ *
+ * @module timeFormat
+ */
+
+/**
+ * Display format for entry timestamps
+ */
+export type TimestampFormat = 'local' | 'utc' | 'elapsed';
+
+/**
+ * Milliseconds since the epoch of an ISO timestamp
+ *
+ * @param timestamp - Stored entry timestamp
+ * @returns The instant, or null for legacy HH:MM:SS timestamps
+ */
+export function parseTimestamp(timestamp: string): number | null {
+  if (timestamp.indexOf('T') === -1) {
+    return null;
+  }
+  const time = Date.parse(timestamp);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Format the time elapsed between two instants as T+mm:ss (T+h:mm:ss past an hour)
+ */
+function formatElapsed(milliseconds: number): string {
+  const sign = milliseconds < 0 ? '-' : '+';
+  const totalSeconds = Math.floor(Math.abs(milliseconds) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0
+    ? `T${sign}${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `T${sign}${pad(minutes)}:${pad(seconds)}`;
+}
+
+/**
+ * Format an ISO timestamp as local wall-clock time (HH:MM:SS)
+ *
+ * @param timestamp - ISO 8601 instant
+ * @returns Local time of day, or the input unchanged if it is not an instant
+ */
+export function formatClockTime(timestamp: string): string {
+  const time = parseTimestamp(timestamp);
+  if (time === null) {
+    return timestamp;
+  }
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Format an entry timestamp for display
+ *
+ * @param timestamp - Stored entry timestamp (ISO 8601, or legacy HH:MM:SS)
+ * @param format - Display format
+ * @param sessionStartedAt - ISO start of the session, used by 'elapsed'
+ * @returns Formatted timestamp
+ *
+ * @example
+ * ```typescript
+ * formatEntryTime('2025-11-30T12:30:45.000Z', 'utc');
+ * // Returns: '2025-11-30 12:30:45Z'
+ * formatEntryTime('2025-11-30T12:30:45.000Z', 'elapsed', '2025-11-30T12:00:00.000Z');
+ * // Returns: 'T+30:45'
+ * ```
+ */
+export function formatEntryTime(timestamp: string, format: TimestampFormat, sessionStartedAt?: string): string {
+  const time = parseTimestamp(timestamp);
+  if (time === null) {
+    return timestamp;
+  }
+
+  if (format === 'elapsed' && sessionStartedAt) {
+    return formatElapsed(time - Date.parse(sessionStartedAt));
+  }
+
+  if (format === 'utc') {
+    const iso = new Date(time).toISOString();
+    return `${iso.slice(0, 10)} ${iso.slice(11, 19)}Z`;
+  }
+
+  return new Date(time).toLocaleString(undefined, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    timeZoneName: 'short',
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Recognition Vocabulary
+ *
+ * Terms sent to the transcription provider on connect to bias recognition
+ * towards them: the words of the highlight rules (the callsigns and jargon
+ * worth highlighting are the ones most often misheard) followed by the
+ * operator's own vocabulary list.
+ *
+ * @module vocabulary
+ */
+
+import { HighlightRule } from '../hooks/useSettings';
+
+/**
+ * Most terms sent to a provider
+ */
+export const MAX_KEYTERMS = 100;
+
+/**
+ * Longest term accepted, in characters
+ */
+export const MAX_KEYTERM_LENGTH = 50;
+
+/**
+ * Build the vocabulary sent to the provider
+ * Regex highlight rules are skipped; terms are trimmed, duplicates (ignoring case) and over-long terms are
+ * dropped, and the list is capped at MAX_KEYTERMS with highlight words first
+ *
+ * @param highlightRules - Highlight rules whose words seed the vocabulary
+ * @param terms - Additional terms from the vocabulary list
+ * @returns Terms to send, in priority order
+ *
+ * @example
+ * ```typescript
+ * buildVocabulary([{ id: '1', word: 'Alpha 1', color: '#FFEB3B' }], ['medevac', 'alpha 1']);
+ * // Returns: ['Alpha 1', 'medevac']
+ * ```
+ */
+export function buildVocabulary(highlightRules: HighlightRule[], terms: string[]): string[] {
+  const vocabulary: string[] = [];
+  const seen: { [term: string]: boolean } = {};
+
+  // Regex patterns are not words the provider could listen for
+  highlightRules
+    .filter(rule => rule.matchType !== 'regex')
+    .map(rule => rule.word)
+    .concat(terms).forEach(term => {
+    const trimmed = term.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || trimmed.length > MAX_KEYTERM_LENGTH || seen[key] || vocabulary.length >= MAX_KEYTERMS) {
+      return;
+    }
+    seen[key] = true;
+    vocabulary.push(trimmed);
+  });
+  return vocabulary;
+}
@@ -0,0 +1,135 @@
+/**
+ * Word-Level Timing Utilities
+ *
+ * Scribe's `committed_transcript_with_timestamps` message carries every word
+ * with its start and end time in seconds, measured from the start of the
+ * audio stream, its log probability, and the speaker it was attributed to
+ * when diarized. These helpers keep the spoken words of that payload, turn
+ * their offsets into wall-clock and subtitle times, and pick out the words
+ * recognized with low confidence.
+ *
+ * @module wordTimings
+ */
+
+/**
+ * Word of a committed transcript as sent by Scribe
+ * (@elevenlabs/react declares the payload with `timestamps` instead of `words`)
+ */
+export interface ScribeWord {
+  text?: string;
+  start?: number;
+  end?: number;
+  type?: 'word' | 'spacing';
+  speaker_id?: string;
+  logprob?: number;
+}
+
+/**
+ * Payload of onCommittedTranscriptWithTimestamps
+ */
+export interface ScribeCommittedTranscript {
+  text: string;
+  language_code?: string;
+  words?: ScribeWord[];
+}
+
+/**
+ * Timing of a single spoken word
+ */
+export interface WordTiming {
+  text: string;
+  /** Seconds from the start of the recording */
+  start: number;
+  /** Seconds from the start of the recording */
+  end: number;
+  /** Speaker the word was attributed to (e.g. 'speaker_0'), when diarized */
+  speakerId?: string;
+  /** Natural log of the probability the word was recognized correctly */
+  logprob?: number;
+}
+
+/**
+ * Keep the spoken words of a Scribe payload, dropping spacing tokens
+ *
+ * @param words - Words from the committed transcript payload
+ * @returns Word timings in spoken order (empty if none were timed)
+ */
+export function toWordTimings(words: ScribeWord[] | undefined): WordTiming[] {
+  return (words ?? [])
+    .filter(word => word.type !== 'spacing' && word.text && typeof word.start === 'number')
+    .map(word => ({
+      text: word.text!,
+      start: word.start!,
+      end: typeof word.end === 'number' ? word.end : word.start!,
+      ...(word.speaker_id && { speakerId: word.speaker_id }),
+      ...(typeof word.logprob === 'number' && { logprob: word.logprob }),
+    }));
+}
+
+/**
+ * Whether the provider was unsure of a word
+ *
+ * @param word - Word timing
+ * @param threshold - Lowest acceptable confidence, 0–1 (0 never flags a word)
+ * @returns true if the word's confidence is below the threshold
+ */
+export function isLowConfidence(word: WordTiming, threshold: number): boolean {
+  return typeof word.logprob === 'number' && Math.exp(word.logprob) < threshold;
+}
+
+/**
+ * Words the provider was unsure of
+ *
+ * @param words - Word timings of an utterance
+ * @param threshold - Lowest acceptable confidence, 0–1
+ * @returns Words below the threshold, in spoken order
+ */
+export function getLowConfidenceWords(words: WordTiming[], threshold: number): WordTiming[] {
+  return words.filter(word => isLowConfidence(word, threshold));
+}
+
+/**
+ * Speaker of an utterance: the one most of its words were attributed to
+ *
+ * @param words - Word timings of the utterance
+ * @returns Speaker id, or undefined if no word has a speaker
+ */
+export function getMainSpeaker(words: WordTiming[]): string | undefined {
+  const counts: { [speakerId: string]: number } = {};
+  let main: string | undefined;
+  words.forEach(word => {
+    if (!word.speakerId) return;
+    counts[word.speakerId] = (counts[word.speakerId] ?? 0) + 1;
+    if (main === undefined || counts[word.speakerId] > counts[main]) {
+      main = word.speakerId;
+    }
+  });
+  return main;
+}
+
+/**
+ * Wall-clock time of an offset into a recording
+ *
+ * @param recordingStartedAt - ISO timestamp of when the recording started
+ * @param seconds - Offset into the recording
+ * @returns The moment the offset refers to
+ */
+export function offsetToDate(recordingStartedAt: string, seconds: number): Date {
+  return new Date(new Date(recordingStartedAt).getTime() + seconds * 1000);
+}
+
+/**
+ * Format seconds as a subtitle timestamp (HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT)
+ *
+ * @param seconds - Time in seconds
+ * @param separator - Separator before the milliseconds
+ * @returns Formatted timestamp
+ */
+export function formatSubtitleTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}